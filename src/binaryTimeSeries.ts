@@ -0,0 +1,278 @@
+import type { TimeSeriesData, TimeSeriesRecord, VertexId } from './dataLoad';
+
+/** =========================
+ *  Binary time series (.mfts)
+ *
+ *  전체 타임스텝을 하나의 컬럼형 파일로 묶어, 한 스텝만 byte range로 읽을 수 있게 함.
+ *  (little-endian)
+ *
+ *  [0]   "MFTS" magic (4 bytes)
+ *  [4]   uint32 version
+ *  [8]   uint32 JSON 헤더 길이 (4의 배수로 패딩)
+ *  [12]  JSON 헤더 (BinaryTimeSeriesHeader에서 offset 관련 필드 제외)
+ *  [..]  Int32  nodeIds[nodeCount]
+ *  [..]  step 0: Float32 column[0][nodeCount], column[1][nodeCount], ...
+ *        step 1: ...
+ *
+ *  값이 없는 노드(해당 스텝 CSV에 없는 노드)는 모든 컬럼이 NaN
+ *  ========================= */
+const MAGIC = 'MFTS';
+const VERSION = 1;
+const PRELUDE_BYTES = 12;
+
+/** 노드별 값으로 저장되는 기본 컬럼 (timestamp는 스텝 단위로 헤더에 저장) */
+export const BINARY_BASE_COLUMNS = [
+  'velocityX',
+  'velocityY',
+  'waterDepth',
+  'velocityMagnitude',
+  'waterElevation',
+  'inflowRate',
+] as const;
+
+export interface BinaryTimeSeriesStep {
+  /** 스텝 번호 (CSV 파일 이름의 숫자, 예: 12.csv -> 12) */
+  index: number;
+  timestamp: number;
+  /** 원본 파일 이름 등 */
+  label?: string;
+}
+
+export interface BinaryTimeSeriesHeader {
+  version: number;
+  nodeCount: number;
+  /** 기본 컬럼 + extraColumns 순서 */
+  columns: string[];
+  extraColumns: string[];
+  steps: BinaryTimeSeriesStep[];
+  /** nodeIds 시작 위치 */
+  nodeIdsOffset: number;
+  /** step 0 시작 위치 */
+  dataOffset: number;
+  /** 스텝 하나의 바이트 크기 */
+  stepByteLength: number;
+}
+
+export interface BinaryTimeSeriesInputStep extends Omit<BinaryTimeSeriesStep, 'timestamp'> {
+  timestamp?: number;
+  data: TimeSeriesData;
+}
+
+function align4(n: number): number {
+  return (n + 3) & ~3;
+}
+
+/**
+ * 여러 스텝의 TimeSeriesData를 .mfts 바이트로 인코딩
+ * @param nodeIds - 저장할 노드 순서 (보통 메시 노드). 여기에 없는 노드의 레코드는 버려짐
+ */
+export function encodeBinaryTimeSeries(
+  steps: BinaryTimeSeriesInputStep[],
+  nodeIds: VertexId[],
+  extraColumns: string[] = []
+): Uint8Array {
+  const columns = [...BINARY_BASE_COLUMNS, ...extraColumns];
+  const nodeCount = nodeIds.length;
+  const nodeIndex = new Map(nodeIds.map((id, i) => [id, i]));
+
+  const stepMeta: BinaryTimeSeriesStep[] = steps.map(step => ({
+    index: step.index,
+    timestamp: step.timestamp ?? step.data.find(r => Number.isFinite(r.timestamp))?.timestamp ?? step.index,
+    ...(step.label !== undefined ? { label: step.label } : {})
+  }));
+
+  const json = JSON.stringify({ version: VERSION, nodeCount, columns, extraColumns, steps: stepMeta });
+  const jsonBytes = new TextEncoder().encode(json);
+  const jsonByteLength = align4(jsonBytes.length);
+
+  const nodeIdsOffset = PRELUDE_BYTES + jsonByteLength;
+  const dataOffset = nodeIdsOffset + nodeCount * 4;
+  const stepByteLength = columns.length * nodeCount * 4;
+  const buffer = new ArrayBuffer(dataOffset + steps.length * stepByteLength);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < MAGIC.length; i++) bytes[i] = MAGIC.charCodeAt(i);
+  view.setUint32(4, VERSION, true);
+  view.setUint32(8, jsonByteLength, true);
+  bytes.fill(0x20, PRELUDE_BYTES, nodeIdsOffset); // JSON 패딩은 공백
+  bytes.set(jsonBytes, PRELUDE_BYTES);
+  new Int32Array(buffer, nodeIdsOffset, nodeCount).set(nodeIds);
+
+  steps.forEach((step, s) => {
+    const base = dataOffset + s * stepByteLength;
+    const columnArrays = columns.map((_, c) => {
+      const array = new Float32Array(buffer, base + c * nodeCount * 4, nodeCount);
+      array.fill(NaN);
+      return array;
+    });
+    for (const record of step.data) {
+      const i = nodeIndex.get(record.nodeId);
+      if (i === undefined) continue;
+      BINARY_BASE_COLUMNS.forEach((column, c) => { columnArrays[c][i] = record[column]; });
+      extraColumns.forEach((column, e) => {
+        columnArrays[BINARY_BASE_COLUMNS.length + e][i] = record.extra?.[column] ?? NaN;
+      });
+    }
+  });
+
+  return bytes;
+}
+
+/**
+ * 파일 앞부분의 12바이트 prelude를 읽어 JSON 헤더 길이를 반환
+ */
+export function readBinaryTimeSeriesPrelude(prelude: ArrayBuffer): { jsonByteLength: number } {
+  if (prelude.byteLength < PRELUDE_BYTES) throw new Error('Binary time series file is truncated');
+  const bytes = new Uint8Array(prelude, 0, 4);
+  const magic = String.fromCharCode(...bytes);
+  if (magic !== MAGIC) throw new Error(`Not a binary time series file (magic "${magic}")`);
+  const view = new DataView(prelude);
+  const version = view.getUint32(4, true);
+  if (version !== VERSION) throw new Error(`Unsupported binary time series version ${version}`);
+  return { jsonByteLength: view.getUint32(8, true) };
+}
+
+/**
+ * prelude + JSON 헤더 영역(최소 PRELUDE_BYTES + jsonByteLength 바이트)을 파싱
+ */
+export function parseBinaryTimeSeriesHeader(buffer: ArrayBuffer): BinaryTimeSeriesHeader {
+  const { jsonByteLength } = readBinaryTimeSeriesPrelude(buffer);
+  if (buffer.byteLength < PRELUDE_BYTES + jsonByteLength) throw new Error('Binary time series header is truncated');
+  const json = new TextDecoder().decode(new Uint8Array(buffer, PRELUDE_BYTES, jsonByteLength));
+  const meta = JSON.parse(json) as Omit<BinaryTimeSeriesHeader, 'nodeIdsOffset' | 'dataOffset' | 'stepByteLength'>;
+
+  const nodeIdsOffset = PRELUDE_BYTES + jsonByteLength;
+  return {
+    ...meta,
+    nodeIdsOffset,
+    dataOffset: nodeIdsOffset + meta.nodeCount * 4,
+    stepByteLength: meta.columns.length * meta.nodeCount * 4
+  };
+}
+
+/**
+ * 한 스텝의 바이트 블록을 TimeSeriesData로 디코딩 (값이 NaN인 노드는 제외)
+ */
+export function decodeBinaryTimeSeriesStep(
+  header: BinaryTimeSeriesHeader,
+  nodeIds: Int32Array,
+  stepBuffer: ArrayBuffer,
+  stepPosition: number
+): TimeSeriesData {
+  const { nodeCount, columns, extraColumns } = header;
+  if (stepBuffer.byteLength < header.stepByteLength) throw new Error('Binary time series step is truncated');
+  const columnArrays = columns.map((_, c) => new Float32Array(stepBuffer, c * nodeCount * 4, nodeCount));
+  const timestamp = header.steps[stepPosition].timestamp;
+  const baseCount = BINARY_BASE_COLUMNS.length;
+
+  const data: TimeSeriesData = [];
+  for (let i = 0; i < nodeCount; i++) {
+    if (Number.isNaN(columnArrays[0][i]) || Number.isNaN(columnArrays[1][i])) continue;
+    const record: TimeSeriesRecord = {
+      nodeId: nodeIds[i],
+      timestamp,
+      velocityX: columnArrays[0][i],
+      velocityY: columnArrays[1][i],
+      waterDepth: columnArrays[2][i],
+      velocityMagnitude: columnArrays[3][i],
+      waterElevation: columnArrays[4][i],
+      inflowRate: columnArrays[5][i],
+    };
+    if (extraColumns.length > 0) {
+      record.extra = {};
+      extraColumns.forEach((name, e) => { record.extra![name] = columnArrays[baseCount + e][i]; });
+    }
+    data.push(record);
+  }
+  return data;
+}
+
+/**
+ * HTTP Range 요청으로 .mfts에서 필요한 스텝만 읽는 리더
+ * - 서버가 Range를 지원하지 않으면(200 응답) 전체 파일을 한 번 받아 메모리에서 읽음
+ */
+export class BinaryTimeSeriesReader {
+  private readonly url: string;
+  readonly header: BinaryTimeSeriesHeader;
+  private readonly nodeIds: Int32Array;
+  private readonly stepPositions: Map<number, number>;
+  private fullBuffer?: ArrayBuffer;
+
+  private constructor(url: string, header: BinaryTimeSeriesHeader, nodeIds: Int32Array, fullBuffer?: ArrayBuffer) {
+    this.url = url;
+    this.header = header;
+    this.nodeIds = nodeIds;
+    this.fullBuffer = fullBuffer;
+    this.stepPositions = new Map(header.steps.map((step, i) => [step.index, i]));
+  }
+
+  /**
+   * Static factory method
+   * - prelude -> JSON 헤더 + nodeIds 순서로 읽음
+   */
+  public static async open(url: string): Promise<BinaryTimeSeriesReader> {
+    const prelude = await fetchRange(url, 0, PRELUDE_BYTES);
+    if (prelude.full) return BinaryTimeSeriesReader.fromBuffer(url, prelude.buffer);
+
+    const { jsonByteLength } = readBinaryTimeSeriesPrelude(prelude.buffer);
+    const headerPart = await fetchRange(url, 0, PRELUDE_BYTES + jsonByteLength);
+    if (headerPart.full) return BinaryTimeSeriesReader.fromBuffer(url, headerPart.buffer);
+    const header = parseBinaryTimeSeriesHeader(headerPart.buffer);
+
+    const nodeIdsPart = await fetchRange(url, header.nodeIdsOffset, header.nodeCount * 4);
+    if (nodeIdsPart.full) return BinaryTimeSeriesReader.fromBuffer(url, nodeIdsPart.buffer);
+    return new BinaryTimeSeriesReader(url, header, new Int32Array(nodeIdsPart.buffer.slice(0, header.nodeCount * 4)));
+  }
+
+  /**
+   * 메모리에 있는 전체 파일로부터 생성 (Node 등)
+   */
+  public static fromBuffer(url: string, buffer: ArrayBuffer): BinaryTimeSeriesReader {
+    const header = parseBinaryTimeSeriesHeader(buffer);
+    const nodeIds = new Int32Array(buffer.slice(header.nodeIdsOffset, header.nodeIdsOffset + header.nodeCount * 4));
+    return new BinaryTimeSeriesReader(url, header, nodeIds, buffer);
+  }
+
+  public get steps(): BinaryTimeSeriesStep[] {
+    return this.header.steps;
+  }
+
+  public hasStep(stepIndex: number): boolean {
+    return this.stepPositions.has(stepIndex);
+  }
+
+  /**
+   * 스텝 번호(파일 이름 숫자)로 한 스텝 읽기
+   * @param signal - abort되면 진행 중인 Range 요청을 취소
+   */
+  public async readStep(stepIndex: number, signal?: AbortSignal): Promise<TimeSeriesData> {
+    const position = this.stepPositions.get(stepIndex);
+    if (position === undefined) {
+      throw new Error(`Step ${stepIndex} not found in ${this.url}`);
+    }
+    const start = this.header.dataOffset + position * this.header.stepByteLength;
+
+    let stepBuffer: ArrayBuffer;
+    if (this.fullBuffer) {
+      stepBuffer = this.fullBuffer.slice(start, start + this.header.stepByteLength);
+    } else {
+      const part = await fetchRange(this.url, start, this.header.stepByteLength, signal);
+      if (part.full) {
+        this.fullBuffer = part.buffer;
+        stepBuffer = part.buffer.slice(start, start + this.header.stepByteLength);
+      } else {
+        stepBuffer = part.buffer;
+      }
+    }
+    return decodeBinaryTimeSeriesStep(this.header, this.nodeIds, stepBuffer, position);
+  }
+}
+
+async function fetchRange(url: string, start: number, length: number, signal?: AbortSignal): Promise<{ buffer: ArrayBuffer; full: boolean }> {
+  const res = await fetch(url, { headers: { Range: `bytes=${start}-${start + length - 1}` }, signal });
+  if (!res.ok) throw new Error(`Failed to fetch binary time series: ${res.statusText}`);
+  const buffer = await res.arrayBuffer();
+  // 206이면 요청 범위, 200이면 Range를 무시한 전체 파일
+  return { buffer, full: res.status !== 206 };
+}
@@ -0,0 +1,55 @@
+/**
+ * CSV 폴더(1.csv, 2.csv, ...) + 메시(.rgo/.2dm)를 .mfts 바이너리 하나로 변환
+ *
+ * pnpm run build:cli
+ * node dist/cli/convertCsvToBinary.js --mesh public/river-data/38.rgo \
+ *   --csv public/river-data/20250730 --out public/river-data/20250730.mfts [--extra Froude,Shear]
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { detectMeshFormat, parseMeshText } from '../meshFormats';
+import { parseTimeSeriesCsv, summarizeValidationReport } from '../timeSeriesCsv';
+import { encodeBinaryTimeSeries, type BinaryTimeSeriesInputStep } from '../binaryTimeSeries';
+import { listStepCsvFiles } from './stepFiles';
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      mesh: { type: 'string' },
+      csv: { type: 'string' },
+      out: { type: 'string' },
+      extra: { type: 'string' },
+    }
+  });
+  if (!values.mesh || !values.csv || !values.out) {
+    console.error('Usage: convertCsvToBinary --mesh <mesh.rgo|mesh.2dm> --csv <csv folder> --out <file.mfts> [--extra col1,col2]');
+    process.exit(1);
+  }
+
+  // 노드 ID 순서만 필요하므로 좌표 변환 없이 읽음
+  const meshText = readFileSync(values.mesh, 'utf8');
+  const mesh = parseMeshText(meshText, detectMeshFormat(values.mesh, meshText), (x, y) => [x, y]);
+  const nodeIds = mesh.vertices.map(v => v.id).sort((a, b) => a - b);
+  const knownNodeIds = new Set(nodeIds);
+  const extraColumns = values.extra ? values.extra.split(',').map(c => c.trim()).filter(Boolean) : [];
+
+  const files = listStepCsvFiles(values.csv);
+  if (files.length === 0) {
+    console.error(`No <number>.csv files found in ${values.csv}`);
+    process.exit(1);
+  }
+
+  const steps: BinaryTimeSeriesInputStep[] = files.map(file => {
+    const { data, report } = parseTimeSeriesCsv(readFileSync(file.path, 'utf8'), { extraColumns, knownNodeIds });
+    const summary = summarizeValidationReport(report);
+    if (summary) console.warn(`${basename(file.path)}: ${summary}`);
+    return { index: file.index, label: basename(file.path), data };
+  });
+
+  const bytes = encodeBinaryTimeSeries(steps, nodeIds, extraColumns);
+  writeFileSync(values.out, bytes);
+  console.log(`Wrote ${values.out}: ${steps.length} steps x ${nodeIds.length} nodes (${(bytes.byteLength / 1024 / 1024).toFixed(1)} MB)`);
+}
+
+main();
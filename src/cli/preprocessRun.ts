@@ -0,0 +1,114 @@
+/**
+ * 메시(.rgo/.2dm) + CSV 폴더를 브라우저에서 바로 읽을 수 있는 스텝별 래스터로 전처리
+ * (재투영, 공간 인덱스, barycentric 래스터화를 FlowFieldDataManager 대신 오프라인으로 수행)
+ *
+ * pnpm run build:cli
+ * node dist/cli/preprocessRun.js --mesh public/river-data/38.rgo \
+ *   --csv public/river-data/20250730 --out public/river-data/20250730-raster \
+ *   [--crs EPSG:5186] [--size 1024 | --cell-size 20] [--grid 64] [--seeds 16384]
+ *
+ * --size는 긴 변의 픽셀 수 (짧은 변은 메시의 가로/세로 비율), --cell-size는 목표 셀 크기(m)
+ *
+ * 출력 형식은 src/rasterRun.ts 참고. 마스크는 메시 footprint (마스크 이미지는 지원하지 않음)
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createCoordinateTransform, DEFAULT_CRS } from '../crs';
+import { detectMeshFormat, parseMeshText } from '../meshFormats';
+import { parseTimeSeriesCsv, summarizeValidationReport } from '../timeSeriesCsv';
+import { MeshRasterizer, flowNodeChannels, rasterDimensions, rasterizeFlowField } from '../rasterize';
+import { generateSeeds } from '../seeding';
+import { RASTER_RUN_CHANNELS, encodeRasterRunStep, type RasterRunMetadata } from '../rasterRun';
+import { listStepCsvFiles } from './stepFiles';
+
+function parsePositiveInteger(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    console.error(`--${name} must be a positive integer, got ${value}`);
+    process.exit(1);
+  }
+  return n;
+}
+
+function parsePositiveNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) {
+    console.error(`--${name} must be a positive number, got ${value}`);
+    process.exit(1);
+  }
+  return n;
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      mesh: { type: 'string' },
+      csv: { type: 'string' },
+      out: { type: 'string' },
+      crs: { type: 'string' },
+      size: { type: 'string' },
+      'cell-size': { type: 'string' },
+      grid: { type: 'string' },
+      seeds: { type: 'string' },
+    }
+  });
+  if (!values.mesh || !values.csv || !values.out) {
+    console.error('Usage: preprocessRun --mesh <mesh.rgo|mesh.2dm> --csv <csv folder> --out <output folder> [--crs EPSG:5186] [--size 1024 | --cell-size 20] [--grid 64] [--seeds 16384]');
+    process.exit(1);
+  }
+  // FlowVisualizationManager 기본값과 같음
+  const size = parsePositiveInteger('size', values.size, 1024);
+  const cellSize = parsePositiveNumber('cell-size', values['cell-size']);
+  const gridResolution = parsePositiveInteger('grid', values.grid, 64);
+  const numSeeds = parsePositiveInteger('seeds', values.seeds, 128 * 128);
+
+  const meshText = readFileSync(values.mesh, 'utf8');
+  const polygon = parseMeshText(meshText, detectMeshFormat(values.mesh, meshText), createCoordinateTransform(values.crs ?? DEFAULT_CRS));
+  const rasterizer = new MeshRasterizer(polygon, gridResolution);
+  const { width, height } = rasterDimensions(polygon.bounds, { size, cellSize });
+  const knownNodeIds = new Set(polygon.vertices.map(v => v.id));
+
+  const files = listStepCsvFiles(values.csv);
+  if (files.length === 0) {
+    console.error(`No <number>.csv files found in ${values.csv}`);
+    process.exit(1);
+  }
+
+  mkdirSync(values.out, { recursive: true });
+  writeFileSync(join(values.out, 'mask.f32'), new Uint8Array(rasterizer.coverage(width, height).buffer));
+  const seeds = generateSeeds(polygon, numSeeds);
+  writeFileSync(join(values.out, 'seeds.f32'), new Uint8Array(new Float32Array(seeds.flatMap(s => [s.lon, s.lat])).buffer));
+
+  const { bounds } = polygon;
+  const metadata: RasterRunMetadata = {
+    version: 1,
+    width,
+    height,
+    bounds: { west: bounds.minLon, south: bounds.minLat, east: bounds.maxLon, north: bounds.maxLat },
+    channels: [...RASTER_RUN_CHANNELS],
+    mask: 'mask.f32',
+    seeds: 'seeds.f32',
+    steps: []
+  };
+
+  for (const file of files) {
+    const { data, report } = parseTimeSeriesCsv(readFileSync(file.path, 'utf8'), { knownNodeIds });
+    const summary = summarizeValidationReport(report);
+    if (summary) console.warn(`${basename(file.path)}: ${summary}`);
+
+    const raster = rasterizeFlowField(rasterizer, flowNodeChannels(rasterizer, data), width, height);
+    const { step, bytes } = encodeRasterRunStep(raster, file.index, `${file.index}.f32`, basename(file.path));
+    writeFileSync(join(values.out, step.file), bytes);
+    metadata.steps.push(step);
+    console.log(`${basename(file.path)} -> ${step.file}`);
+  }
+
+  writeFileSync(join(values.out, 'run.json'), JSON.stringify(metadata, null, 2));
+  const stepMB = (RASTER_RUN_CHANNELS.length * width * height * 4) / 1024 / 1024;
+  console.log(`Wrote ${values.out}: ${metadata.steps.length} steps of ${width}x${height} (${(stepMB * metadata.steps.length).toFixed(1)} MB)`);
+}
+
+main();
@@ -0,0 +1,13 @@
+import { readdirSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * 폴더 안의 `<숫자>.csv` 파일을 스텝 번호 순으로 나열
+ */
+export function listStepCsvFiles(dir: string): { index: number; path: string }[] {
+  return readdirSync(dir)
+    .map(name => ({ name, match: /^(\d+)\.csv$/i.exec(name) }))
+    .filter(f => f.match)
+    .map(f => ({ index: Number(f.match![1]), path: join(dir, f.name) }))
+    .sort((a, b) => a.index - b.index);
+}
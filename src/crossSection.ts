@@ -0,0 +1,218 @@
+import type { MeshRasterizer, NodeChannel } from './rasterize';
+import type { PointLocation } from './spatialGrid';
+
+/** =========================
+ *  Cross section (횡단면)
+ *  - 폴리라인을 일정 간격으로 나눠 구간 중심점에서 메시 노드 값을 보간
+ *  - 유량 Q = ∑ 수심 × 법선 유속 × 구간 폭 (구간 중심점 값 사용)
+ *  - 샘플 위치는 한 번만 찾고 스텝마다 보간만 다시 함 (유량 시계열용)
+ *  - DOM/Cesium 없이 동작
+ *  ========================= */
+
+const METERS_PER_DEGREE = 111320;
+/** spacing을 생략하면 선 전체를 이 개수의 구간으로 나눔 */
+const DEFAULT_SAMPLE_COUNT = 200;
+
+export interface CrossSectionOptions {
+  /** 샘플 간격 (m, 생략 시 선 길이 / 200) */
+  spacing?: number;
+}
+
+/** 횡단면 분포로 그릴 수 있는 값 */
+export type CrossSectionVariable =
+  | 'waterDepth'
+  | 'bedElevation'
+  | 'waterElevation'
+  | 'normalVelocity'
+  | 'tangentialVelocity'
+  | 'u'
+  | 'v';
+
+export const CROSS_SECTION_VARIABLES: readonly CrossSectionVariable[] = [
+  'waterDepth', 'bedElevation', 'waterElevation', 'normalVelocity', 'tangentialVelocity', 'u', 'v'
+];
+
+export interface CrossSectionSample {
+  /** 선 시작점부터 구간 중심까지 거리 (m) */
+  distance: number;
+  lon: number;
+  lat: number;
+  /** 구간 폭 (m) */
+  width: number;
+  /** 메시 안인지 (밖이면 값이 모두 NaN) */
+  inside: boolean;
+  bedElevation: number;
+  waterElevation: number;
+  waterDepth: number;
+  u: number;
+  v: number;
+  /** 선에 수직인 유속 (m/s, 선을 그린 방향의 오른쪽으로 흐르면 +) */
+  normalVelocity: number;
+  /** 선 방향 유속 (m/s) */
+  tangentialVelocity: number;
+}
+
+export interface CrossSectionProfile {
+  /** 선 전체 길이 (m) */
+  length: number;
+  samples: CrossSectionSample[];
+  /** 유량 (m³/s, 선을 그린 방향의 오른쪽으로 흐르면 +) */
+  discharge: number;
+  /** 통수 단면적 (m², ∑ 수심 × 폭) */
+  area: number;
+  /** 수면 폭 (m, 수심 > 0인 구간 폭의 합) */
+  wetWidth: number;
+}
+
+export interface DischargeTimeSeries {
+  /** 스텝 번호 (discharge의 인덱스 순서) */
+  steps: number[];
+  /** 스텝별 유량 (m³/s, 읽지 못한 스텝은 NaN) */
+  discharge: Float32Array;
+}
+
+interface SamplePoint {
+  distance: number;
+  lon: number;
+  lat: number;
+  width: number;
+  /** 오른쪽 법선 (동, 북 성분) */
+  normal: [number, number];
+  location: PointLocation | null;
+}
+
+export class CrossSection {
+  public readonly line: [number, number][];
+  public readonly length: number;
+  private readonly rasterizer: MeshRasterizer;
+  private readonly points: SamplePoint[] = [];
+  private readonly bedElevation: number[];
+
+  /**
+   * @param line - [lon, lat] 꼭짓점 (2개 이상)
+   * @throws 꼭짓점이 2개 미만이거나 길이가 0이면 에러
+   */
+  constructor(rasterizer: MeshRasterizer, line: [number, number][], options: CrossSectionOptions = {}) {
+    if (line.length < 2) throw new Error(`A cross section needs at least 2 points, got ${line.length}`);
+    if (options.spacing !== undefined && !(options.spacing > 0)) {
+      throw new Error(`Cross section spacing must be a positive number of meters: ${options.spacing}`);
+    }
+    this.rasterizer = rasterizer;
+    this.line = line.map(([lon, lat]) => [lon, lat]);
+
+    // 구간별 길이는 구간 중심 위도 기준의 근사 미터
+    const segments = this.line.slice(1).map(([lon, lat], i) => {
+      const [lon0, lat0] = this.line[i];
+      const cosLat = Math.cos(((lat0 + lat) / 2) * Math.PI / 180);
+      const dx = (lon - lon0) * cosLat * METERS_PER_DEGREE;
+      const dy = (lat - lat0) * METERS_PER_DEGREE;
+      return { lon0, lat0, lon, lat, dx, dy, length: Math.hypot(dx, dy) };
+    });
+    this.length = segments.reduce((sum, segment) => sum + segment.length, 0);
+    if (!(this.length > 0)) throw new Error('A cross section must have a non-zero length');
+
+    const spacing = options.spacing ?? this.length / DEFAULT_SAMPLE_COUNT;
+    let start = 0;
+    for (const segment of segments) {
+      if (segment.length === 0) continue;
+      const count = Math.max(1, Math.ceil(segment.length / spacing));
+      const width = segment.length / count;
+      const normal: [number, number] = [segment.dy / segment.length, -segment.dx / segment.length];
+      for (let k = 0; k < count; k++) {
+        const t = (k + 0.5) / count;
+        const lon = segment.lon0 + (segment.lon - segment.lon0) * t;
+        const lat = segment.lat0 + (segment.lat - segment.lat0) * t;
+        this.points.push({
+          distance: start + (k + 0.5) * width,
+          lon,
+          lat,
+          width,
+          normal,
+          location: rasterizer.grid.locate(lon, lat)
+        });
+      }
+      start += segment.length;
+    }
+
+    const nodeZ = Float32Array.from(rasterizer.polygon.vertices, v => v.z);
+    this.bedElevation = this.points.map(point => point.location ? rasterizer.interpolate(point.location, [nodeZ])[0] : NaN);
+  }
+
+  /**
+   * 한 시점의 단면
+   * @param channels - 노드 채널 [u, v, waterDepth, waterElevation] (polygon.vertices 순서)
+   */
+  public profile(channels: NodeChannel[]): CrossSectionProfile {
+    let discharge = 0, area = 0, wetWidth = 0;
+    const samples = this.points.map((point, i): CrossSectionSample => {
+      const [u, v, waterDepth, waterElevation] = point.location
+        ? this.rasterizer.interpolate(point.location, channels.slice(0, 4))
+        : [NaN, NaN, NaN, NaN];
+      const [nx, ny] = point.normal;
+      const normalVelocity = u * nx + v * ny;
+      // 값이 없는 구간(메시 밖, 노드 값 없음)과 마른 구간은 유량에서 제외
+      if (waterDepth > 0) {
+        area += waterDepth * point.width;
+        wetWidth += point.width;
+        if (!Number.isNaN(normalVelocity)) discharge += waterDepth * normalVelocity * point.width;
+      }
+      return {
+        distance: point.distance,
+        lon: point.lon,
+        lat: point.lat,
+        width: point.width,
+        inside: point.location !== null,
+        bedElevation: this.bedElevation[i],
+        waterElevation,
+        waterDepth,
+        u,
+        v,
+        normalVelocity,
+        tangentialVelocity: u * -ny + v * nx
+      };
+    });
+    return { length: this.length, samples, discharge, area, wetWidth };
+  }
+
+  /**
+   * 유량만 계산 (유량 시계열용, 샘플 배열을 만들지 않음)
+   */
+  public discharge(channels: NodeChannel[]): number {
+    let discharge = 0;
+    for (const point of this.points) {
+      if (!point.location) continue;
+      const [u, v, waterDepth] = this.rasterizer.interpolate(point.location, channels.slice(0, 3));
+      const normalVelocity = u * point.normal[0] + v * point.normal[1];
+      if (waterDepth > 0 && !Number.isNaN(normalVelocity)) discharge += waterDepth * normalVelocity * point.width;
+    }
+    return discharge;
+  }
+}
+
+const CSV_COLUMNS: [string, keyof CrossSectionSample][] = [
+  ['distance_m', 'distance'],
+  ['lon', 'lon'],
+  ['lat', 'lat'],
+  ['width_m', 'width'],
+  ['bed_elevation', 'bedElevation'],
+  ['water_elevation', 'waterElevation'],
+  ['water_depth', 'waterDepth'],
+  ['u', 'u'],
+  ['v', 'v'],
+  ['normal_velocity', 'normalVelocity'],
+  ['tangential_velocity', 'tangentialVelocity']
+];
+
+/**
+ * 단면을 CSV로 변환 (한 행 = 한 샘플, 값이 없으면 빈 칸)
+ * - unit_discharge = 수심 × 법선 유속 (m²/s). ∑ unit_discharge × width_m = discharge
+ */
+export function crossSectionToCsv(profile: CrossSectionProfile): string {
+  const format = (value: number | boolean) => typeof value === 'number' && Number.isNaN(value) ? '' : String(value);
+  const header = [...CSV_COLUMNS.map(([name]) => name), 'unit_discharge'].join(',');
+  const rows = profile.samples.map(sample => [
+    ...CSV_COLUMNS.map(([, key]) => format(sample[key])),
+    format(sample.waterDepth > 0 ? sample.waterDepth * sample.normalVelocity : NaN)
+  ].join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
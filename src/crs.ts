@@ -0,0 +1,97 @@
+import proj4 from "proj4";
+
+/** =========================
+ *  Coordinate reference systems
+ *  ========================= */
+
+/**
+ * Source CRS of a dataset.
+ * - `"EPSG:5186"`: a code already known to proj4 (EPSG:4326/3857 or one registered earlier)
+ * - `"+proj=utm +zone=52 ..."`: a raw proj4 string
+ * - `{ code, proj4 }`: an EPSG code together with its proj4 definition (registered on first use)
+ */
+export type CrsDefinition = string | { code: string; proj4: string };
+
+/** Projected x/y (in the source CRS) -> [lon, lat] in WGS84 degrees */
+export type CoordinateTransform = (x: number, y: number) => [number, number];
+
+export const DEFAULT_CRS = "EPSG:5186";
+
+proj4.defs(
+  "EPSG:5186",
+  "+proj=tmerc +lat_0=38 +lon_0=127 +k=1 "
+  +"+x_0=200000 +y_0=600000 "
+  +"+ellps=GRS80 +towgs84=0,0,0,0,0,0,0 "
+  +"+units=m +no_defs +type=crs"
+);
+
+// proj4 throws plain strings/objects for parse failures
+function describeError(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  return e === undefined ? "unknown error" : String(e);
+}
+
+function isRawProj4String(def: string): boolean {
+  const trimmed = def.trim();
+  return trimmed.startsWith("+") || /^(PROJCS|GEOGCS|PROJCRS|GEOGCRS)\[/i.test(trimmed);
+}
+
+/**
+ * CRS를 proj4에 등록(필요 시)하고, proj4가 이해하는 이름/정의 문자열과 표시용 라벨을 반환
+ */
+function resolveCrs(crs: CrsDefinition): { source: string; label: string } {
+  if (typeof crs === "object") {
+    if (!crs || !crs.code?.trim()) throw new Error("CRS definition is missing its EPSG code");
+    if (!crs.proj4?.trim()) throw new Error(`CRS ${crs.code} is missing its proj4 definition`);
+    try {
+      proj4.defs(crs.code, crs.proj4);
+    } catch (e) {
+      throw new Error(`Invalid proj4 definition for ${crs.code}: ${describeError(e)}`);
+    }
+    if (!proj4.defs(crs.code)) throw new Error(`Invalid proj4 definition for ${crs.code}`);
+    return { source: crs.code, label: crs.code };
+  }
+
+  const def = crs.trim();
+  if (!def) throw new Error("CRS definition is empty");
+  if (isRawProj4String(def)) return { source: def, label: def };
+
+  if (!proj4.defs(def)) {
+    throw new Error(
+      `Unknown CRS "${def}". Pass { code: "${def}", proj4: "<definition>" } or a raw proj4 string instead.`
+    );
+  }
+  return { source: def, label: def };
+}
+
+/**
+ * Creates a transform from the given source CRS to WGS84 lon/lat.
+ * - Throws for unknown codes or unparsable definitions
+ * - The returned transform throws instead of producing NaN / out-of-range coordinates
+ */
+export function createCoordinateTransform(crs: CrsDefinition = DEFAULT_CRS): CoordinateTransform {
+  const { source, label } = resolveCrs(crs);
+
+  let converter: proj4.Converter;
+  try {
+    converter = proj4(source, "EPSG:4326");
+  } catch (e) {
+    throw new Error(`Invalid CRS definition "${label}": ${describeError(e)}`);
+  }
+
+  return (x: number, y: number): [number, number] => {
+    let lon: number, lat: number;
+    try {
+      [lon, lat] = converter.forward([x, y]);
+    } catch (e) {
+      throw new Error(`Failed to reproject (${x}, ${y}) from ${label}: ${describeError(e)}`);
+    }
+    if (!Number.isFinite(lon) || !Number.isFinite(lat) || Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+      throw new Error(
+        `Reprojecting (${x}, ${y}) from ${label} gave an invalid lon/lat (${lon}, ${lat}). ` +
+        `Check that the dataset CRS is correct.`
+      );
+    }
+    return [lon, lat];
+  };
+}
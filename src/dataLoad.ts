@@ -1,15 +1,45 @@
-import proj4 from "proj4";
-import { type FlowData, type SeedPoint } from "./flow";
-
-import { getQuantile } from './flow/utils';
-
-proj4.defs(
-  "EPSG:5186",
-  "+proj=tmerc +lat_0=38 +lon_0=127 +k=1 "
-  +"+x_0=200000 +y_0=600000 "
-  +"+ellps=GRS80 +towgs84=0,0,0,0,0,0,0 "
-  +"+units=m +no_defs +type=crs"
-);
+import { type FlowData, type FlowMeshGeometry, type SeedPoint } from "./flow";
+import { createRandom } from "./flow/utils";
+import { createCoordinateTransform, DEFAULT_CRS, type CoordinateTransform, type CrsDefinition } from './crs';
+import { detectMeshFormat, parseMeshText, type MeshFormat } from './meshFormats';
+import {
+  parseTimeSeriesCsv,
+  summarizeValidationReport,
+  type ParsedTimeSeriesCsv,
+  type TimeSeriesCsvOptions,
+  type TimeSeriesValidationReport
+} from './timeSeriesCsv';
+import { BinaryTimeSeriesReader } from './binaryTimeSeries';
+import { RasterRunReader } from './rasterRun';
+import { generateSeeds, type SeedOptions, type SeedStrategy } from './seeding';
+import {
+  MeshRasterizer,
+  flowNodeChannels,
+  rasterDimensions,
+  rasterizeFlowField,
+  wetMaskFromDepth,
+  type NodeChannel,
+  type RasterizedFlowField
+} from './rasterize';
+import { RasterWorkerPool } from './rasterWorkerPool';
+import { computeFlowDifference } from './flowDifference';
+import { buildFlowMeshGeometry, createFlowMeshData } from './meshSampling';
+import { FlowProbe, flowDirection, probeRaster, type FlowProbeResult } from './flowProbe';
+import {
+  CrossSection,
+  type CrossSectionOptions,
+  type CrossSectionProfile,
+  type DischargeTimeSeries
+} from './crossSection';
+import {
+  NodeChannelCache,
+  type PointTimeSeries,
+  type PointTimeSeriesOptions,
+  type PointTimeSeriesVariable,
+  type TimeSeriesRange,
+  type TimeSeriesSource
+} from './pointTimeSeries';
+import { FlowPathTracer, type FlowPath, type PathlineOptions, type StreamlineOptions } from './flowPaths';
 
 /** =========================
  *  Types
@@ -23,12 +53,17 @@ export interface ProjectedBounds {
 }
 
 export interface Vertex { id: VertexId; lon: number; lat: number; z: number; }
-export interface Triangle { id: number; vertexIds: [VertexId, VertexId, VertexId]; }
+/** 원본 메시 요소(삼각형/사각형) */
+export interface MeshElement { id: number; vertexIds: VertexId[]; }
+/** 렌더링/보간용 삼각형. elementId는 분할 전 원본 요소 ID */
+export interface Triangle { id: number; elementId: number; vertexIds: [VertexId, VertexId, VertexId]; }
 
 export interface PolygonData {
   vertexCount: number;
+  elementCount: number;
   triangleCount: number;
   vertices: Vertex[];
+  elements: MeshElement[];
   triangles: Triangle[];
   bounds: ProjectedBounds;
 }
@@ -42,6 +77,8 @@ export interface TimeSeriesRecord {
   velocityMagnitude: number;
   waterElevation: number;
   inflowRate: number;
+  /** TimeSeriesCsvOptions.extraColumns로 읽은 추가 숫자 컬럼 */
+  extra?: Record<string, number>;
 }
 export type TimeSeriesData = TimeSeriesRecord[];
 
@@ -51,6 +88,12 @@ export interface ArrayWithMinMax {
   max?: number;
 }
 
+export interface MaskData {
+  array: Float32Array;
+  min: number;
+  max: number;
+}
+
 export interface Quantiles {
   q25: number;
   q50: number;
@@ -58,192 +101,112 @@ export interface Quantiles {
   q90: number;
 }
 
-/** =========================
- *  Spatial acceleration grid
- *  ========================= */
-class SpatialGrid {
-  private grid: number[][][];
-  private bounds: ProjectedBounds;
-  private gridResolution: number;
-  private cellWidth: number;
-  private cellHeight: number;
-  private triangles: Triangle[];
-  private vertexMap: Map<number, Vertex>;
-
-  constructor(polygon: PolygonData, gridResolution: number = 64) {
-    this.bounds = polygon.bounds;
-    this.triangles = polygon.triangles;
-    this.vertexMap = new Map(polygon.vertices.map(v => [v.id, v]));
-    this.gridResolution = gridResolution;
-
-    this.cellWidth = (this.bounds.maxLon - this.bounds.minLon) / gridResolution;
-    this.cellHeight = (this.bounds.maxLat - this.bounds.minLat) / gridResolution;
-
-    this.grid = Array.from({ length: gridResolution }, () =>
-      Array.from({ length: gridResolution }, () => [])
-    );
-
-    this.buildIndex();
-  }
-
-  private buildIndex() {
-    for (let i = 0; i < this.triangles.length; i++) {
-      const tri = this.triangles[i];
-      const v1 = this.vertexMap.get(tri.vertexIds[0])!;
-      const v2 = this.vertexMap.get(tri.vertexIds[1])!;
-      const v3 = this.vertexMap.get(tri.vertexIds[2])!;
-
-      const triBounds = {
-        minLon: Math.min(v1.lon, v2.lon, v3.lon),
-        maxLon: Math.max(v1.lon, v2.lon, v3.lon),
-        minLat: Math.min(v1.lat, v2.lat, v3.lat),
-        maxLat: Math.max(v1.lat, v2.lat, v3.lat),
-      };
-
-      const startCol = Math.floor((triBounds.minLon - this.bounds.minLon) / this.cellWidth);
-      const endCol = Math.floor((triBounds.maxLon - this.bounds.minLon) / this.cellWidth);
-      const startRow = Math.floor((triBounds.minLat - this.bounds.minLat) / this.cellHeight);
-      const endRow = Math.floor((triBounds.maxLat - this.bounds.minLat) / this.cellHeight);
-
-      for (let row = Math.max(0, startRow); row <= Math.min(this.gridResolution - 1, endRow); row++) {
-        for (let col = Math.max(0, startCol); col <= Math.min(this.gridResolution - 1, endCol); col++) {
-          this.grid[row][col].push(i);
-        }
-      }
-    }
-  }
-
-  public getCandidateTriangles(lon: number, lat: number): number[] {
-    if (lon < this.bounds.minLon || lon > this.bounds.maxLon || lat < this.bounds.minLat || lat > this.bounds.maxLat) {
-      return [];
-    }
-
-    const col = Math.floor((lon - this.bounds.minLon) / this.cellWidth);
-    const row = Math.floor((lat - this.bounds.minLat) / this.cellHeight);
-
-    const safeCol = Math.max(0, Math.min(this.gridResolution - 1, col));
-    const safeRow = Math.max(0, Math.min(this.gridResolution - 1, row));
-
-    return this.grid[safeRow][safeCol];
-  }
-}
+/** 지점 시계열 추출 시 동시에 읽는 스텝 수 */
+const TIME_SERIES_CONCURRENCY = 4;
+/** 지점 시계열용 스텝별 노드 값 캐시 예산 */
+const TIME_SERIES_CACHE_BYTES = 64 * 1024 * 1024;
 
 /** =========================
  *  Helpers
  *  ========================= */
-function calculateSpatialBounds(vertices: Vertex[]): ProjectedBounds {
-  return vertices.reduce((acc, v) => ({
-    minLon: Math.min(acc.minLon, v.lon),
-    maxLon: Math.max(acc.maxLon, v.lon),
-    minLat: Math.min(acc.minLat, v.lat),
-    maxLat: Math.max(acc.maxLat, v.lat),
-    minZ: Math.min(acc.minZ, v.z),
-    maxZ: Math.max(acc.maxZ, v.z)
-  }), {
-    minLon: Infinity, maxLon: -Infinity,
-    minLat: Infinity, maxLat: -Infinity,
-    minZ: Infinity, maxZ: -Infinity
-  });
-}
-
-function parsePolygonText(text: string): PolygonData {
-  const lines = text.trim().split(/\r?\n/);
-  const header = lines[0].trim().split(/\s+/);
-  if (header.length < 3) throw new Error("Malformed polygon header");
-
-  const vertexCount = Number(header[1]);
-  const triangleCount = Number(header[2]);
-  const vertices: Vertex[] = [];
-  const triangles: Triangle[] = [];
-
-  for (const line of lines.slice(1)) {
-    const parts = line.trim().split(/\s+/);
-    if (parts.length < 2) continue;
-    const [type, ...rest] = parts;
-
-    if (type === "GN" && rest.length >= 4) {
-      const [idStr, xStr, yStr, zStr] = rest;
-      const [lon, lat] = proj4('EPSG:5186', 'EPSG:4326', [Number(xStr), Number(yStr)]);
-      vertices.push({
-        id: Number(idStr),
-        lon: lon,
-        lat: lat,
-        z: Number(zStr)
-      });
-    } else if (type === "GE" && rest.length >= 4) {
-      const [idStr, v1Str, v2Str, v3Str] = rest;
-      triangles.push({
-        id: Number(idStr),
-        vertexIds: [Number(v1Str) as VertexId, Number(v2Str) as VertexId, Number(v3Str) as VertexId]
-      });
-    }
-  }
-
-  const bounds = calculateSpatialBounds(vertices);
-  return { vertexCount, triangleCount, vertices, triangles, bounds };
-}
-
-function parseTimeSeriesCsv(text: string): TimeSeriesData {
-  return text
-    .trim()
-    .split("\n")
-    .slice(1)
-    .map(line => {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) return null;
-      const [
-        nodeId,
-        timestamp,
-        velocityX,
-        velocityY,
-        waterDepth,
-        velocityMagnitude,
-        waterElevation,
-        inflowRate
-      ] = trimmedLine.split(",").map(Number);
-      return {
-        nodeId: nodeId as VertexId,
-        timestamp,
-        velocityX,
-        velocityY,
-        waterDepth,
-        velocityMagnitude,
-        waterElevation,
-        inflowRate
-      };
-    })
-    .filter((item): item is TimeSeriesRecord => item !== null);
-}
-
-async function deserializePolygonFromUrl(url: string): Promise<PolygonData> {
+async function deserializePolygonFromUrl(
+  url: string,
+  toLonLat: CoordinateTransform,
+  format?: MeshFormat
+): Promise<PolygonData> {
   const res = await fetch(url);
   if (!res.ok) throw new Error(`Failed to fetch polygon data: ${res.statusText}`);
   const text = await res.text();
-  return parsePolygonText(text);
+  return parseMeshText(text, format ?? detectMeshFormat(url, text), toLonLat);
 }
 
-async function deserializeTimeSeriesFromUrl(url: string): Promise<TimeSeriesData> {
-  const res = await fetch(url);
+async function deserializeTimeSeriesFromUrl(
+  url: string,
+  options?: TimeSeriesCsvOptions,
+  signal?: AbortSignal
+): Promise<ParsedTimeSeriesCsv> {
+  const res = await fetch(url, { signal });
   if (!res.ok) throw new Error(`Failed to fetch time series data: ${res.statusText}`);
   const text = await res.text();
-  return parseTimeSeriesCsv(text);
+  // 파싱은 동기라 중간에 멈출 수 없으므로 시작 전에 확인
+  signal?.throwIfAborted();
+  return parseTimeSeriesCsv(text, options);
+}
+
+/**
+ * AbortSignal로 취소된 로드인지 (취소는 실패가 아니므로 호출 측에서 조용히 무시)
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * RGBA 픽셀을 마스크 배열로 변환 (luminance, alpha 0이면 0)
+ */
+function imageDataToMask(data: Uint8ClampedArray, width: number, height: number): MaskData {
+  const maskArray = new Float32Array(width * height);
+  let min = Number.MAX_VALUE;
+  let max = Number.MIN_VALUE;
+
+  for (let i = 0; i < maskArray.length; i++) {
+    const pixelIndex = i * 4; // RGBA
+    const r = data[pixelIndex];
+    const g = data[pixelIndex + 1];
+    const b = data[pixelIndex + 2];
+    const alpha = data[pixelIndex + 3];
+
+    const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+    const maskValue = alpha === 0 ? 0 : luminance;
+
+    maskArray[i] = maskValue;
+
+    if (maskValue >= 0) {
+      min = Math.min(min, maskValue);
+      max = Math.max(max, maskValue);
+    }
+  }
+
+  if (min === Number.MAX_VALUE) {
+    min = 0;
+    max = 1;
+  }
+
+  return { array: maskArray, min, max };
 }
 
 /**
  * Fetches an image and converts it to a mask array
- * - Requires DOM APIs (browser)
+ * - fetch + createImageBitmap + OffscreenCanvas로 디코드 (DOM 불필요: Web Worker, sandbox iframe에서도 동작)
+ * - 둘 중 하나라도 없는 환경이면 DOM Image/canvas로 폴백
+ * @throws 이미지 디코드 API가 하나도 없는 환경(Node 등)이면 fetch 전에 에러
  */
-async function loadMaskDataFromUrl(
-  imageUrl: string,
-  width: number,
-  height: number
-): Promise<{ array: Float32Array; min: number; max: number }> {
-  return new Promise((resolve, reject) => {
+async function loadMaskDataFromUrl(imageUrl: string, width: number, height: number): Promise<MaskData> {
+  if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined') {
     if (typeof document === 'undefined' || typeof Image === 'undefined') {
-      reject(new Error('DOM APIs not available - may be running in sandboxed environment'));
-      return;
+      throw new Error('Mask images need createImageBitmap and OffscreenCanvas, or a DOM canvas. Neither is available here (e.g. Node)');
     }
+    return loadMaskDataWithDom(imageUrl, width, height);
+  }
 
+  const res = await fetch(imageUrl);
+  if (!res.ok) throw new Error(`Failed to fetch mask image: ${res.statusText}`);
+  const bitmap = await createImageBitmap(await res.blob());
+  try {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get OffscreenCanvas 2D context');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return imageDataToMask(ctx.getImageData(0, 0, width, height).data, width, height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * DOM Image/canvas로 마스크 이미지 디코드 (OffscreenCanvas가 없는 구형 브라우저용)
+ */
+async function loadMaskDataWithDom(imageUrl: string, width: number, height: number): Promise<MaskData> {
+  return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
 
@@ -261,42 +224,7 @@ async function loadMaskDataFromUrl(
         canvas.height = height;
 
         ctx.drawImage(img, 0, 0, width, height);
-
-        const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-
-        const maskArray = new Float32Array(width * height);
-        let min = Number.MAX_VALUE;
-        let max = Number.MIN_VALUE;
-
-        for (let i = 0; i < maskArray.length; i++) {
-          const pixelIndex = i * 4; // RGBA
-          const r = data[pixelIndex];
-          const g = data[pixelIndex + 1];
-          const b = data[pixelIndex + 2];
-          const alpha = data[pixelIndex + 3];
-
-          const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-          const maskValue = alpha === 0 ? 0 : luminance;
-
-          maskArray[i] = maskValue;
-
-          if (maskValue >= 0) {
-            min = Math.min(min, maskValue);
-            max = Math.max(max, maskValue);
-          }
-        }
-
-        if (min === Number.MAX_VALUE) {
-          min = 0;
-          max = 1;
-        }
-
-        resolve({
-          array: maskArray,
-          min,
-          max
-        });
+        resolve(imageDataToMask(ctx.getImageData(0, 0, width, height).data, width, height));
       } catch (error) {
         reject(error);
       }
@@ -310,155 +238,664 @@ async function loadMaskDataFromUrl(
   });
 }
 
-function isPointInTriangle(pLon: number, pLat: number, v1: Vertex, v2: Vertex, v3: Vertex): boolean {
-  const d1 = (pLon - v2.lon) * (v1.lat - v2.lat) - (v1.lon - v2.lon) * (pLat - v2.lat);
-  const d2 = (pLon - v3.lon) * (v2.lat - v3.lat) - (v2.lon - v3.lon) * (pLat - v3.lat);
-  const d3 = (pLon - v1.lon) * (v3.lat - v1.lat) - (v3.lon - v1.lon) * (pLat - v1.lat);
-  const has_neg = d1 < 0 || d2 < 0 || d3 < 0;
-  const has_pos = d1 > 0 || d2 > 0 || d3 > 0;
-  return !(has_neg && has_pos);
+/**
+ * NaN을 제외한 min/max 계산 (값이 하나도 없으면 min/max 없음)
+ */
+function withMinMax(array: Float32Array): ArrayWithMinMax {
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < array.length; i++) {
+    const value = array[i];
+    if (Number.isNaN(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min === Infinity ? { array } : { array, min, max };
 }
 
-function generateRandomSeedsFromPolygon(polygonData: PolygonData, numSeeds: number): SeedPoint[] {
-  const { vertices, triangles, bounds } = polygonData;
-  const { maxLat, maxLon, minLon, minLat } = bounds;
-
-  const vertexMap = new Map(vertices.map(v => [v.id, v]));
-  const seeds: SeedPoint[] = [];
-
-  const lonRange = maxLon - minLon;
-  const latRange = maxLat - minLat;
-
-  for (let i = 0; i < numSeeds; i++) {
-    const triangleIndex = Math.floor(Math.random() * triangles.length);
-    const triangle = triangles[triangleIndex];
-
-    const v1 = vertexMap.get(triangle.vertexIds[0])!;
-    const v2 = vertexMap.get(triangle.vertexIds[1])!;
-    const v3 = vertexMap.get(triangle.vertexIds[2])!;
-
-    let r1 = Math.random();
-    let r2 = Math.random();
-
-    // This ensures the point is uniformly distributed within the triangle
-    if (r1 + r2 > 1) {
-      r1 = 1 - r1;
-      r2 = 1 - r2;
+/**
+ * 유적선 스텝별 경과 시간 (s, 첫 스텝 = 0)
+ * - 구간마다 두 스텝의 stepTime 차이, 시각을 모르면 stepDuration x 스텝 수
+ * @throws 어떤 구간의 길이도 알 수 없으면 에러
+ */
+function pathlineStepTimes(steps: number[], { stepTime, stepDuration }: PathlineOptions): number[] {
+  const times = [0];
+  for (let i = 1; i < steps.length; i++) {
+    const start = stepTime?.(steps[i - 1]), end = stepTime?.(steps[i]);
+    let duration = start !== undefined && end !== undefined ? end - start : NaN;
+    if (!(duration > 0) && stepDuration !== undefined) duration = (steps[i] - steps[i - 1]) * stepDuration;
+    if (!(duration > 0)) {
+      throw new Error(`Time between steps ${steps[i - 1]} and ${steps[i]} is unknown. Pass stepDuration (seconds between time steps)`);
     }
-
-    const r3 = 1 - r1 - r2;
-
-    const lon = r1 * v1.lon + r2 * v2.lon + r3 * v3.lon;
-    const lat = r1 * v1.lat + r2 * v2.lat + r3 * v3.lat;
-
-    // Normalize the coordinates to a 0-1 range based on the bounding box.
-    const normalizedLon = (lon - minLon) / lonRange;
-    const normalizedLat = (lat - minLat) / latRange;
-
-    seeds.push({ lon: normalizedLon, lat: normalizedLat });
+    times.push(times[i - 1] + duration);
   }
-
-  return seeds;
+  return times;
 }
 
 
 /** =========================
  *  FlowFieldDataManager (Class)
  *  - polygon, seeds, mask를 초기 1회 생성/재사용
+ *  - wetMask는 타임스텝마다 수심으로 생성
  *  ========================= */
+export interface FlowFieldDataManagerOptions {
+  polygonUrl: string;
+  /**
+   * 래스터 긴 변의 픽셀 수 (기본값 1024)
+   * - 짧은 변은 메시 bounds의 미터 단위 가로/세로 비율로 결정 (좁고 긴 하천에서 해상도를 낭비하지 않음)
+   */
+  textureSize?: number;
+  /** 목표 래스터 셀 크기 (m). 지정하면 textureSize 대신 bounds 크기 / cellSize로 가로/세로 결정 */
+  cellSize?: number;
+  /**
+   * 마스크 이미지 URL (선택). 지정하지 않으면 메시 삼각형 footprint로 마스크를 생성
+   * - 흰색 = 유효, 검은색/투명 = 무효. 이미지 행 0이 남쪽(minLat)
+   * - 로드에 실패하면 경고 후 메시 마스크 사용
+   * - 디코드에 브라우저 이미지 API(createImageBitmap + OffscreenCanvas 또는 DOM canvas)가 필요. Node에서는 쓸 수 없으므로 메시 마스크 사용
+   */
+  maskUrl?: string;
+  numSeeds?: number;
+  gridResolution?: number;
+  /** 원본 좌표계 (기본값 EPSG:5186). EPSG 코드, { code, proj4 } 또는 proj4 문자열 */
+  crs?: CrsDefinition;
+  /** 메시 포맷. 생략 시 polygonUrl 확장자(.rgo/.2dm)로 결정 */
+  meshFormat?: MeshFormat;
+  /** CSV 컬럼 매핑/추가 컬럼 설정. 메시 노드 ID 검증은 자동으로 수행 */
+  csvOptions?: Omit<TimeSeriesCsvOptions, 'knownNodeIds'>;
+  /** 래스터화를 Web Worker에서 수행 (기본값 true, 워커가 없는 환경에서는 자동으로 메인 스레드) */
+  useWorkers?: boolean;
+  /** 워커 수 (기본값: min(4, 코어 수 - 1)) */
+  workerCount?: number;
+  /**
+   * 젖은 셀로 보는 최소 수심 (m, 기본값 0.01). 타임스텝마다 수심이 이 값보다 작은 셀은 wetMask = 0
+   * - 수심 값이 없는(NaN) 셀은 젖은 것으로 간주
+   */
+  minWaterDepth?: number;
+  /**
+   * seeds 생성용 난수 seed (선택). 지정하면 초기 seeds와 regenerateSeeds 결과가 항상 같음
+   * - 파티클 drop/spawn까지 재현하려면 FlowLayerOptions.seed도 지정
+   */
+  seed?: number;
+}
+
+/** 전처리 래스터 run 전용 매니저 옵션 (메시를 읽지 않으므로 메시/CSV/래스터화 옵션 없음) */
+export type RasterRunDataManagerOptions = Pick<FlowFieldDataManagerOptions, 'maskUrl' | 'minWaterDepth'>;
+
 export class FlowFieldDataManager {
-  private readonly polygonUrl: string;
+  private readonly polygonUrl?: string;
   private readonly textureSize: number;
+  private readonly cellSize?: number;
   private readonly maskUrl?: string;
   private readonly numSeeds: number;
   private readonly gridResolution: number;
-
+  private readonly toLonLat: CoordinateTransform;
+  private readonly meshFormat?: MeshFormat;
+  private readonly csvOptions?: Omit<TimeSeriesCsvOptions, 'knownNodeIds'>;
+  private readonly useWorkers: boolean;
+  private readonly workerCount?: number;
+  private readonly minWaterDepth: number;
+  private readonly seed?: number;
+
+  /** false면 createForRasterRun으로 만든 매니저 (polygon, rasterizer 등 메시 데이터 없음) */
+  private meshLoaded = false;
   private polygon!: PolygonData;
-  private grid!: SpatialGrid;
-  private mask?: { array: Float32Array; min: number; max: number };
+  private rasterizer!: MeshRasterizer;
+  private probe?: FlowProbe;
+  /** FlowData.mesh가 공유하는 GPU용 메시 (sampling: 'mesh') */
+  private meshGeometry!: FlowMeshGeometry;
+  /** 래스터 가로/세로 픽셀 수 (initialize에서 bounds 비율로 결정) */
+  private rasterWidth!: number;
+  private rasterHeight!: number;
+  private workerPool?: RasterWorkerPool;
+  private mask!: MaskData;
   private seeds?: SeedPoint[];
-
-  private constructor(opts: {
-    polygonUrl: string;
-    textureSize?: number;
-    maskUrl?: string;
-    numSeeds?: number;
-    gridResolution?: number;
-  }) {
+  private nodeIds!: Set<VertexId>;
+  private lastValidationReport?: TimeSeriesValidationReport;
+  private binaryReaders = new Map<string, Promise<BinaryTimeSeriesReader>>();
+  private rasterRunReaders = new Map<string, Promise<RasterRunReader>>();
+  private nodeChannelCache = new NodeChannelCache(TIME_SERIES_CACHE_BYTES);
+  private flowPathTracer?: FlowPathTracer;
+
+  private constructor(opts: Partial<FlowFieldDataManagerOptions>) {
     this.polygonUrl = opts.polygonUrl;
     this.textureSize = opts.textureSize ?? 1024;
+    this.cellSize = opts.cellSize;
     this.maskUrl = opts.maskUrl;
     this.numSeeds = opts.numSeeds ?? 256 * 256; 
     this.gridResolution = opts.gridResolution ?? 64;
+    // 잘못된 CRS는 좌표가 NaN이 되기 전에 여기서 바로 에러로 보고
+    this.toLonLat = createCoordinateTransform(opts.crs ?? DEFAULT_CRS);
+    this.meshFormat = opts.meshFormat;
+    this.csvOptions = opts.csvOptions;
+    this.useWorkers = opts.useWorkers ?? true;
+    this.workerCount = opts.workerCount;
+    this.minWaterDepth = opts.minWaterDepth ?? 0.01;
+    this.seed = opts.seed;
   }
 
   /**
    * Static factory method
    * - polygon, grid, mask, seeds를 초기 1회 생성
    */
-  public static async create(opts: {
-    polygonUrl: string;
-    textureSize?: number;
-    maskUrl?: string;
-    numSeeds?: number;
-    gridResolution?: number;
-  }): Promise<FlowFieldDataManager> {
+  public static async create(opts: FlowFieldDataManagerOptions): Promise<FlowFieldDataManager> {
     const dataManager = new FlowFieldDataManager(opts);
     await dataManager.initialize();
     return dataManager;
   }
 
+  /**
+   * 전처리 래스터 run 전용 factory: 메시를 읽지 않고 run.json의 격자/bounds, mask, seeds로 초기화
+   * - 메시 보간이 필요한 기능(CSV/.mfts 생성, 시계열, 횡단면, 유선, seeds 재생성)은 에러. probe는 래스터 보간
+   * @param runUrl - run.json URL
+   */
+  public static async createForRasterRun(runUrl: string, opts: RasterRunDataManagerOptions = {}): Promise<FlowFieldDataManager> {
+    const dataManager = new FlowFieldDataManager(opts);
+    await dataManager.initializeFromRasterRun(runUrl);
+    return dataManager;
+  }
+
+  /**
+   * 메시를 읽었는지 (createForRasterRun으로 만든 매니저는 false)
+   */
+  public get hasMesh(): boolean {
+    return this.meshLoaded;
+  }
+
   /**
    * 내부 초기화: polygon/grid/mask/seeds를 생성하여 캐시.
    */
   private async initialize(): Promise<void> {
-    this.polygon = await deserializePolygonFromUrl(this.polygonUrl);
-    this.grid = new SpatialGrid(this.polygon, this.gridResolution);
+    this.polygon = await deserializePolygonFromUrl(this.polygonUrl!, this.toLonLat, this.meshFormat);
+    this.rasterizer = new MeshRasterizer(this.polygon, this.gridResolution);
+    ({ width: this.rasterWidth, height: this.rasterHeight } =
+      rasterDimensions(this.polygon.bounds, { size: this.textureSize, cellSize: this.cellSize }));
+    if (this.useWorkers && RasterWorkerPool.isSupported()) {
+      try {
+        this.workerPool = new RasterWorkerPool(this.polygon, this.gridResolution, this.workerCount);
+      } catch (e) {
+        console.warn("Failed to start raster workers. Rasterizing on the main thread:", e);
+      }
+    }
+    this.nodeIds = new Set(this.polygon.vertices.map(v => v.id));
+    this.meshGeometry = buildFlowMeshGeometry(this.polygon);
 
-    this.seeds = generateRandomSeedsFromPolygon(this.polygon, this.numSeeds);
+    this.seeds = generateSeeds(this.polygon, this.numSeeds, 'area', { random: this.seedRandom() });
+    this.mask = await this.loadMask();
+    this.meshLoaded = true;
+  }
+
+  /**
+   * 래스터 run 초기화: 격자 크기, mask, seeds를 run에서 가져옴 (maskUrl 이미지가 있으면 mask는 이미지 우선)
+   */
+  private async initializeFromRasterRun(runUrl: string): Promise<void> {
+    const reader = await this.getRasterRunReader(runUrl);
+    ({ width: this.rasterWidth, height: this.rasterHeight } = reader.metadata);
+    this.seeds = reader.seeds;
+    this.mask = reader.mask;
     if (this.maskUrl) {
       try {
-        this.mask = await loadMaskDataFromUrl(this.maskUrl, this.textureSize, this.textureSize);
+        this.mask = await loadMaskDataFromUrl(this.maskUrl, this.rasterWidth, this.rasterHeight);
       } catch (e) {
-        console.warn("Failed to load mask. Proceeding without mask. Error:", e);
+        console.warn("Failed to load mask image. Using the raster run mask instead. Error:", e);
       }
     }
   }
 
+  /**
+   * @param feature - 에러 메시지에 쓰는 기능 이름
+   * @throws 메시 없이(createForRasterRun) 만든 매니저면 에러
+   */
+  private requireMesh(feature: string) {
+    if (!this.meshLoaded) {
+      throw new Error(`${feature} need the mesh. This data manager was created for a preprocessed raster run without one`);
+    }
+  }
+
+  /**
+   * 마스크 생성: maskUrl 이미지가 있으면 우선, 없거나 실패하면 메시 footprint
+   */
+  private async loadMask(): Promise<MaskData> {
+    if (this.maskUrl) {
+      try {
+        return await loadMaskDataFromUrl(this.maskUrl, this.rasterWidth, this.rasterHeight);
+      } catch (e) {
+        console.warn("Failed to load mask image. Using mesh footprint mask instead. Error:", e);
+      }
+    }
+    return { array: this.rasterizer.coverage(this.rasterWidth, this.rasterHeight), min: 0, max: 1 };
+  }
+
+  /**
+   * 생성하는 FlowData의 래스터 크기 (textureSize/cellSize와 메시 bounds 비율로 결정)
+   */
+  public getRasterSize(): { width: number; height: number } {
+    return { width: this.rasterWidth, height: this.rasterHeight };
+  }
+
   /**
    * 단일 CSV URL로부터 FlowData 생성 (polygon, mask, seeds는 재사용)
+   * - 아래 load/generate 메서드는 모두 signal을 받음: abort되면 fetch/워커 작업을 취소하고 AbortError로 reject
    */
-  public async generateFromCsv(csvUrl: string): Promise<FlowData> {
-    const timeSeries = await deserializeTimeSeriesFromUrl(csvUrl);
-    return this.generateFromTimeSeries(timeSeries);
+  public async generateFromCsv(csvUrl: string, signal?: AbortSignal): Promise<FlowData> {
+    const { data } = await this.loadTimeSeriesFromCsv(csvUrl, signal);
+    return this.generateFromTimeSeriesAsync(data, signal);
   }
 
   /**
-   * 여러 CSV URL에 대해 배치 생성 (polygon, mask, seeds는 재사용)
+   * CSV를 파싱하고 검증 리포트와 함께 반환 (문제가 있으면 console.warn으로 요약 출력)
    */
-  public async generateBatchFromCsv(csvUrls: string[]): Promise<FlowData[]> {
-    const results: FlowData[] = [];
-    for (let i = 0; i < csvUrls.length; i++) {
-      const flow = await this.generateFromCsv(csvUrls[i]);
-      results.push(flow);
+  public async loadTimeSeriesFromCsv(csvUrl: string, signal?: AbortSignal): Promise<ParsedTimeSeriesCsv> {
+    const parsed = await deserializeTimeSeriesFromUrl(csvUrl, {
+      ...this.csvOptions,
+      knownNodeIds: this.nodeIds
+    }, signal);
+    this.lastValidationReport = parsed.report;
+    const summary = summarizeValidationReport(parsed.report);
+    if (summary) console.warn(`Time series validation (${csvUrl}): ${summary}`);
+    return parsed;
+  }
+
+  /**
+   * .mfts 바이너리에서 한 스텝을 byte range로 읽어 FlowData 생성
+   * @param stepIndex - 스텝 번호 (변환 전 CSV 파일 이름의 숫자)
+   */
+  public async generateFromBinary(binaryUrl: string, stepIndex: number, signal?: AbortSignal): Promise<FlowData> {
+    const timeSeries = await this.loadTimeSeriesFromBinary(binaryUrl, stepIndex, signal);
+    return this.generateFromTimeSeriesAsync(timeSeries, signal);
+  }
+
+  /**
+   * .mfts 바이너리에서 한 스텝의 TimeSeriesData 읽기 (헤더는 URL별로 1회만 읽음)
+   */
+  public async loadTimeSeriesFromBinary(binaryUrl: string, stepIndex: number, signal?: AbortSignal): Promise<TimeSeriesData> {
+    // 리더(헤더)는 다른 요청과 공유되므로 취소하지 않음
+    const reader = await this.getBinaryReader(binaryUrl);
+    signal?.throwIfAborted();
+    return reader.readStep(stepIndex, signal);
+  }
+
+  /**
+   * URL별 바이너리 리더 (헤더/노드 ID 캐시)
+   */
+  public getBinaryReader(binaryUrl: string): Promise<BinaryTimeSeriesReader> {
+    let reader = this.binaryReaders.get(binaryUrl);
+    if (!reader) {
+      reader = BinaryTimeSeriesReader.open(binaryUrl);
+      // 실패한 open은 캐시하지 않음
+      reader.catch(() => this.binaryReaders.delete(binaryUrl));
+      this.binaryReaders.set(binaryUrl, reader);
     }
+    return reader;
+  }
+
+  /**
+   * CLI(preprocessRun)로 전처리한 래스터 run에서 한 스텝을 읽어 FlowData 생성 (CSV 파싱/래스터화 없음)
+   * - 격자가 이 매니저의 래스터 크기(getRasterSize)와 같으면 이 매니저의 mask(마스크 이미지)와 seeds를 사용
+   * @param runUrl - run.json URL
+   * @param stepIndex - 스텝 번호 (전처리 전 CSV 파일 이름의 숫자)
+   */
+  public async generateFromRasterRun(runUrl: string, stepIndex: number, signal?: AbortSignal): Promise<FlowData> {
+    // 리더(run.json, mask, seeds)는 다른 요청과 공유되므로 취소하지 않음
+    const reader = await this.getRasterRunReader(runUrl);
+    signal?.throwIfAborted();
+    const data = await reader.readStep(stepIndex, signal);
+    if (data.width !== this.rasterWidth || data.height !== this.rasterHeight) return data;
+    return { ...data, mask: { array: this.mask.array, min: this.mask.min, max: this.mask.max }, seeds: this.seeds };
+  }
+
+  /**
+   * URL별 래스터 run 리더 (run.json, mask, seeds 캐시)
+   */
+  public getRasterRunReader(runUrl: string): Promise<RasterRunReader> {
+    let reader = this.rasterRunReaders.get(runUrl);
+    if (!reader) {
+      reader = RasterRunReader.open(runUrl, { minWaterDepth: this.minWaterDepth });
+      // 실패한 open은 캐시하지 않음
+      reader.catch(() => this.rasterRunReaders.delete(runUrl));
+      this.rasterRunReaders.set(runUrl, reader);
+    }
+    return reader;
+  }
+
+  /**
+   * 마지막으로 로드한 CSV의 검증 리포트
+   */
+  public getLastValidationReport(): TimeSeriesValidationReport | undefined {
+    return this.lastValidationReport;
+  }
+
+  /**
+   * 여러 CSV URL에 대해 배치 생성 (polygon, mask, seeds는 재사용)
+   * - 워커 풀이 있으면 스텝들이 워커에 나뉘어 병렬로 래스터화됨
+   * - 동시에 처리하는 스텝은 워커 수만큼 (긴 run의 CSV/래스터를 한꺼번에 메모리에 올리지 않음)
+   */
+  public async generateBatchFromCsv(csvUrls: string[], signal?: AbortSignal): Promise<FlowData[]> {
+    const results: FlowData[] = new Array(csvUrls.length);
+    let next = 0;
+    const generateSteps = async () => {
+      while (next < csvUrls.length) {
+        const i = next++;
+        results[i] = await this.generateFromCsv(csvUrls[i], signal);
+      }
+    };
+    const concurrency = Math.min(Math.max(this.workerPool?.size ?? 1, 1), csvUrls.length);
+    await Promise.all(Array.from({ length: concurrency }, generateSteps));
     return results;
   }
 
   /**
-   * 이미 파싱된 TimeSeriesData로부터 FlowData 생성
+   * 이미 파싱된 TimeSeriesData로부터 FlowData 생성 (동기, 메인 스레드)
    */
   public generateFromTimeSeries(timeSeriesData: TimeSeriesData): FlowData {
-    return this.generateFlow(timeSeriesData, this.textureSize);
+    return this.generateFlow(timeSeriesData);
+  }
+
+  /**
+   * 이미 파싱된 TimeSeriesData로부터 FlowData 생성 (워커 풀 사용, 메인 스레드를 막지 않음)
+   * - 워커를 쓸 수 없는 환경이면 generateFromTimeSeries와 동일하게 동작
+   */
+  public async generateFromTimeSeriesAsync(timeSeriesData: TimeSeriesData, signal?: AbortSignal): Promise<FlowData> {
+    signal?.throwIfAborted();
+    const channels = this.flowChannels(timeSeriesData);
+    const raster = await this.rasterizeAsync(channels, signal);
+    signal?.throwIfAborted();
+    return this.toFlowData(raster, channels);
+  }
+
+  /**
+   * 같은 메시의 두 결과(시나리오 또는 타임스텝) 차이 필드 생성 (compare - base)
+   * - TimeSeriesData는 먼저 래스터화한 뒤 픽셀 단위로 비교 (speedDelta = |v₂| - |v₁|)
+   * - 결과는 FlowLayer/ScalarLayer에 그대로 넘길 수 있음 (ScalarLayer field: 'speedDelta' 등)
+   */
+  public async generateDifference(
+    base: FlowData | TimeSeriesData,
+    compare: FlowData | TimeSeriesData,
+    signal?: AbortSignal
+  ): Promise<FlowData> {
+    const [baseData, compareData] = await Promise.all([base, compare].map(data =>
+      Array.isArray(data) ? this.generateFromTimeSeriesAsync(data, signal) : Promise.resolve(data)
+    ));
+    return computeFlowDifference(baseData, compareData);
+  }
+
+  /**
+   * lon/lat 지점의 유속/방향/수심/수위/하상고 (포함 삼각형의 노드 값 보간). 메시 밖이면 null
+   * - next, timeBlend: 두 스텝을 블렌딩해서 보는 중이면 같은 비율로 보간
+   */
+  public probeAt(lon: number, lat: number, flowData: FlowData, next?: FlowData, timeBlend?: number): FlowProbeResult | null {
+    if (!this.meshLoaded) return probeRaster(lon, lat, flowData, next, timeBlend);
+    this.probe ??= new FlowProbe(this.rasterizer);
+    return this.probe.sample(lon, lat, flowData, next, timeBlend);
+  }
+
+  /**
+   * lon/lat 지점의 시계열 (hydrograph). 메시 밖이면 null
+   * - 스텝마다 노드 값만 읽어 포함 삼각형에서 보간 (래스터화 없음), 여러 스텝을 동시에 읽음
+   * - 읽은 스텝의 노드 값은 캐시되므로 다른 지점을 다시 조회하면 파일을 다시 읽지 않음
+   * - 읽지 못한 스텝은 경고 후 NaN
+   * @param timeRange - 스텝 위치(CSV 목록 또는 .mfts)와 스텝 번호 범위
+   */
+  public async getTimeSeriesAt(
+    lon: number,
+    lat: number,
+    variables: PointTimeSeriesVariable[],
+    timeRange: TimeSeriesRange,
+    options: PointTimeSeriesOptions = {}
+  ): Promise<PointTimeSeries | null> {
+    this.requireMesh('Point time series');
+    const location = this.rasterizer.grid.locate(lon, lat);
+    if (!location) return null;
+
+    const values: PointTimeSeries['values'] = {};
+    const steps = await this.readStepChannels(timeRange, options, count => {
+      variables.forEach(name => { values[name] = new Float32Array(count).fill(NaN); });
+    }, (i, channels) => {
+      const [u, v, waterDepth, waterElevation, inflowRate] = this.rasterizer.interpolate(location, channels);
+      const point: Record<PointTimeSeriesVariable, number> = {
+        u, v, speed: Math.hypot(u, v), direction: flowDirection(u, v), waterDepth, waterElevation, inflowRate
+      };
+      variables.forEach(name => { values[name]![i] = point[name]; });
+    });
+
+    const [bedElevation] = this.rasterizer.interpolate(location, [Float32Array.from(this.polygon.vertices, v => v.z)]);
+    return {
+      lon,
+      lat,
+      triangleIndex: location.triangleIndex,
+      elementId: this.polygon.triangles[location.triangleIndex].elementId,
+      bedElevation,
+      steps,
+      values
+    };
+  }
+
+  /**
+   * 폴리라인 횡단면 (유량 시계열 등에서 여러 번 쓸 때). 샘플 위치를 미리 찾아 둠
+   * @param line - [lon, lat] 꼭짓점 (2개 이상)
+   */
+  public createCrossSection(line: [number, number][], options?: CrossSectionOptions): CrossSection {
+    this.requireMesh('Cross sections');
+    return new CrossSection(this.rasterizer, line, options);
+  }
+
+  /**
+   * 한 시점의 횡단면: 수심/하상고/수위/유속 성분 분포와 유량
+   * - FlowData.mesh의 노드 값 보간 (CSV/.mfts에서 생성한 데이터만 가능)
+   * - next, timeBlend: 두 스텝을 블렌딩해서 보는 중이면 노드 값을 같은 비율로 블렌딩
+   * @throws FlowData에 노드 값(mesh)이 없으면 에러
+   */
+  public getCrossSection(
+    section: CrossSection | [number, number][],
+    flowData: FlowData,
+    next: FlowData = flowData,
+    timeBlend = 0
+  ): CrossSectionProfile {
+    const crossSection = section instanceof CrossSection ? section : this.createCrossSection(section);
+    return crossSection.profile(this.blendedNodeChannels('Cross sections', flowData, next, timeBlend));
+  }
+
+  /**
+   * 횡단면 유량 시계열 (스텝 읽기/캐시/진행률은 getTimeSeriesAt과 같음)
+   */
+  public async getDischargeTimeSeries(
+    section: CrossSection | [number, number][],
+    timeRange: TimeSeriesRange,
+    options: PointTimeSeriesOptions = {}
+  ): Promise<DischargeTimeSeries> {
+    const crossSection = section instanceof CrossSection ? section : this.createCrossSection(section);
+    let discharge = new Float32Array(0);
+    const steps = await this.readStepChannels(timeRange, options, count => {
+      discharge = new Float32Array(count).fill(NaN);
+    }, (i, channels) => {
+      discharge[i] = crossSection.discharge(channels);
+    });
+    return { steps, discharge };
+  }
+
+  /**
+   * 한 시점의 유선 (노드 값 보간, RK2). 메시 밖, 마스크 0, 마른 곳(minWaterDepth)에서 멈춤
+   * - FlowData.mesh의 노드 값 사용 (CSV/.mfts에서 생성한 데이터만 가능)
+   * - next, timeBlend: 두 스텝을 블렌딩해서 보는 중이면 노드 값을 같은 비율로 블렌딩
+   * @param starts - 시작점 [lon, lat] (결과는 같은 순서)
+   * @throws FlowData에 노드 값(mesh)이 없으면 에러
+   */
+  public computeStreamlines(
+    starts: [number, number][],
+    flowData: FlowData,
+    next: FlowData = flowData,
+    timeBlend = 0,
+    options: StreamlineOptions = {}
+  ): FlowPath[] {
+    return this.getFlowPathTracer().streamlines(starts, this.blendedNodeChannels('Streamlines', flowData, next, timeBlend), options);
+  }
+
+  /**
+   * timeRange 첫 스텝에서 출발하는 유적선 (스텝 사이는 선형 블렌딩한 유속장)
+   * - 구간마다 두 스텝의 노드 값을 읽음 (지점 시계열과 같은 캐시), 다음 스텝은 적분하는 동안 미리 읽음
+   * - 읽지 못한 스텝이 있으면 경고 후 그 앞 스텝에서 끝냄 (end = 'endOfData')
+   * - onProgress는 적분한 구간 수 (스텝 수 - 1)
+   * @param starts - 시작점 [lon, lat] (결과는 같은 순서)
+   * - 구간 길이는 두 스텝의 stepTime 차이 (없으면 stepDuration x 스텝 수)
+   * @throws 구간 길이를 알 수 없거나, 범위에 스텝이 없거나, 첫 스텝을 읽지 못하면 에러
+   */
+  public async computePathlines(
+    starts: [number, number][],
+    timeRange: TimeSeriesRange,
+    options: PathlineOptions,
+    { onProgress, signal }: PointTimeSeriesOptions = {}
+  ): Promise<FlowPath[]> {
+    this.requireMesh('Streamlines and pathlines');
+    if (options.stepDuration !== undefined && !(options.stepDuration > 0)) {
+      throw new Error(`Pathline stepDuration must be a positive number of seconds: ${options.stepDuration}`);
+    }
+    const steps = await this.timeSeriesSteps(timeRange);
+    if (steps.length === 0) throw new Error('No time steps in the pathline time range');
+    const times = pathlineStepTimes(steps, options);
+    const load = (i: number) => this.stepNodeChannels(timeRange.source, steps[i]);
+
+    let current = await load(0);
+    signal?.throwIfAborted();
+    const tracer = this.getFlowPathTracer();
+    const paths = tracer.beginPathlines(starts, current);
+    const intervals = steps.length - 1;
+    onProgress?.(0, intervals);
+
+    let upcoming = intervals > 0 ? load(1) : undefined;
+    for (let i = 1; i <= intervals; i++) {
+      let next: NodeChannel[];
+      try {
+        next = await upcoming!;
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.warn(`Failed to read time step ${steps[i]}. Pathlines end at step ${steps[i - 1]}:`, e);
+        break;
+      }
+      signal?.throwIfAborted();
+      // 적분하는 동안 다음 스텝 로드
+      upcoming = i < intervals ? load(i + 1) : undefined;
+      const active = tracer.advancePathlines(paths, current, next, times[i - 1], times[i], options);
+      onProgress?.(i, intervals);
+      if (!active) break;
+      current = next;
+    }
+    return paths;
+  }
+
+  /**
+   * 지점 시계열 캐시 비우기 (파일이 바뀐 경우 등)
+   */
+  public clearTimeSeriesCache(): void {
+    this.nodeChannelCache.clear();
+  }
+
+  /**
+   * timeRange의 스텝 노드 채널을 TIME_SERIES_CONCURRENCY개씩 동시에 읽어 스텝마다 onStep 호출
+   * - 읽지 못한 스텝은 경고 후 건너뜀 (abort는 그대로 throw)
+   * @param onSteps - 스텝 수가 정해지면 읽기 전에 한 번 호출 (결과 배열 할당)
+   * @returns 스텝 번호 (onStep의 인덱스 순서)
+   */
+  private async readStepChannels(
+    timeRange: TimeSeriesRange,
+    { onProgress, signal }: PointTimeSeriesOptions,
+    onSteps: (count: number) => void,
+    onStep: (index: number, channels: NodeChannel[]) => void
+  ): Promise<number[]> {
+    const steps = await this.timeSeriesSteps(timeRange);
+    signal?.throwIfAborted();
+    onSteps(steps.length);
+
+    let next = 0, loaded = 0;
+    onProgress?.(0, steps.length);
+    const readSteps = async () => {
+      while (next < steps.length) {
+        const i = next++;
+        try {
+          // 캐시는 다른 조회와 공유되므로 로드 자체는 취소하지 않음
+          const channels = await this.stepNodeChannels(timeRange.source, steps[i]);
+          signal?.throwIfAborted();
+          onStep(i, channels);
+        } catch (e) {
+          if (isAbortError(e)) throw e;
+          console.warn(`Failed to read time step ${steps[i]}:`, e);
+        }
+        onProgress?.(++loaded, steps.length);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(TIME_SERIES_CONCURRENCY, steps.length) }, readSteps));
+    return steps;
+  }
+
+  private async timeSeriesSteps({ source, start, end }: TimeSeriesRange): Promise<number[]> {
+    const steps = 'binaryUrl' in source
+      ? (await this.getBinaryReader(source.binaryUrl)).steps.map(step => step.index)
+      : source.csvUrls.map((_, i) => i + 1);
+    return steps.filter(step => (start === undefined || step >= start) && (end === undefined || step <= end));
+  }
+
+  /**
+   * 한 스텝의 노드 채널 (u, v, waterDepth, waterElevation, inflowRate), 캐시 사용
+   */
+  private stepNodeChannels(source: TimeSeriesSource, step: number): Promise<NodeChannel[]> {
+    if ('binaryUrl' in source) {
+      return this.nodeChannelCache.get(`${source.binaryUrl}#${step}`, async () => {
+        const reader = await this.getBinaryReader(source.binaryUrl);
+        return flowNodeChannels(this.rasterizer, await reader.readStep(step));
+      });
+    }
+    const url = source.csvUrls[step - 1];
+    return this.nodeChannelCache.get(url, async () => {
+      // 검증 리포트는 화면에 표시 중인 스텝 것만 남기고 경고도 출력하지 않음
+      const { data } = await deserializeTimeSeriesFromUrl(url, { ...this.csvOptions, knownNodeIds: this.nodeIds });
+      return flowNodeChannels(this.rasterizer, data);
+    });
+  }
+
+  /**
+   * 두 스텝의 노드 채널 [u, v, waterDepth, waterElevation]을 timeBlend 비율로 블렌딩
+   * @param feature - 에러 메시지에 쓰는 기능 이름
+   * @throws FlowData에 노드 값(mesh)이 없으면 에러
+   */
+  private blendedNodeChannels(feature: string, flowData: FlowData, next: FlowData, timeBlend: number): NodeChannel[] {
+    const channels = [flowData, next].map(data => {
+      const { mesh } = data;
+      if (!mesh?.scalars?.waterDepth || !mesh.scalars.waterElevation) {
+        throw new Error(`${feature} need node values (FlowData.mesh from CSV or .mfts data)`);
+      }
+      return [mesh.u, mesh.v, mesh.scalars.waterDepth, mesh.scalars.waterElevation];
+    });
+    if (next === flowData || timeBlend === 0) return channels[0];
+    return channels[0].map((current, c) => {
+      const upcoming = channels[1][c];
+      return current.map((value, i) => value + (upcoming[i] - value) * timeBlend);
+    });
+  }
+
+  /**
+   * 유선/유적선 추적기 (입자와 같은 마스크, minWaterDepth)
+   */
+  private getFlowPathTracer(): FlowPathTracer {
+    this.requireMesh('Streamlines and pathlines');
+    this.flowPathTracer ??= new FlowPathTracer(this.rasterizer, {
+      mask: { array: this.mask.array, width: this.rasterWidth, height: this.rasterHeight },
+      minWaterDepth: this.minWaterDepth
+    });
+    return this.flowPathTracer;
   }
 
   /**
    * 현재 캐시된 polygon 반환
    */
   public getPolygon(): PolygonData {
+    this.requireMesh('Polygons');
     return this.polygon;
   }
 
+  /**
+   * 현재 캐시된 mask 반환 (텍스처 크기, 유효 = 1)
+   */
+  public getMask(): MaskData {
+    return this.mask;
+  }
+
   /**
    * 현재 캐시된 seeds 반환
    */
@@ -467,114 +904,85 @@ export class FlowFieldDataManager {
   }
 
   /**
-   * seeds 재생성 (요청 시 수동 재생성)
+   * seeds 재생성 (요청 시 수동 재생성). 이후 생성하는 FlowData부터 적용
+   * - velocity / inflow: 기준 스텝의 노드 유속과 inflowRate를 options로 전달 (nodeVelocities, nodeInflowRates, inflowNodeIds)
+   *   - 프리페치가 다른 스텝을 생성할 수 있으므로 "마지막으로 생성한 스텝"이 아니라 호출한 쪽이 스텝을 정함
+   * - 필요한 값이 없으면(래스터 run만 읽은 경우 등) area로 대체
    */
-  public regenerateSeeds(numSeeds = this.numSeeds): SeedPoint[] {
-    this.seeds = generateRandomSeedsFromPolygon(this.polygon, numSeeds);
+  public regenerateSeeds(strategy: SeedStrategy = 'area', count = this.numSeeds, options: SeedOptions = {}): SeedPoint[] {
+    this.requireMesh('Seed generation');
+    this.seeds = generateSeeds(this.polygon, count, strategy, {
+      random: this.seedRandom(),
+      ...options
+    });
     return this.seeds;
   }
 
   /**
-   * 내부 생성 로직: polygon/grid는 캐시 사용, mask/seeds 포함하여 FlowData 반환
-   */
-  private generateFlow(timeSeriesData: TimeSeriesData, size: number): FlowData {
-    const { bounds, vertices, triangles } = this.polygon;
-    const totalPixels = size * size;
-
-    const uArray = new Float32Array(totalPixels);
-    const vArray = new Float32Array(totalPixels);
-    const speedArray = new Float32Array(totalPixels);
-  const nonZeroSpeeds: number[] = [];
-
-    const vertexMap = new Map(vertices.map(v => [v.id, v]));
-    const velocityMap = new Map(timeSeriesData.map(v => [v.nodeId, v]));
-
-    let uMin = Infinity, uMax = -Infinity;
-    let vMin = Infinity, vMax = -Infinity;
-    let speedMin = Infinity, speedMax = -Infinity;
-
-    for (let j = 0; j < size; j++) {
-      for (let i = 0; i < size; i++) {
-        const lon = bounds.minLon + (i / (size - 1)) * (bounds.maxLon - bounds.minLon);
-        const lat = bounds.minLat + (j / (size - 1)) * (bounds.maxLat - bounds.minLat);
-        const arrayIndex = j * size + i;
-
-        let interpolated: { vx: number, vy: number } | null = null;
-        const candidateIndices = this.grid.getCandidateTriangles(lon, lat);
-
-        for (const triIndex of candidateIndices) {
-          const tri = triangles[triIndex];
-          const v1 = vertexMap.get(tri.vertexIds[0])!;
-          const v2 = vertexMap.get(tri.vertexIds[1])!;
-          const v3 = vertexMap.get(tri.vertexIds[2])!;
-
-          if (isPointInTriangle(lon, lat, v1, v2, v3)) {
-            const vel1 = velocityMap.get(tri.vertexIds[0]);
-            const vel2 = velocityMap.get(tri.vertexIds[1]);
-            const vel3 = velocityMap.get(tri.vertexIds[2]);
-
-            if (vel1 && vel2 && vel3) {
-              const denom = (v2.lat - v3.lat) * (v1.lon - v3.lon) + (v3.lon - v2.lon) * (v1.lat - v3.lat);
-              if (Math.abs(denom) > 1e-10) {
-                const w1 = ((v2.lat - v3.lat) * (lon - v3.lon) + (v3.lon - v2.lon) * (lat - v3.lat)) / denom;
-                const w2 = ((v3.lat - v1.lat) * (lon - v3.lon) + (v1.lon - v3.lon) * (lat - v3.lat)) / denom;
-                const w3 = 1 - w1 - w2;
-
-                interpolated = {
-                  vx: w1 * vel1.velocityX + w2 * vel2.velocityX + w3 * vel3.velocityX,
-                  vy: w1 * vel1.velocityY + w2 * vel2.velocityY + w3 * vel3.velocityY
-                };
-              }
-            }
-            break;
-          }
-        }
+   * seed 옵션이 있으면 매번 처음부터 시작하는 난수 생성기 (같은 전략/개수면 같은 seeds)
+   */
+  private seedRandom(): (() => number) | undefined {
+    return this.seed !== undefined ? createRandom(this.seed) : undefined;
+  }
 
-        if (interpolated) {
-          uArray[arrayIndex] = interpolated.vx;
-          vArray[arrayIndex] = interpolated.vy;
-          const speed = Math.sqrt(interpolated.vx * interpolated.vx + interpolated.vy * interpolated.vy);
-          speedArray[arrayIndex] = speed;
-          if (speed > 0) nonZeroSpeeds.push(speed);
-
-          uMin = Math.min(uMin, interpolated.vx);
-          uMax = Math.max(uMax, interpolated.vx);
-          vMin = Math.min(vMin, interpolated.vy);
-          vMax = Math.max(vMax, interpolated.vy);
-          speedMin = Math.min(speedMin, speed);
-          speedMax = Math.max(speedMax, speed);
-        } else {
-          uArray[arrayIndex] = 0;
-          vArray[arrayIndex] = 0;
-          speedArray[arrayIndex] = 0;
-        }
+  /**
+   * 워커 풀 종료. 이후 생성은 메인 스레드에서 수행
+   */
+  public destroy(): void {
+    this.workerPool?.destroy();
+    this.workerPool = undefined;
+  }
+
+  /**
+   * 노드 채널 생성 (u, v, waterDepth, waterElevation, inflowRate)
+   */
+  private flowChannels(timeSeriesData: TimeSeriesData): NodeChannel[] {
+    this.requireMesh('CSV and .mfts time steps');
+    return flowNodeChannels(this.rasterizer, timeSeriesData);
+  }
+
+  /**
+   * 래스터화: 워커 풀이 있으면 워커에서, 실패하거나 없으면 메인 스레드에서
+   * - 워커 작업 하나가 실패해도 그 스텝만 메인 스레드로 처리 (풀은 유지, 다른 스텝은 계속 워커에서)
+   * - 실패한 워커가 빠져서 풀에 워커가 남지 않으면 풀을 정리하고 이후 스텝은 메인 스레드에서
+   */
+  private async rasterizeAsync(channels: NodeChannel[], signal?: AbortSignal): Promise<RasterizedFlowField> {
+    if (this.workerPool) {
+      try {
+        // 워커로 transfer되면 원본 버퍼는 비워지므로, 폴백용 복사본을 남겨둠
+        return await this.workerPool.rasterize(channels.map(c => c.slice()), this.rasterWidth, this.rasterHeight, signal);
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.warn("Raster worker failed. Rasterizing this step on the main thread:", e);
+        if (this.workerPool?.size === 0) this.destroy();
       }
     }
+    return rasterizeFlowField(this.rasterizer, channels, this.rasterWidth, this.rasterHeight);
+  }
 
-    if (uMin === Infinity) {
-      uMin = uMax = vMin = vMax = speedMin = speedMax = 0;
-    }
+  /**
+   * 내부 생성 로직 (동기, 메인 스레드): polygon/grid는 캐시 사용, mask/seeds 포함하여 FlowData 반환
+   */
+  private generateFlow(timeSeriesData: TimeSeriesData): FlowData {
+    const channels = this.flowChannels(timeSeriesData);
+    const raster = rasterizeFlowField(this.rasterizer, channels, this.rasterWidth, this.rasterHeight);
+    return this.toFlowData(raster, channels);
+  }
 
-    // Compute speed quantiles (ignore zero speeds which usually denote outside-polygon)
-    let quantiles: Quantiles | undefined = undefined;
-    if (nonZeroSpeeds.length === 0) {
-      quantiles = { q25: 0, q50: 0, q75: 0, q90: 0 };
-    } else {
-      const sortedSpeeds = nonZeroSpeeds.slice().sort((a, b) => a - b);
-      quantiles = {
-        q25: getQuantile(sortedSpeeds, 0.25),
-        q50: getQuantile(sortedSpeeds, 0.5),
-        q75: getQuantile(sortedSpeeds, 0.75),
-        q90: getQuantile(sortedSpeeds, 0.9),
-      };
-    }
+  /**
+   * @param channels - 래스터화한 노드 채널 (FlowData.mesh 생성)
+   */
+  private toFlowData(raster: RasterizedFlowField, channels: NodeChannel[]): FlowData {
+    const { bounds } = this.polygon;
+    const { stats } = raster;
+    const [depth, waterElevation, inflowRate] = raster.extras;
 
     const flowData: FlowData = {
-      u: { array: Array.from(uArray), min: uMin, max: uMax },
-      v: { array: Array.from(vArray), min: vMin, max: vMax },
-      speed: { array: Array.from(speedArray), min: speedMin, max: speedMax, quantiles },
-      width: size,
-      height: size,
+      u: { array: raster.u, min: stats.uMin, max: stats.uMax },
+      v: { array: raster.v, min: stats.vMin, max: stats.vMax },
+      speed: { array: raster.speed, min: stats.speedMin, max: stats.speedMax, quantiles: stats.quantiles },
+      width: raster.width,
+      height: raster.height,
       bounds: {
         west: bounds.minLon,
         south: bounds.minLat,
@@ -582,10 +990,24 @@ export class FlowFieldDataManager {
         north: bounds.maxLat
       },
       // time-독립 데이터 재사용
-      mask: this.mask ? { array: this.mask.array, min: this.mask.min, max: this.mask.max } : undefined,
-      seeds: this.seeds ? [...this.seeds] : undefined
+      mask: { array: this.mask.array, min: this.mask.min, max: this.mask.max },
+      wetMask: wetMaskFromDepth(depth, this.minWaterDepth),
+      // ScalarLayer용 (메시 밖은 NaN)
+      scalars: {
+        waterDepth: withMinMax(depth),
+        waterElevation: withMinMax(waterElevation),
+        inflowRate: withMinMax(inflowRate)
+      },
+      // 같은 배열을 넘겨서 seeds 텍스처를 타임스텝마다 다시 만들지 않게 함 (regenerateSeeds는 새 배열)
+      seeds: this.seeds,
+      // sampling: 'mesh'와 지점 조회(probe)용 노드 값 (메시 구조는 모든 스텝이 공유)
+      mesh: createFlowMeshData(this.meshGeometry, channels[0], channels[1], {
+        waterDepth: channels[2],
+        waterElevation: channels[3],
+        inflowRate: channels[4]
+      })
     };
 
     return flowData;
   }
-}
\ No newline at end of file
+}
@@ -120,7 +120,13 @@ declare module 'cesium' {
       };
       sampler?: Sampler;
     });
-    copyFrom(options: { source: ArrayBufferView | ImageData | HTMLImageElement | HTMLCanvasElement | HTMLVideoElement }): void;
+    readonly width: number;
+    readonly height: number;
+    copyFrom(options: {
+      source: { width: number; height: number; arrayBufferView: ArrayBufferView } | ImageData | HTMLImageElement | HTMLCanvasElement | HTMLVideoElement;
+      xOffset?: number;
+      yOffset?: number;
+    }): void;
     destroy(): void;
   }
 
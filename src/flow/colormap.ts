@@ -0,0 +1,60 @@
+import { Color, PixelDatatype, PixelFormat, Sampler, Texture, TextureMagnificationFilter, TextureMinificationFilter, TextureWrap } from 'cesium';
+
+export interface LegendStop {
+  value: number;
+  color: string;
+}
+
+/**
+ * Data needed to draw a legend for a layer's colormap.
+ * Colors are spread evenly between min and max, matching the color table texture.
+ */
+export interface Legend {
+  title: string;
+  units?: string;
+  min: number;
+  max: number;
+  colors: string[];
+  stops: LegendStop[];
+}
+
+/**
+ * Create a 1D color table texture from CSS color strings.
+ * Sampled with LINEAR filtering at the normalized value, as in the particle and scalar shaders.
+ */
+export function createColorTableTexture(context: any, colors: string[]): Texture {
+  const colorTableData = new Float32Array(colors.flatMap(color => {
+    const cesiumColor = Color.fromCssColorString(color);
+    return [cesiumColor.red, cesiumColor.green, cesiumColor.blue, cesiumColor.alpha];
+  }));
+
+  return new Texture({
+    context,
+    width: colors.length,
+    height: 1,
+    pixelFormat: PixelFormat.RGBA,
+    pixelDatatype: PixelDatatype.FLOAT,
+    sampler: new Sampler({
+      minificationFilter: TextureMinificationFilter.LINEAR,
+      magnificationFilter: TextureMagnificationFilter.LINEAR,
+      wrapS: TextureWrap.CLAMP_TO_EDGE,
+      wrapT: TextureWrap.CLAMP_TO_EDGE
+    }),
+    source: {
+      width: colors.length,
+      height: 1,
+      arrayBufferView: colorTableData
+    }
+  });
+}
+
+/**
+ * Build legend data for a colormap over [min, max].
+ */
+export function createLegend(title: string, colors: string[], min: number, max: number, units?: string): Legend {
+  const stops = colors.map((color, i) => ({
+    value: colors.length > 1 ? min + (i / (colors.length - 1)) * (max - min) : min,
+    color
+  }));
+  return { title, units, min, max, colors: [...colors], stops };
+}
@@ -51,8 +51,11 @@ export class FlowParticleSystem {
     if (options.particlesTextureSize && this.options.particlesTextureSize !== options.particlesTextureSize) {
       maxParticlesChanged = true;
     }
+    // a new seed restarts the particles so the run is reproducible from frame 0
+    const seedChanged = 'seed' in options && options.seed !== this.options.seed;
 
     const newOptions = deepMerge(options, this.options);
+    if ('seed' in options) newOptions.seed = options.seed;
     if (newOptions.particlesTextureSize < 1) {
       throw new Error('particlesTextureSize must be greater than 0');
     }
@@ -60,11 +63,16 @@ export class FlowParticleSystem {
 
     this.rendering.updateOptions(options);
     this.computing.updateOptions(options);
-    if (maxParticlesChanged) {
+    if (maxParticlesChanged || seedChanged) {
       this.computing.destroyParticlesTextures();
       this.computing.createParticlesTextures();
+    }
+    if (maxParticlesChanged) {
       this.rendering.onParticlesTextureSizeChange();
     }
+    if (seedChanged) {
+      this.clearFramebuffers();
+    }
   }
 
   applyViewerParameters(viewerParameters: any): void {
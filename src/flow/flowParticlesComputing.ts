@@ -1,8 +1,12 @@
 import { PixelDatatype, PixelFormat, Sampler, Texture, TextureMagnificationFilter, TextureMinificationFilter, Cartesian2, FrameRateMonitor } from 'cesium';
-import { type FlowLayerOptions, type FlowData } from './types';
+import { type FlowLayerOptions, type FlowData, type FlowDataDemention, type FlowMeshData, type FlowMeshGeometry } from './types';
 import { ShaderManager } from './shaderManager';
 import CustomPrimitive from './customPrimitive'
-import { deepMerge, getQuantile } from './utils';
+import { createRandom, deepMerge, getQuantile } from './utils';
+
+// row width of the 1D data textures used by sampling: 'mesh'
+const DATA_TEXTURE_WIDTH = 4096;
+const DATA_PIXEL_FORMATS = [PixelFormat.RED, PixelFormat.RG, PixelFormat.RGB, PixelFormat.RGBA];
 
 export class FlowParticlesComputing {
   context: any;
@@ -11,9 +15,27 @@ export class FlowParticlesComputing {
   windTextures!: {
     U: Texture;
     V: Texture;
+    wetMask: Texture;
+    // next timestep, blended with U/V/wetMask by timeBlend
+    nextU: Texture;
+    nextV: Texture;
+    nextWetMask: Texture;
     mask: Texture;
     seeds: Texture;
   };
+  // sampling: 'mesh' data (1x1 placeholders while the data has no mesh)
+  meshTextures!: {
+    nodes: Texture;
+    triangles: Texture;
+    cells: Texture;
+    cellTriangles: Texture;
+    velocity: Texture;
+    nextVelocity: Texture;
+  };
+  private meshGeometry?: FlowMeshGeometry;
+  private meshVelocitySource?: FlowMeshData;
+  private nextMeshVelocitySource?: FlowMeshData;
+  private meshFallbackWarned = false;
   particlesTextures!: {
     previousParticlesPosition: Texture;
     currentParticlesPosition: Texture;
@@ -28,17 +50,28 @@ export class FlowParticlesComputing {
     spawn: CustomPrimitive;
   };
   flowData: Required<FlowData>;
+  nextFlowData: Required<FlowData>;
+  /** 0 = flowData, 1 = nextFlowData */
+  timeBlend: number = 0;
   private frameRateMonitor: FrameRateMonitor;
   frameRate: number = 60;
   frameRateAdjustment: number = 1;
   private startTime: number = Date.now();
   private currentTime: number = 0;
+  // Math.random, or a seeded generator when options.seed is set
+  private random: () => number = Math.random;
+  private frameCount: number = 0;
+  // drawn once per frame so every uniform read within a frame sees the same value
+  private dropRandom: number = 0;
+  private spawnRandom: number = 0;
 
   constructor(context: any, flowData: Required<FlowData>, options: FlowLayerOptions, viewerParameters: any, scene: any) {
     this.context = context;
     this.options = options;
     this.viewerParameters = viewerParameters;
     this.flowData = flowData;
+    this.nextFlowData = flowData;
+    this.resetRandom();
 
     this.frameRateMonitor = new FrameRateMonitor({
       scene: scene,
@@ -47,12 +80,16 @@ export class FlowParticlesComputing {
     });
     this.initFrameRate();
     this.createWindTextures();
+    this.createMeshTextures();
     this.createParticlesTextures();
     this.createComputingPrimitives();
   }
 
   private initFrameRate() {
     const updateFrameRate = () => {
+      // seeded runs advance by frame count instead of wall-clock time (see advanceFrame)
+      if (this.isSeeded()) return;
+
       // avoid update frame rate when frame rate is too low
       if (this.frameRateMonitor.lastFramesPerSecond > 20) {
         this.frameRate = this.frameRateMonitor.lastFramesPerSecond;
@@ -93,6 +130,34 @@ export class FlowParticlesComputing {
     };
   }
 
+  private isSeeded(): boolean {
+    return this.options.seed !== undefined;
+  }
+
+  /**
+   * Restart the random sequence and the frame clock (seeded runs start from frame 0 again)
+   */
+  resetRandom() {
+    this.random = this.isSeeded() ? createRandom(this.options.seed!) : Math.random;
+    this.frameCount = 0;
+    if (this.isSeeded()) {
+      this.currentTime = 0;
+      this.frameRateAdjustment = 1;
+    }
+  }
+
+  /**
+   * Called once per simulated frame, before the computing passes run
+   */
+  private advanceFrame() {
+    this.frameCount++;
+    if (this.isSeeded()) {
+      this.currentTime = this.frameCount / 60;
+    }
+    this.dropRandom = this.random();
+    this.spawnRandom = this.random();
+  }
+
   createWindTextures() {
     const options = {
       context: this.context,
@@ -106,30 +171,168 @@ export class FlowParticlesComputing {
         magnificationFilter: TextureMagnificationFilter.LINEAR
       })
     }
+    const createTexture = (data: FlowDataDemention) => new Texture({
+      ...options,
+      source: {
+        arrayBufferView: new Float32Array(data.array)
+      }
+    });
 
     this.windTextures = {
-      U: new Texture({
-        ...options,
-        source: {
-          arrayBufferView: new Float32Array(this.flowData.u.array)
-        }
-      }),
-      V: new Texture({
-        ...options,
-        source: {
-          arrayBufferView: new Float32Array(this.flowData.v.array)
-        }
-      }),
-      mask: new Texture({
-        ...options,
-        source: {
-          arrayBufferView: new Float32Array(this.flowData.mask.array)
-        }
-      }),
+      U: createTexture(this.flowData.u),
+      V: createTexture(this.flowData.v),
+      wetMask: createTexture(this.flowData.wetMask),
+      nextU: createTexture(this.nextFlowData.u),
+      nextV: createTexture(this.nextFlowData.v),
+      nextWetMask: createTexture(this.nextFlowData.wetMask),
+      mask: createTexture(this.flowData.mask),
       seeds: this.createSeedsTexture(),
     };
   }
 
+  /**
+   * Upload new values into an existing texture of the same size (no reallocation)
+   */
+  private copyToTexture(texture: Texture, data: FlowDataDemention) {
+    texture.copyFrom({
+      source: {
+        width: this.flowData.width,
+        height: this.flowData.height,
+        arrayBufferView: new Float32Array(data.array)
+      }
+    });
+  }
+
+  /**
+   * Float texture holding count items of components values each, read with texelFetch (item i -> (i % width, i / width))
+   */
+  private createDataTexture(values: ArrayLike<number>, components: 1 | 2 | 3 | 4, count: number, width?: number): Texture {
+    const textureWidth = width ?? Math.max(1, Math.min(count, DATA_TEXTURE_WIDTH));
+    const textureHeight = Math.max(1, Math.ceil(count / textureWidth));
+    const data = new Float32Array(textureWidth * textureHeight * components);
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      data[i] = Number.isNaN(value) ? 0 : value;
+    }
+    return new Texture({
+      context: this.context,
+      width: textureWidth,
+      height: textureHeight,
+      pixelFormat: DATA_PIXEL_FORMATS[components - 1],
+      pixelDatatype: PixelDatatype.FLOAT,
+      source: {
+        arrayBufferView: data
+      },
+      sampler: new Sampler({
+        minificationFilter: TextureMinificationFilter.NEAREST,
+        magnificationFilter: TextureMagnificationFilter.NEAREST
+      })
+    });
+  }
+
+  private interleaveVelocity(mesh: FlowMeshData): Float32Array {
+    const velocity = new Float32Array(mesh.u.length * 2);
+    for (let i = 0; i < mesh.u.length; i++) {
+      velocity[i * 2] = mesh.u[i];
+      velocity[i * 2 + 1] = mesh.v[i];
+    }
+    return velocity;
+  }
+
+  private createMeshTextures() {
+    const mesh = this.flowData.mesh;
+    const next = this.nextFlowData.mesh?.geometry === mesh?.geometry ? this.nextFlowData.mesh : mesh;
+    this.meshGeometry = mesh?.geometry;
+    this.meshVelocitySource = mesh;
+    this.nextMeshVelocitySource = next;
+    if (!mesh || !next) {
+      const empty = new Float32Array(0);
+      this.meshTextures = {
+        nodes: this.createDataTexture(empty, 2, 1),
+        triangles: this.createDataTexture(empty, 3, 1),
+        cells: this.createDataTexture(empty, 2, 1),
+        cellTriangles: this.createDataTexture(empty, 1, 1),
+        velocity: this.createDataTexture(empty, 2, 1),
+        nextVelocity: this.createDataTexture(empty, 2, 1)
+      };
+      return;
+    }
+
+    const { nodes, triangles, grid } = mesh.geometry;
+    const nodeCount = nodes.length / 2;
+    const cellCount = grid.columns * grid.rows;
+    const cells = new Float32Array(cellCount * 2);
+    for (let i = 0; i < cellCount; i++) {
+      cells[i * 2] = grid.cellStart[i];
+      cells[i * 2 + 1] = grid.cellCount[i];
+    }
+    this.meshTextures = {
+      nodes: this.createDataTexture(nodes, 2, nodeCount),
+      triangles: this.createDataTexture(triangles, 3, triangles.length / 3),
+      // one texel per grid cell so the shader can fetch (col, row) directly
+      cells: this.createDataTexture(cells, 2, cellCount, grid.columns),
+      cellTriangles: this.createDataTexture(grid.triangleIndices, 1, grid.triangleIndices.length),
+      velocity: this.createDataTexture(this.interleaveVelocity(mesh), 2, nodeCount),
+      nextVelocity: this.createDataTexture(this.interleaveVelocity(next), 2, nodeCount)
+    };
+  }
+
+  private copyMeshVelocity(texture: Texture, mesh: FlowMeshData) {
+    const velocity = this.interleaveVelocity(mesh);
+    const data = new Float32Array(texture.width * texture.height * 2);
+    for (let i = 0; i < velocity.length; i++) {
+      data[i] = Number.isNaN(velocity[i]) ? 0 : velocity[i];
+    }
+    texture.copyFrom({
+      source: {
+        width: texture.width,
+        height: texture.height,
+        arrayBufferView: data
+      }
+    });
+  }
+
+  /**
+   * Keep the mesh textures in sync with flowData/nextFlowData (same geometry: only node velocities are uploaded)
+   */
+  private updateMeshTextures() {
+    const mesh = this.flowData.mesh;
+    if (mesh?.geometry !== this.meshGeometry) {
+      Object.values(this.meshTextures).forEach(texture => texture.destroy());
+      this.createMeshTextures();
+      return;
+    }
+    if (!mesh) return;
+
+    const next = this.nextFlowData.mesh?.geometry === mesh.geometry ? this.nextFlowData.mesh : mesh;
+    const textures = this.meshTextures;
+    if (mesh !== this.meshVelocitySource && (mesh === this.nextMeshVelocitySource || next === this.meshVelocitySource)) {
+      [textures.velocity, textures.nextVelocity] = [textures.nextVelocity, textures.velocity];
+      [this.meshVelocitySource, this.nextMeshVelocitySource] = [this.nextMeshVelocitySource, this.meshVelocitySource];
+    }
+    if (mesh !== this.meshVelocitySource) {
+      this.copyMeshVelocity(textures.velocity, mesh);
+      this.meshVelocitySource = mesh;
+    }
+    if (next !== this.nextMeshVelocitySource) {
+      this.copyMeshVelocity(textures.nextVelocity, next);
+      this.nextMeshVelocitySource = next;
+    }
+  }
+
+  /**
+   * sampling: 'mesh' is used only while both blended timesteps carry the same mesh
+   */
+  private useMeshSampling(): boolean {
+    if (this.options.sampling !== 'mesh') return false;
+    const available = !!this.flowData.mesh && this.flowData.mesh.geometry === this.nextFlowData.mesh?.geometry;
+    if (!available && !this.meshFallbackWarned) {
+      console.warn("sampling: 'mesh' needs FlowData.mesh (data generated from a mesh). Using raster sampling.");
+      this.meshFallbackWarned = true;
+    }
+    return available;
+  }
+
   private createSeedsTexture(): Texture {
     // Seeds texture uses RGBA format: R=longitude, G=latitude, B=0, A=unused
     const seedsArray = new Float32Array(this.options.particlesTextureSize * this.options.particlesTextureSize * 4);
@@ -201,20 +404,32 @@ export class FlowParticlesComputing {
         uniformMap: {
           U: () => this.windTextures.U,
           V: () => this.windTextures.V,
-          uRange: () => new Cartesian2(this.flowData.u.min, this.flowData.u.max),
-          vRange: () => new Cartesian2(this.flowData.v.min, this.flowData.v.max),
-          speedRange: () => new Cartesian2(this.flowData.speed.min, this.flowData.speed.max),
+          nextU: () => this.windTextures.nextU,
+          nextV: () => this.windTextures.nextV,
+          timeBlend: () => this.timeBlend,
+          uRange: () => this.blendRange(this.flowData.u, this.nextFlowData.u),
+          vRange: () => this.blendRange(this.flowData.v, this.nextFlowData.v),
+          speedRange: () => this.blendRange(this.flowData.speed, this.nextFlowData.speed),
           currentParticlesPosition: () => this.particlesTextures.currentParticlesPosition,
           speedScaleFactor: () => {
             var speedFactor = (1000 + 50) * this.options.speedFactor;
             
-            const ratio = this.flowData.speed.quantiles.q50 / 0.015;
+            const q50 = this.flowData.speed.quantiles.q50 +
+              (this.nextFlowData.speed.quantiles.q50 - this.flowData.speed.quantiles.q50) * this.timeBlend;
+            const ratio = q50 / 0.015;
             if (ratio < 1) {
               speedFactor = speedFactor / ratio;
             }
             return speedFactor;
           },
           frameRateAdjustment: () => this.frameRateAdjustment,
+          useMesh: () => this.useMeshSampling(),
+          meshNodes: () => this.meshTextures.nodes,
+          meshTriangles: () => this.meshTextures.triangles,
+          meshCells: () => this.meshTextures.cells,
+          meshCellTriangles: () => this.meshTextures.cellTriangles,
+          meshVelocity: () => this.meshTextures.velocity,
+          nextMeshVelocity: () => this.meshTextures.nextVelocity,
           dimension: () => new Cartesian2(this.flowData.width, this.flowData.height),
           minimum: () => new Cartesian2(this.flowData.bounds.west, this.flowData.bounds.south),
           maximum: () => new Cartesian2(this.flowData.bounds.east, this.flowData.bounds.north),
@@ -222,6 +437,7 @@ export class FlowParticlesComputing {
         fragmentShaderSource: ShaderManager.getCalculateSpeedShader(),
         outputTexture: this.particlesTextures.particlesSpeed,
         preExecute: () => {
+          this.advanceFrame();
           // 과거 코드 방식으로 복원: nextParticlesPosition을 currentParticlesPosition으로 사용
           const temp = this.particlesTextures.previousParticlesPosition;
           this.particlesTextures.previousParticlesPosition = this.particlesTextures.currentParticlesPosition;
@@ -256,11 +472,15 @@ export class FlowParticlesComputing {
         uniformMap: {
           nextParticlesPosition: () => this.particlesTextures.nextParticlesPosition,
           particlesSpeed: () => this.particlesTextures.particlesSpeed,
+          wetMask: () => this.windTextures.wetMask,
+          nextWetMask: () => this.windTextures.nextWetMask,
+          timeBlend: () => this.timeBlend,
+          dimension: () => new Cartesian2(this.flowData.width, this.flowData.height),
+          minimum: () => new Cartesian2(this.flowData.bounds.west, this.flowData.bounds.south),
+          maximum: () => new Cartesian2(this.flowData.bounds.east, this.flowData.bounds.north),
           dataLonRange: () => new Cartesian2(this.flowData.bounds.west, this.flowData.bounds.east),
           dataLatRange: () => new Cartesian2(this.flowData.bounds.south, this.flowData.bounds.north),
-          randomCoefficient: function () {
-            return Math.random();
-          },
+          randomCoefficient: () => this.dropRandom,
           dropRate: () => this.options.dropRate,
           dropRateBump: () => this.options.dropRateBump
         },
@@ -279,6 +499,9 @@ export class FlowParticlesComputing {
         uniformMap: {
           currentParticlesPosition: () => this.particlesTextures.postProcessingPosition,
           mask: () => this.windTextures.mask,
+          wetMask: () => this.windTextures.wetMask,
+          nextWetMask: () => this.windTextures.nextWetMask,
+          timeBlend: () => this.timeBlend,
           seeds: () => this.windTextures.seeds, // Seeds texture
           dataLonRange: () => new Cartesian2(this.flowData.bounds.west, this.flowData.bounds.east),
           dataLatRange: () => new Cartesian2(this.flowData.bounds.south, this.flowData.bounds.north),
@@ -287,9 +510,7 @@ export class FlowParticlesComputing {
           dimension: () => new Cartesian2(this.flowData.width, this.flowData.height),
           minimum: () => new Cartesian2(this.flowData.bounds.west, this.flowData.bounds.south),
           maximum: () => new Cartesian2(this.flowData.bounds.east, this.flowData.bounds.north),
-          randomCoefficient: function () {
-            return Math.random();
-          },
+          randomCoefficient: () => this.spawnRandom,
           particlesTextureSize: () => this.options.particlesTextureSize,
           useViewerBounds: () => this.options.useViewerBounds,
           t: () => this.currentTime
@@ -308,24 +529,90 @@ export class FlowParticlesComputing {
   }
 
   private reCreateWindTextures() {
-    this.windTextures.U.destroy();
-    this.windTextures.V.destroy();
-    this.windTextures.mask.destroy();
-    this.windTextures.seeds.destroy();
+    Object.values(this.windTextures).forEach(texture => texture.destroy());
     this.createWindTextures();
   }
 
+  /**
+   * Replace both fields with the same data (no temporal blending)
+   */
   updateFlowData(data: Required<FlowData>) {
-    this.flowData = data;
-    this.reCreateWindTextures();
+    this.updateFlowDataPair(data, data, 0);
+  }
+
+  /**
+   * Hold two consecutive fields and blend them by timeBlend (0 = current, 1 = next).
+   * - Textures of the same size are updated in place with copyFrom
+   * - Stepping forward or backward by one step swaps the texture sets, so only the new field is uploaded
+   */
+  updateFlowDataPair(current: Required<FlowData>, next: Required<FlowData>, timeBlend: number) {
+    const sameSize = current.width === this.flowData.width && current.height === this.flowData.height &&
+      next.width === current.width && next.height === current.height;
+
+    if (!sameSize) {
+      this.flowData = current;
+      this.nextFlowData = next.width === current.width && next.height === current.height ? next : current;
+      this.reCreateWindTextures();
+      this.updateMeshTextures();
+      this.setTimeBlend(timeBlend);
+      return;
+    }
+
+    const textures = this.windTextures;
+    let loadedCurrent = this.flowData;
+    let loadedNext = this.nextFlowData;
+    if (current !== loadedCurrent && (current === loadedNext || next === loadedCurrent)) {
+      [textures.U, textures.nextU] = [textures.nextU, textures.U];
+      [textures.V, textures.nextV] = [textures.nextV, textures.V];
+      [textures.wetMask, textures.nextWetMask] = [textures.nextWetMask, textures.wetMask];
+      [loadedCurrent, loadedNext] = [loadedNext, loadedCurrent];
+    }
+    if (current !== loadedCurrent) {
+      this.copyToTexture(textures.U, current.u);
+      this.copyToTexture(textures.V, current.v);
+      this.copyToTexture(textures.wetMask, current.wetMask);
+    }
+    if (next !== loadedNext) {
+      this.copyToTexture(textures.nextU, next.u);
+      this.copyToTexture(textures.nextV, next.v);
+      this.copyToTexture(textures.nextWetMask, next.wetMask);
+    }
+
+    const previous = this.flowData;
+    this.flowData = current;
+    this.nextFlowData = next;
+    if (current.mask.array !== previous.mask.array) {
+      this.copyToTexture(textures.mask, current.mask);
+    }
+    if (current.seeds !== previous.seeds) {
+      textures.seeds.destroy();
+      textures.seeds = this.createSeedsTexture();
+    }
+    this.updateMeshTextures();
+    this.setTimeBlend(timeBlend);
+  }
+
+  setTimeBlend(timeBlend: number) {
+    this.timeBlend = Math.min(Math.max(timeBlend, 0), 1);
+  }
+
+  private blendRange(current: FlowDataDemention, next: FlowDataDemention): Cartesian2 {
+    const min = current.min! + (next.min! - current.min!) * this.timeBlend;
+    const max = current.max! + (next.max! - current.max!) * this.timeBlend;
+    return new Cartesian2(min, max);
   }
 
   updateOptions(options: Partial<FlowLayerOptions>) {
     const needUpdateWindTextures = options.flipY !== undefined && options.flipY !== this.options.flipY;
+    const seedChanged = 'seed' in options && options.seed !== this.options.seed;
     this.options = deepMerge(options, this.options);
+    if ('seed' in options) this.options.seed = options.seed;
     if (needUpdateWindTextures) {
       this.reCreateWindTextures();
     }
+    if (seedChanged) {
+      this.resetRandom();
+    }
   }
 
   processFlowData(data: {
@@ -359,6 +646,7 @@ export class FlowParticlesComputing {
     Object.values(this.windTextures).forEach(texture => {
       if (texture) texture.destroy();
     });
+    Object.values(this.meshTextures).forEach(texture => texture.destroy());
     Object.values(this.particlesTextures).forEach(texture => texture.destroy());
     Object.values(this.primitives).forEach(primitive => {
       if (primitive) primitive.destroy();
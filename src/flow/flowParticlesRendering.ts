@@ -1,9 +1,10 @@
-import { Geometry, GeometryAttribute, ComponentDatatype, PrimitiveType, GeometryAttributes, Color, Texture, Sampler, TextureMinificationFilter, TextureMagnificationFilter, PixelFormat, PixelDatatype, Framebuffer, Appearance, SceneMode, TextureWrap, VertexArray, BufferUsage, Cartesian2 } from 'cesium';
+import { Geometry, GeometryAttribute, ComponentDatatype, PrimitiveType, GeometryAttributes, Texture, PixelFormat, PixelDatatype, Framebuffer, Appearance, SceneMode, VertexArray, BufferUsage, Cartesian2 } from 'cesium';
 import { type FlowLayerOptions } from './types';
 import { FlowParticlesComputing } from './flowParticlesComputing';
 import CustomPrimitive from './customPrimitive';
 import { ShaderManager } from './shaderManager';
 import { deepMerge } from './utils';
+import { createColorTableTexture } from './colormap';
 import { DefaultOptions } from '.';
 
 export class FlowParticlesRendering {
@@ -72,29 +73,7 @@ export class FlowParticlesRendering {
   }
 
   private createColorTableTexture(): Texture {
-    const colorTableData = new Float32Array(this.options.colors.flatMap(color => {
-      const cesiumColor = Color.fromCssColorString(color);
-      return [cesiumColor.red, cesiumColor.green, cesiumColor.blue, cesiumColor.alpha];
-    }));
-
-    return new Texture({
-      context: this.context,
-      width: this.options.colors.length,
-      height: 1,
-      pixelFormat: PixelFormat.RGBA,
-      pixelDatatype: PixelDatatype.FLOAT,
-      sampler: new Sampler({
-        minificationFilter: TextureMinificationFilter.LINEAR,
-        magnificationFilter: TextureMagnificationFilter.LINEAR,
-        wrapS: TextureWrap.CLAMP_TO_EDGE,
-        wrapT: TextureWrap.CLAMP_TO_EDGE
-      }),
-      source: {
-        width: this.options.colors.length,
-        height: 1,
-        arrayBufferView: colorTableData
-      }
-    });
+    return createColorTableTexture(this.context, this.options.colors);
   }
 
   createSegmentsGeometry(): Geometry {
@@ -225,6 +204,7 @@ aspect: () => {
         },
         is3D: () => this.viewerParameters.sceneMode === SceneMode.SCENE3D,
         segmentsDepthTexture: () => this.textures.segmentsDepth,
+        splitDirection: () => this.options.splitDirection ?? 0,
       },
       vertexShaderSource: ShaderManager.getSegmentDrawVertexShader(),
       fragmentShaderSource: ShaderManager.getSegmentDrawFragmentShader(),
@@ -10,8 +10,11 @@ import {
 import { type FlowLayerOptions, type FlowData, type FlowDataAtLonLat } from './types';
 import { FlowParticleSystem } from './flowParticleSystem';
 import { deepMerge } from './utils';
+import { createLegend, type Legend } from './colormap';
 
 export * from './types';
+export { ScalarLayer, DefaultScalarLayerOptions } from './scalarLayer';
+export type { Legend, LegendStop } from './colormap';
 
 type FlowLayerEventType = 'dataChange' | 'optionsChange';
 type FlowLayerEventCallback = (data: FlowData | FlowLayerOptions) => void;
@@ -30,12 +33,16 @@ export const DefaultOptions: FlowLayerOptions = {
   domain: undefined,
   displayRange: undefined,
   dynamic: true,
+  sampling: 'raster',
 }
 
 export class FlowLayer {
   private _show: boolean = true;
   private _resized: boolean = false;
   flowData: Required<FlowData>;
+  /** Next timestep blended with flowData by timeBlend (same as flowData when not blending) */
+  nextFlowData: Required<FlowData>;
+  timeBlend: number = 0;
 
   get show(): boolean {
     return this._show;
@@ -63,6 +70,10 @@ export class FlowLayer {
   private _isDestroyed: boolean = false;
   private primitives: any[] = [];
   private eventListeners: Map<FlowLayerEventType, Set<FlowLayerEventCallback>> = new Map();
+  // keeps processed objects stable so the computing pass can recognize a field it already uploaded
+  private processedFlowData = new WeakMap<FlowData, Required<FlowData>>();
+  // version of the data currently shown; updates with an older version are ignored
+  private dataVersion = -Infinity;
 
   /**
    * FlowLayer class for visualizing wind field data with particle animation in Cesium.
@@ -82,6 +93,7 @@ export class FlowLayer {
    * @param {boolean} [options.flipY=false] - Whether to flip the Y-axis of the wind data.
    * @param {boolean} [options.useViewerBounds=false] - Whether to use the viewer bounds to generate particles.
    * @param {boolean} [options.dynamic=true] - Whether to enable dynamic particle animation.
+   * @param {number} [options.seed] - Seed for reproducible dropping/spawning (see FlowLayerOptions.seed).
    */
   constructor(viewer: Viewer, flowData: FlowData, options?: Partial<FlowLayerOptions>) {
     this.show = true;
@@ -90,6 +102,7 @@ export class FlowLayer {
     this.options = { ...FlowLayer.defaultOptions, ...options };
     // Initialize with basic flow data first
     this.flowData = this.processFlowData(flowData);
+    this.nextFlowData = this.flowData;
 
     this.viewerParameters = {
       lonRange: new Cartesian2(-180, 180),
@@ -127,6 +140,10 @@ export class FlowLayer {
   }
 
   private processFlowData(flowData: FlowData): Required<FlowData> {
+    const processed = this.processedFlowData.get(flowData);
+    if (processed) return processed;
+    const input = flowData;
+
     // If mask data is not provided, create a default mask with all areas valid (value = 1)
     if (!flowData.mask) {
       const mask = {
@@ -147,6 +164,17 @@ export class FlowLayer {
       flowData.mask.max = max;
     }
 
+    // Without depth information every cell is treated as wet
+    if (!flowData.wetMask) {
+      const wetMask = {
+        array: new Float32Array(flowData.u.array.length).fill(1.0),
+        min: 1.0,
+        max: 1.0
+      };
+      flowData = { ...flowData, wetMask };
+    }
+
+    this.processedFlowData.set(input, flowData as Required<FlowData>);
     return flowData as Required<FlowData>;
   }
 
@@ -155,9 +183,30 @@ export class FlowLayer {
    * @param {number} lon - The longitude.
    * @param {number} lat - The latitude.
    * @returns {Object} - An object containing the u, v, and speed values at the specified coordinates.
+   * Values are blended between flowData and nextFlowData by timeBlend.
    */
   getDataAtLonLat(lon: number, lat: number): FlowDataAtLonLat | null {
-    const { bounds, width, height, u, v, speed } = this.flowData;
+    const current = this.sampleFlowData(this.flowData, lon, lat);
+    if (!current || this.timeBlend === 0 || this.nextFlowData === this.flowData) return current;
+    const next = this.sampleFlowData(this.nextFlowData, lon, lat);
+    if (!next) return current;
+
+    const t = this.timeBlend;
+    const blend = (a: number, b: number) => a + (b - a) * t;
+    const u = blend(current.interpolated.u, next.interpolated.u);
+    const v = blend(current.interpolated.v, next.interpolated.v);
+    return {
+      original: {
+        u: blend(current.original.u, next.original.u),
+        v: blend(current.original.v, next.original.v),
+        speed: blend(current.original.speed, next.original.speed),
+      },
+      interpolated: { u, v, speed: Math.sqrt(u * u + v * v) }
+    };
+  }
+
+  private sampleFlowData(flowData: Required<FlowData>, lon: number, lat: number): FlowDataAtLonLat | null {
+    const { bounds, width, height, u, v, speed } = flowData;
     const { flipY } = this.options;
 
     // Check if the coordinates are within bounds
@@ -317,14 +366,48 @@ export class FlowLayer {
   /**
    * Update the wind data of the wind layer.
    * @param {FlowData} data - The new wind data to apply.
+   * @param {number} [version] - Increasing request number; data older than what is shown is ignored.
+   * @returns {boolean} - false if the update was ignored.
    */
-  updateFlowData(data: FlowData): void {
-    if (this._isDestroyed) return;
-    this.flowData = this.processFlowData(data);
-    this.particleSystem.computing.updateFlowData(this.flowData);
+  updateFlowData(data: FlowData, version?: number): boolean {
+    return this.updateFlowDataPair(data, data, 0, version);
+  }
+
+  /**
+   * Hold two consecutive timesteps and blend them on the GPU.
+   * @param {FlowData} current - Data of the earlier timestep.
+   * @param {FlowData} next - Data of the following timestep (same size as current).
+   * @param {number} timeBlend - Fraction between current (0) and next (1).
+   * @param {number} [version] - Increasing request number; data older than what is shown is ignored.
+   * @returns {boolean} - false if the update was ignored.
+   */
+  updateFlowDataPair(current: FlowData, next: FlowData, timeBlend: number, version?: number): boolean {
+    if (this._isDestroyed) return false;
+    if (version !== undefined) {
+      if (version < this.dataVersion) return false;
+      this.dataVersion = version;
+    }
+    const flowData = this.processFlowData(current);
+    const changed = flowData !== this.flowData;
+    this.flowData = flowData;
+    this.nextFlowData = this.processFlowData(next);
+    this.particleSystem.computing.updateFlowDataPair(this.flowData, this.nextFlowData, timeBlend);
+    this.timeBlend = this.particleSystem.computing.timeBlend;
     this.viewer.scene.requestRender();
     // Dispatch data change event
-    this.dispatchEvent('dataChange', this.flowData);
+    if (changed) this.dispatchEvent('dataChange', this.flowData);
+    return true;
+  }
+
+  /**
+   * Move between the two held timesteps without uploading data.
+   * @param {number} timeBlend - Fraction between flowData (0) and nextFlowData (1).
+   */
+  setTimeBlend(timeBlend: number): void {
+    if (this._isDestroyed) return;
+    this.particleSystem.computing.setTimeBlend(timeBlend);
+    this.timeBlend = this.particleSystem.computing.timeBlend;
+    this.viewer.scene.requestRender();
   }
 
   /**
@@ -334,12 +417,29 @@ export class FlowLayer {
   updateOptions(options: Partial<FlowLayerOptions>): void {
     if (this._isDestroyed) return;
     this.options = deepMerge(options, this.options);
+    // deepMerge skips undefined, but seed: undefined switches back to Math.random
+    if ('seed' in options) this.options.seed = options.seed;
     this.particleSystem.changeOptions(options);
     this.viewer.scene.requestRender();
     // Dispatch options change event
     this.dispatchEvent('optionsChange', this.options);
   }
 
+  /**
+   * Get the legend for the particle speed colormap.
+   * @returns {Legend} - Colors and values over the current speed domain.
+   */
+  getLegend(): Legend {
+    const { colors, domain } = this.options;
+    return createLegend(
+      'Speed',
+      colors,
+      domain?.min ?? this.flowData.speed.min ?? 0,
+      domain?.max ?? this.flowData.speed.max ?? 0,
+      'm/s'
+    );
+  }
+
   /**
    * Zoom to the wind data bounds.
    * @param {number} [duration=0] - The duration of the zoom animation.
@@ -0,0 +1,319 @@
+import {
+  Viewer,
+  Scene,
+  Cartesian2,
+  Rectangle,
+  RectangleGeometry,
+  VertexFormat,
+  GeometryPipeline,
+  PrimitiveType,
+  Appearance,
+  Texture,
+  Sampler,
+  PixelFormat,
+  PixelDatatype,
+  TextureMinificationFilter,
+  TextureMagnificationFilter,
+  type Geometry
+} from 'cesium';
+
+import { type FlowData, type FlowDataDemention, type ScalarFieldName, type ScalarLayerOptions } from './types';
+import CustomPrimitive from './customPrimitive';
+import { ShaderManager } from './shaderManager';
+import { createColorTableTexture, createLegend, type Legend } from './colormap';
+import { deepMerge } from './utils';
+
+export const DefaultScalarLayerOptions: ScalarLayerOptions = {
+  field: 'waterDepth',
+  colors: ['#deebf7', '#6baed6', '#2171b5', '#08306b'],
+  divergingColors: ['#2166ac', '#67a9cf', '#d1e5f0', '#f7f7f7', '#fddbc7', '#ef8a62', '#b2182b'],
+  domain: undefined,
+  opacity: 0.6,
+  height: 0,
+  maskDry: true,
+  units: undefined,
+  splitDirection: undefined,
+}
+
+const FIELD_TITLES: Record<ScalarFieldName, string> = {
+  speed: 'Speed',
+  waterDepth: 'Water depth',
+  waterElevation: 'Water surface elevation',
+  inflowRate: 'Inflow',
+  speedDelta: 'Speed change',
+  waterDepthDelta: 'Water depth change',
+  waterElevationDelta: 'Water surface elevation change',
+};
+
+const FIELD_UNITS: Partial<Record<ScalarFieldName, string>> = {
+  speed: 'm/s',
+  waterDepth: 'm',
+  waterElevation: 'm',
+};
+
+/**
+ * Difference fields and the field whose units they share.
+ */
+const DIFFERENCE_FIELDS: Partial<Record<ScalarFieldName, ScalarFieldName>> = {
+  speedDelta: 'speed',
+  waterDepthDelta: 'waterDepth',
+  waterElevationDelta: 'waterElevation',
+};
+
+/**
+ * ScalarLayer draws one scalar field of FlowData (depth, water surface elevation, inflow, speed)
+ * as a colored semi-transparent surface over the data bounds.
+ * It is drawn before the particles, so FlowLayer particles stay on top.
+ */
+export class ScalarLayer {
+  private _show: boolean = true;
+  private _isDestroyed: boolean = false;
+
+  viewer: Viewer;
+  scene: Scene;
+  options: ScalarLayerOptions;
+  flowData: FlowData;
+
+  private primitive?: CustomPrimitive;
+  private fieldTexture: Texture;
+  private colorTable: Texture;
+  private fieldRange = { min: 0, max: 0 };
+
+  get show(): boolean {
+    return this._show;
+  }
+
+  set show(value: boolean) {
+    this._show = value;
+    if (this.primitive) this.primitive.show = value;
+  }
+
+  /**
+   * @param {Viewer} viewer - The Cesium viewer instance.
+   * @param {FlowData} flowData - Data of the current timestep (same object passed to FlowLayer).
+   * @param {Partial<ScalarLayerOptions>} [options] - Field, colormap and display options.
+   */
+  constructor(viewer: Viewer, flowData: FlowData, options?: Partial<ScalarLayerOptions>) {
+    this.viewer = viewer;
+    this.scene = viewer.scene;
+    this.options = { ...DefaultScalarLayerOptions, ...options };
+    this.flowData = flowData;
+
+    this.fieldTexture = this.createFieldTexture();
+    this.colorTable = createColorTableTexture(this.scene.context, this.getColors());
+    this.add();
+  }
+
+  /**
+   * Update the layer to a new timestep.
+   */
+  updateFlowData(data: FlowData): void {
+    if (this._isDestroyed || data === this.flowData) return;
+    const boundsChanged = JSON.stringify(data.bounds) !== JSON.stringify(this.flowData.bounds);
+    this.flowData = data;
+    this.recreateFieldTexture();
+    if (boundsChanged) {
+      this.remove();
+      this.add();
+    }
+    this.scene.requestRender();
+  }
+
+  /**
+   * Update field, colormap or display options.
+   */
+  updateOptions(options: Partial<ScalarLayerOptions>): void {
+    if (this._isDestroyed) return;
+    const previousColors = this.getColors();
+    const needUpdateField = (options.field !== undefined && options.field !== this.options.field) ||
+      (options.maskDry !== undefined && options.maskDry !== this.options.maskDry);
+    const needUpdateGeometry = options.height !== undefined && options.height !== this.options.height;
+
+    this.options = deepMerge(options, this.options);
+
+    // switching between a regular and a difference field also switches the colormap
+    if (JSON.stringify(this.getColors()) !== JSON.stringify(previousColors)) {
+      this.colorTable.destroy();
+      this.colorTable = createColorTableTexture(this.scene.context, this.getColors());
+    }
+    if (needUpdateField) {
+      this.recreateFieldTexture();
+    }
+    if (needUpdateGeometry) {
+      this.remove();
+      this.add();
+    }
+    this.scene.requestRender();
+  }
+
+  /**
+   * Legend for the current field and colormap.
+   */
+  getLegend(): Legend {
+    const { field, units } = this.options;
+    const [min, max] = this.getDomain();
+    const unitsField = DIFFERENCE_FIELDS[field] ?? field;
+    const fieldUnits = typeof units === 'string' ? units : units?.[field] ?? units?.[unitsField];
+    return createLegend(FIELD_TITLES[field], this.getColors(), min, max, fieldUnits ?? FIELD_UNITS[unitsField]);
+  }
+
+  /**
+   * Add the layer to the scene, below primitives that are already added (e.g. FlowLayer particles).
+   */
+  add(): void {
+    if (this.primitive) return;
+    this.primitive = this.createPrimitive();
+    this.primitive.show = this._show;
+    this.scene.primitives.add(this.primitive, 0);
+  }
+
+  /**
+   * Remove the layer from the scene.
+   */
+  remove(): void {
+    if (!this.primitive) return;
+    // PrimitiveCollection.remove destroys the primitive (destroyPrimitives = true)
+    this.scene.primitives.remove(this.primitive);
+    this.primitive = undefined;
+  }
+
+  isDestroyed(): boolean {
+    return this._isDestroyed;
+  }
+
+  /**
+   * Destroy the layer and release all resources.
+   */
+  destroy(): void {
+    this.remove();
+    this.fieldTexture.destroy();
+    this.colorTable.destroy();
+    this._isDestroyed = true;
+  }
+
+  private getFieldData(): FlowDataDemention | undefined {
+    const { field } = this.options;
+    return field === 'speed' ? this.flowData.speed : this.flowData.scalars?.[field];
+  }
+
+  private isDifferenceField(): boolean {
+    return DIFFERENCE_FIELDS[this.options.field] !== undefined;
+  }
+
+  private getColors(): string[] {
+    return this.isDifferenceField() ? this.options.divergingColors : this.options.colors;
+  }
+
+  /**
+   * Domain mapped to the colormap. Difference fields default to a range symmetric around zero,
+   * so zero always gets the middle (neutral) color.
+   */
+  private getDomain(): [number, number] {
+    const { domain } = this.options;
+    let { min, max } = this.fieldRange;
+    if (this.isDifferenceField()) {
+      const extent = Math.max(Math.abs(min), Math.abs(max)) || 1;
+      min = -extent;
+      max = extent;
+    }
+    return [domain?.min ?? min, domain?.max ?? max];
+  }
+
+  /**
+   * Pack the field into an RG float texture: r = value, g = valid.
+   * Cells outside the mask, NaN cells and (optionally) dry cells are invalid.
+   */
+  private createFieldTexture(): Texture {
+    const { width, height, mask, wetMask } = this.flowData;
+    const source = this.getFieldData();
+    const packed = new Float32Array(width * height * 2);
+    let min = Infinity, max = -Infinity;
+
+    if (!source) {
+      console.warn(`ScalarLayer: field '${this.options.field}' is not available in FlowData`);
+    } else {
+      for (let i = 0; i < width * height; i++) {
+        const value = source.array[i];
+        const valid = !Number.isNaN(value) &&
+          (!mask || mask.array[i] >= 0.5) &&
+          (!this.options.maskDry || !wetMask || wetMask.array[i] >= 0.5);
+        if (!valid) continue;
+        packed[i * 2] = value;
+        packed[i * 2 + 1] = 1;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+    this.fieldRange = min === Infinity ? { min: 0, max: 0 } : { min, max };
+
+    return new Texture({
+      context: this.scene.context,
+      width,
+      height,
+      pixelFormat: PixelFormat.RG,
+      pixelDatatype: PixelDatatype.FLOAT,
+      source: {
+        arrayBufferView: packed
+      },
+      sampler: new Sampler({
+        minificationFilter: TextureMinificationFilter.LINEAR,
+        magnificationFilter: TextureMagnificationFilter.LINEAR
+      })
+    });
+  }
+
+  private recreateFieldTexture() {
+    this.fieldTexture.destroy();
+    this.fieldTexture = this.createFieldTexture();
+  }
+
+  /**
+   * Rectangle over the data bounds with 64-bit positions split into high/low parts (relative-to-eye rendering).
+   */
+  private createSurfaceGeometry(): Geometry {
+    const { west, south, east, north } = this.flowData.bounds;
+    const geometry = RectangleGeometry.createGeometry(new RectangleGeometry({
+      rectangle: Rectangle.fromDegrees(west, south, east, north),
+      height: this.options.height,
+      vertexFormat: VertexFormat.POSITION_AND_ST
+    }));
+    if (!geometry) throw new Error('ScalarLayer: failed to create surface geometry for the data bounds');
+    return GeometryPipeline.encodeAttribute(geometry, 'position', 'positionHigh', 'positionLow');
+  }
+
+  private createPrimitive(): CustomPrimitive {
+    const geometry = this.createSurfaceGeometry();
+    return new CustomPrimitive({
+      commandType: 'Draw',
+      attributeLocations: GeometryPipeline.createAttributeLocations(geometry),
+      geometry,
+      primitiveType: PrimitiveType.TRIANGLES,
+      uniformMap: {
+        scalarField: () => this.fieldTexture,
+        colorTable: () => this.colorTable,
+        domain: () => {
+          const [min, max] = this.getDomain();
+          return new Cartesian2(min, max);
+        },
+        dimension: () => new Cartesian2(this.flowData.width, this.flowData.height),
+        opacity: () => this.options.opacity,
+        splitDirection: () => this.options.splitDirection ?? 0,
+      },
+      vertexShaderSource: ShaderManager.getScalarSurfaceVertexShader(),
+      fragmentShaderSource: ShaderManager.getScalarSurfaceFragmentShader(),
+      // Drawn before the particles in the same pass; no depth writes so particles are never hidden
+      rawRenderState: (Appearance as any).getDefaultRenderState(true, false, {
+        depthTest: {
+          enabled: true
+        },
+        depthMask: false,
+        blending: {
+          enabled: true,
+          blendEquation: WebGLRenderingContext.FUNC_ADD,
+          blendFuncSource: WebGLRenderingContext.SRC_ALPHA,
+          blendFuncDestination: WebGLRenderingContext.ONE_MINUS_SRC_ALPHA
+        }
+      })
+    });
+  }
+}
@@ -4,6 +4,7 @@ import { calculateSpeedShader } from './shaders/calculateSpeed';
 import { dropParticleFragmentShader } from './shaders/dropParticles';
 import { renderParticlesFragmentShader, renderParticlesVertexShader } from './shaders/segmentDraw';
 import { spawnParticlesShader } from './shaders/spawnParticles';
+import { scalarSurfaceFragmentShader, scalarSurfaceVertexShader } from './shaders/scalarSurface';
 
 export class ShaderManager {
   static getCalculateSpeedShader(): ShaderSource {
@@ -42,4 +43,16 @@ export class ShaderManager {
     });
   }
 
+  static getScalarSurfaceVertexShader(): ShaderSource {
+    return new ShaderSource({
+      sources: [scalarSurfaceVertexShader]
+    });
+  }
+
+  static getScalarSurfaceFragmentShader(): ShaderSource {
+    return new ShaderSource({
+      sources: [scalarSurfaceFragmentShader]
+    });
+  }
+
 }
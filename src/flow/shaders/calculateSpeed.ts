@@ -1,8 +1,14 @@
+/** Triangles checked per mesh grid cell on the GPU (the grid is refined until no cell exceeds it) */
+export const MESH_MAX_CELL_TRIANGLES = 64;
+
 export const calculateSpeedShader = /*glsl*/`#version 300 es
 
 // the size of UV textures: width = lon, height = lat
 uniform sampler2D U; // eastward wind
 uniform sampler2D V; // northward wind
+uniform sampler2D nextU; // eastward wind of the next timestep
+uniform sampler2D nextV; // northward wind of the next timestep
+uniform float timeBlend; // 0 = U/V, 1 = nextU/nextV
 uniform sampler2D currentParticlesPosition; // (lon, lat, lev)
 
 uniform vec2 uRange; // (min, max)
@@ -15,6 +21,15 @@ uniform vec2 maximum; // maximum of each dimension
 uniform float speedScaleFactor;
 uniform float frameRateAdjustment;
 
+// sampling: 'mesh' (data textures are read with texelFetch, index i -> (i % width, i / width))
+uniform bool useMesh;
+uniform sampler2D meshNodes; // RG: node position normalized to the bounds
+uniform sampler2D meshTriangles; // RGB: node indices of each triangle
+uniform sampler2D meshCells; // RG: (start, count) in meshCellTriangles, columns x rows
+uniform sampler2D meshCellTriangles; // R: triangle index
+uniform sampler2D meshVelocity; // RG: node (u, v)
+uniform sampler2D nextMeshVelocity; // RG: node (u, v) of the next timestep
+
 in vec2 v_textureCoordinates;
 
 vec2 getInterval(vec2 maximum, vec2 minimum, vec2 dimension) {
@@ -44,9 +59,9 @@ float getWindComponent(sampler2D componentTexture, vec2 lonLat) {
 
 vec2 getWindComponents(vec2 lonLat) {
     vec2 normalizedIndex2D = mapPositionToNormalizedIndex2D(lonLat);
-    float u = texture(U, normalizedIndex2D).r;
-    float v = texture(V, normalizedIndex2D).r;
-    return vec2(u, v);
+    vec2 current = vec2(texture(U, normalizedIndex2D).r, texture(V, normalizedIndex2D).r);
+    vec2 next = vec2(texture(nextU, normalizedIndex2D).r, texture(nextV, normalizedIndex2D).r);
+    return mix(current, next, timeBlend);
 }
 
 vec2 bilinearInterpolation(vec2 lonLat) {
@@ -82,6 +97,59 @@ vec2 bilinearInterpolation(vec2 lonLat) {
     return mix(v0, v1, t);
 }
 
+ivec2 dataTexel(sampler2D data, int index) {
+    int width = textureSize(data, 0).x;
+    return ivec2(index % width, index / width);
+}
+
+vec2 nodePosition(int node) {
+    return texelFetch(meshNodes, dataTexel(meshNodes, node), 0).rg;
+}
+
+vec2 nodeVelocity(int node) {
+    ivec2 texel = dataTexel(meshVelocity, node);
+    return mix(texelFetch(meshVelocity, texel, 0).rg, texelFetch(nextMeshVelocity, texel, 0).rg, timeBlend);
+}
+
+// barycentric interpolation inside the triangle that contains lonLat (GPU version of SpatialGrid.locate)
+vec2 meshInterpolation(vec2 lonLat) {
+    vec2 p = (lonLat - minimum) / (maximum - minimum);
+    if (any(lessThan(p, vec2(0.0))) || any(greaterThan(p, vec2(1.0)))) {
+        return vec2(0.0);
+    }
+
+    ivec2 gridSize = textureSize(meshCells, 0);
+    ivec2 cell = clamp(ivec2(floor(p * vec2(gridSize))), ivec2(0), gridSize - 1);
+    vec2 range = texelFetch(meshCells, cell, 0).rg;
+    int start = int(range.x);
+    int count = int(range.y);
+
+    for (int k = 0; k < ${MESH_MAX_CELL_TRIANGLES}; k++) {
+        if (k >= count) break;
+        int triangle = int(texelFetch(meshCellTriangles, dataTexel(meshCellTriangles, start + k), 0).r);
+        ivec3 n = ivec3(texelFetch(meshTriangles, dataTexel(meshTriangles, triangle), 0).rgb);
+        vec2 a = nodePosition(n.x);
+        vec2 b = nodePosition(n.y);
+        vec2 c = nodePosition(n.z);
+
+        float denom = (b.y - c.y) * (a.x - c.x) + (c.x - b.x) * (a.y - c.y);
+        if (denom == 0.0) continue;
+        float w1 = ((b.y - c.y) * (p.x - c.x) + (c.x - b.x) * (p.y - c.y)) / denom;
+        float w2 = ((c.y - a.y) * (p.x - c.x) + (a.x - c.x) * (p.y - c.y)) / denom;
+        float w3 = 1.0 - w1 - w2;
+        // small tolerance so points on shared edges are not lost to rounding
+        const float epsilon = -1e-5;
+        if (w1 >= epsilon && w2 >= epsilon && w3 >= epsilon) {
+            return w1 * nodeVelocity(n.x) + w2 * nodeVelocity(n.y) + w3 * nodeVelocity(n.z);
+        }
+    }
+    return vec2(0.0);
+}
+
+vec2 sampleVelocity(vec2 lonLat) {
+    return useMesh ? meshInterpolation(lonLat) : bilinearInterpolation(lonLat);
+}
+
 vec2 lengthOfLonLat(vec2 lonLat) {
     // unit conversion: meters -> longitude latitude degrees
     // see https://en.wikipedia.org/wiki/Geographic_coordinate_system#Length_of_a_degree for detail
@@ -118,9 +186,9 @@ vec2 calculateSpeedByRungeKutta2(vec2 lonLat) {
     float scale = speedScaleFactor * 0.1;
 
     vec2 y_n = lonLat;
-    vec2 f_n = bilinearInterpolation(lonLat);
+    vec2 f_n = sampleVelocity(lonLat);
     vec2 midpoint = y_n + 0.5 * h * convertSpeedUnitToLonLat(y_n, f_n) * scale;
-    vec2 speed = h * bilinearInterpolation(midpoint) * scale;
+    vec2 speed = h * sampleVelocity(midpoint) * scale;
 
     return speed;
 }
@@ -145,7 +213,7 @@ void main() {
     vec2 normalizedLonLat = texture(currentParticlesPosition, v_textureCoordinates).rg;
     vec2 lonLat = mix(minimum, maximum, normalizedLonLat);
 
-    vec2 speedOrigin = bilinearInterpolation(lonLat);
+    vec2 speedOrigin = sampleVelocity(lonLat);
     vec2 speed = calculateSpeedByRungeKutta2(lonLat) * frameRateAdjustment;
     vec2 speedInLonLat = convertSpeedUnitToLonLat(lonLat, speed);
 
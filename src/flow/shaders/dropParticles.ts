@@ -3,6 +3,13 @@ precision highp float;
 
 uniform sampler2D nextParticlesPosition;
 uniform sampler2D particlesSpeed; // (u, v, norm)
+uniform sampler2D wetMask; // per-timestep wet/dry mask (0 = dry, 1 = wet)
+uniform sampler2D nextWetMask; // wet/dry mask of the next timestep
+uniform float timeBlend; // 0 = wetMask, 1 = nextWetMask
+
+uniform vec2 dimension; // (lon, lat)
+uniform vec2 minimum; // minimum of each dimension  (lon min, lat min)
+uniform vec2 maximum; // maximum of each dimension (lon max, lat max)
 
 // range (min, max)
 uniform vec2 dataLonRange;
@@ -24,6 +31,31 @@ float rand(vec2 seed, vec2 range) {
     return temp * (range.y - range.x) + range.x;
 }
 
+vec2 getInterval(vec2 maximum, vec2 minimum, vec2 dimension) {
+    return (maximum - minimum) / (dimension - 1.0);
+}
+
+vec2 mapPositionToNormalizedIndex2D(vec2 lonLat) {
+    // ensure the range of longitude and latitude
+    lonLat.x = clamp(lonLat.x, minimum.x, maximum.x);
+    lonLat.y = clamp(lonLat.y, minimum.y, maximum.y);
+
+    vec2 interval = getInterval(maximum, minimum, dimension);
+
+    vec2 index2D = vec2(0.0);
+    index2D.x = (lonLat.x - minimum.x) / interval.x;
+    index2D.y = (lonLat.y - minimum.y) / interval.y;
+
+    vec2 normalizedIndex2D = vec2(index2D.x / dimension.x, index2D.y / dimension.y);
+    return normalizedIndex2D;
+}
+
+float getWetValue(vec2 normalizedLonLat) {
+    vec2 lonLat = mix(minimum, maximum, normalizedLonLat);
+    vec2 normalizedIndex2D = mapPositionToNormalizedIndex2D(lonLat);
+    return mix(texture(wetMask, normalizedIndex2D).r, texture(nextWetMask, normalizedIndex2D).r, timeBlend);
+}
+
 out vec4 fragColor;
 
 void main() {
@@ -35,7 +67,8 @@ void main() {
     vec2 seed = nextParticle.xy + v_textureCoordinates;
     float randomNumber = rand(seed, normalRange);
 
-    if (randomNumber < particleDropRate) {
+    // Particles that moved onto a dry cell are always dropped
+    if (randomNumber < particleDropRate || getWetValue(nextParticle) < 0.5) {
         // Only set reset flag (alpha = 1.0), actual position generation delegated to spawn shader
         fragColor = vec4(nextParticle, 0.0, 1.0);
     } else {
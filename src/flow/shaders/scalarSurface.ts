@@ -0,0 +1,49 @@
+export const scalarSurfaceVertexShader = /*glsl*/`#version 300 es
+precision highp float;
+
+in vec3 positionHigh;
+in vec3 positionLow;
+in vec2 st;
+
+out vec2 v_st;
+
+void main() {
+    v_st = st;
+    // Relative-to-eye position keeps the surface stable at close zoom
+    vec4 positionRelativeToEye = czm_translateRelativeToEye(positionHigh, positionLow);
+    gl_Position = czm_modelViewProjectionRelativeToEye * positionRelativeToEye;
+}
+`;
+
+export const scalarSurfaceFragmentShader = /*glsl*/`#version 300 es
+precision highp float;
+
+uniform sampler2D scalarField; // r = value, g = valid (0 or 1)
+uniform sampler2D colorTable;
+uniform vec2 domain;
+uniform vec2 dimension;
+uniform float opacity;
+uniform float splitDirection; // < 0: left of the splitter only, > 0: right only
+
+in vec2 v_st;
+
+out vec4 fragColor;
+
+void main() {
+    if (splitDirection < 0.0 && gl_FragCoord.x > czm_splitPosition) discard;
+    if (splitDirection > 0.0 && gl_FragCoord.x < czm_splitPosition) discard;
+
+    // st (0..1) -> texel centers of the raster (grid points are at i / (dimension - 1))
+    vec2 uv = (v_st * (dimension - 1.0) + 0.5) / dimension;
+    vec2 field = texture(scalarField, uv).rg;
+    if (field.g < 0.5) {
+        discard;
+    }
+
+    // invalid neighbours are stored as 0, so undo their weight
+    float value = field.r / field.g;
+    float normalizedValue = clamp((value - domain.x) / max(domain.y - domain.x, 1e-6), 0.0, 1.0);
+    vec4 baseColor = texture(colorTable, vec2(normalizedValue, 0.0));
+    fragColor = vec4(baseColor.rgb, baseColor.a * opacity);
+}
+`;
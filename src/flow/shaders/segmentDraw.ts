@@ -188,10 +188,14 @@ uniform vec2 domain;
 uniform vec2 displayRange;
 uniform sampler2D colorTable;
 uniform sampler2D segmentsDepthTexture;
+uniform float splitDirection; // < 0: left of the splitter only, > 0: right only
 
 out vec4 fragColor;
 
 void main() {
+    if (splitDirection < 0.0 && gl_FragCoord.x > czm_splitPosition) discard;
+    if (splitDirection > 0.0 && gl_FragCoord.x < czm_splitPosition) discard;
+
     const float zero = 0.0;
     if(speed.a > zero && speed.b > displayRange.x && speed.b < displayRange.y) {
         float speedLength = clamp(speed.b, domain.x, domain.y);
@@ -3,6 +3,9 @@ precision highp float;
 
 uniform sampler2D currentParticlesPosition;
 uniform sampler2D mask; // mask texture (0 = blocked, 1 = allowed)
+uniform sampler2D wetMask; // per-timestep wet/dry mask (0 = dry, 1 = wet)
+uniform sampler2D nextWetMask; // wet/dry mask of the next timestep
+uniform float timeBlend; // 0 = wetMask, 1 = nextWetMask
 uniform sampler2D seeds; // seeds texture for predefined spawn points
 
 // range (min, max)
@@ -59,6 +62,16 @@ float getMaskValue(vec2 normalizedLonLat) {
     return texture(mask, normalizedIndex2D).r;
 }
 
+float getWetValue(vec2 normalizedLonLat) {
+    vec2 lonLat = mix(minimum, maximum, normalizedLonLat);
+    vec2 normalizedIndex2D = mapPositionToNormalizedIndex2D(lonLat);
+    return mix(texture(wetMask, normalizedIndex2D).r, texture(nextWetMask, normalizedIndex2D).r, timeBlend);
+}
+
+bool isValidPosition(vec2 normalizedLonLat) {
+    return getMaskValue(normalizedLonLat) >= 0.5 && getWetValue(normalizedLonLat) >= 0.5;
+}
+
 vec2 generateRandomParticle(vec2 seed) {
     // Include time in seed for temporal variation
     vec2 timeSeed = seed + vec2(t * 0.001, t * 0.0013);
@@ -86,14 +99,15 @@ void main() {
     vec2 currentPosition = particleData.rg;
     float isResetFromPreviousPass = particleData.a;
     
-    // Check if current position is in a masked area
-    float maskValue = getMaskValue(currentPosition);
-    
-    if (isResetFromPreviousPass > 0.0 || maskValue < 0.5) {
+    // Check if current position is in a masked or dry area
+    if (isResetFromPreviousPass > 0.0 || !isValidPosition(currentPosition)) {
         // Particle was reset in previous pass OR is in blocked area
-        // Generate new valid random position
+        // Generate new valid random position (seeds may fall on cells that are dry at this timestep, so retry a few times)
         vec2 seed = currentPosition + v_textureCoordinates;
         vec2 newPosition = generateRandomParticle(seed);
+        for (int attempt = 1; attempt < 4 && !isValidPosition(newPosition); attempt++) {
+            newPosition = generateRandomParticle(seed + vec2(float(attempt) * 0.37, float(attempt) * 0.71));
+        }
         fragColor = vec4(newPosition, 0.0, 1.0); // 1.0 indicates this is a reset particle
     } else {
         // Particle is in valid area, keep current position
@@ -179,7 +179,7 @@
 // }
 
 
-import { Cartesian3 } from 'cesium';
+import { Cartesian3, type SplitDirection } from 'cesium';
 
 export interface FlowLayerOptions {
   /**
@@ -260,6 +260,24 @@ export interface FlowLayerOptions {
    * When set to false, particles will remain static.
    */
   dynamic: boolean;
+  /**
+   * Side of the scene splitter (scene.splitPosition) the particles are drawn on. Default is SplitDirection.NONE.
+   */
+  splitDirection?: SplitDirection;
+  /**
+   * Seed for the particle random numbers. Default is undefined (Math.random and wall-clock time).
+   * When set, dropping and spawning use a seeded generator, time advances by a fixed 1/60 s per frame
+   * and the frame rate adjustment is fixed to 1, so the same seed and frame sequence always render the same particles.
+   * Changing it restarts the particles.
+   */
+  seed?: number;
+  /**
+   * How particle velocities are sampled. Default is 'raster'.
+   * - 'raster': bilinear interpolation of the u/v rasters
+   * - 'mesh': barycentric interpolation inside the mesh triangle that contains the particle (FlowData.mesh).
+   *   Keeps narrow channels and structures sharp. Falls back to 'raster' for data without a mesh.
+   */
+  sampling?: 'raster' | 'mesh';
 }
 
 export interface FlowDataDemention {
@@ -284,6 +302,40 @@ export interface SeedPoint {
   lat: number;
 }
 
+/**
+ * Unstructured mesh uploaded to the GPU for sampling: 'mesh'. Shared by every timestep of the same mesh.
+ */
+export interface FlowMeshGeometry {
+  /** Node positions normalized to FlowData.bounds (0-1, same space as particle positions): [x0, y0, x1, y1, ...] */
+  nodes: Float32Array;
+  /** Node indices of each triangle: [a0, b0, c0, a1, b1, c1, ...] */
+  triangles: Uint32Array;
+  /**
+   * Uniform grid over the bounds listing the triangles that overlap each cell (row 0 = south).
+   * Cell (col, row) owns triangleIndices[cellStart[i] .. cellStart[i] + cellCount[i]) with i = row * columns + col.
+   */
+  grid: {
+    columns: number;
+    rows: number;
+    cellStart: Uint32Array;
+    cellCount: Uint32Array;
+    triangleIndices: Uint32Array;
+  };
+}
+
+/**
+ * Per-node values of one timestep on a FlowMeshGeometry (NaN = no data, velocity treated as 0 on the GPU).
+ */
+export interface FlowMeshData {
+  geometry: FlowMeshGeometry;
+  u: Float32Array;
+  v: Float32Array;
+  /**
+   * Node values of FlowData.scalars (waterDepth, waterElevation, inflowRate), used by point queries such as the probe.
+   */
+  scalars?: Partial<Record<ScalarFieldName, Float32Array>>;
+}
+
 export interface FlowData {
   u: FlowDataDemention;
   v: FlowDataDemention;
@@ -297,7 +349,79 @@ export interface FlowData {
     north: number;
   };
   mask?: FlowDataDemention;
+  /**
+   * Per-timestep wet/dry mask (1 = wet, 0 = dry) in the same layout as u/v.
+   * Particles are only spawned and kept where both mask and wetMask are valid.
+   */
+  wetMask?: FlowDataDemention;
+  /**
+   * Extra scalar rasters in the same layout as u/v (NaN = no data), drawn by ScalarLayer.
+   */
+  scalars?: Partial<Record<ScalarFieldName, FlowDataDemention>>;
   seeds?: SeedPoint[];
+  /**
+   * Node velocities on the source mesh, used when FlowLayerOptions.sampling is 'mesh'.
+   */
+  mesh?: FlowMeshData;
+}
+
+/**
+ * Scalar fields that ScalarLayer can draw. 'speed' uses FlowData.speed, the others FlowData.scalars.
+ * The ...Delta fields only exist in difference data (computeFlowDifference) and are drawn with divergingColors.
+ */
+export type ScalarFieldName =
+  | 'speed'
+  | 'waterDepth'
+  | 'waterElevation'
+  | 'inflowRate'
+  | 'speedDelta'
+  | 'waterDepthDelta'
+  | 'waterElevationDelta';
+
+export interface ScalarLayerOptions {
+  /**
+   * Field to draw. Default is 'waterDepth'.
+   */
+  field: ScalarFieldName;
+  /**
+   * Colormap as an array of CSS colors, spread evenly over the domain.
+   */
+  colors: string[];
+  /**
+   * Colormap for difference fields (...Delta), spread evenly over a domain centered on zero.
+   * Use an odd number of colors so the middle color is exactly zero.
+   */
+  divergingColors: string[];
+  /**
+   * Value range mapped to the colormap. Defaults to the field's min/max of the current timestep,
+   * or [-m, m] with m = max |value| for difference fields.
+   */
+  domain?: {
+    min?: number;
+    max?: number;
+  };
+  /**
+   * Surface opacity (0-1). Default is 0.6.
+   */
+  opacity: number;
+  /**
+   * Height of the surface above the ellipsoid in meters. Default is 0.
+   * Keep it at or below particleHeight so particles are drawn on top.
+   */
+  height: number;
+  /**
+   * Hide cells that are dry (wetMask = 0) at the current timestep. Default is true.
+   */
+  maskDry: boolean;
+  /**
+   * Units shown in the legend (e.g. 'm', 'm/s'), or units per field
+   * (e.g. from a dataset manifest) so they follow field changes.
+   */
+  units?: string | Partial<Record<ScalarFieldName, string>>;
+  /**
+   * Side of the scene splitter (scene.splitPosition) the surface is drawn on. Default is SplitDirection.NONE.
+   */
+  splitDirection?: SplitDirection;
 }
 
 export interface Particle {
@@ -52,3 +52,20 @@ export function getQuantile(sortedArr: number[], q: number): number {
     return sortedArr[base];
   }
 }
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32).
+ * The same seed always yields the same sequence of values in [0, 1).
+ * @param seed - Any number; only its integer part (mod 2^32) is used.
+ * @returns A function with the same contract as Math.random.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
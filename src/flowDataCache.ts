@@ -0,0 +1,278 @@
+import type { FlowData } from './flow';
+import { isAbortError } from './dataLoad';
+
+/** =========================
+ *  FlowData LRU cache
+ *  - key: dataset(CSV 폴더 또는 .mfts URL) + time index
+ *  - 메모리 예산(byte)을 넘으면 오래 안 쓴 스텝부터 제거 (고정된 스텝, 로드 중인 스텝은 제외)
+ *  - 로드 중인 스텝을 기다리는 요청이 모두 abort되면 로드 자체를 취소
+ *  ========================= */
+export interface FlowDataCacheOptions {
+  /** 메모리 예산 (기본값 512 MB) */
+  maxBytes?: number;
+}
+
+export interface FlowDataCacheStatus {
+  dataset: string;
+  /** 로드 완료된 스텝 (오름차순) */
+  cachedSteps: number[];
+  /** 로드 중인 스텝 (오름차순) */
+  loadingSteps: number[];
+  /** cachedSteps의 연속 구간 [start, end] (time slider의 buffered 표시용) */
+  bufferedRanges: [number, number][];
+  bytes: number;
+  maxBytes: number;
+}
+
+export type FlowDataLoader = (time: number, signal: AbortSignal) => Promise<FlowData>;
+
+export interface FlowDataRequest {
+  dataset: string;
+  time: number;
+  load: FlowDataLoader;
+}
+
+interface CacheEntry {
+  dataset: string;
+  time: number;
+  data: Promise<FlowData>;
+  /** 로드가 끝나기 전에는 undefined */
+  bytes?: number;
+  controller: AbortController;
+  /** 로드를 기다리는 요청 수 (signal 없는 요청이 있으면 Infinity: 취소하지 않음) */
+  waiters: number;
+}
+
+/**
+ * 스텝별로 달라지는 배열의 byte 수 (mask, seeds는 스텝 간 공유되므로 제외)
+ */
+export function estimateFlowDataBytes(data: FlowData): number {
+  const arrays = [data.u, data.v, data.speed, data.wetMask, ...Object.values(data.scalars ?? {})];
+  // 메시 구조(mesh.geometry)도 스텝 간 공유, 노드 값만 포함
+  const meshBytes = data.mesh
+    ? [data.mesh.u, data.mesh.v, ...Object.values(data.mesh.scalars ?? {})].reduce((sum, a) => sum + a.byteLength, 0)
+    : 0;
+  return arrays.reduce((sum, a) => {
+    if (!a) return sum;
+    return sum + (a.array instanceof Float32Array ? a.array.byteLength : a.array.length * 8);
+  }, meshBytes);
+}
+
+function toRanges(steps: number[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const step of steps) {
+    const last = ranges[ranges.length - 1];
+    if (last && step === last[1] + 1) last[1] = step;
+    else ranges.push([step, step]);
+  }
+  return ranges;
+}
+
+export class FlowDataCache {
+  private readonly maxBytes: number;
+  /** Map 순서 = 사용 순서 (앞쪽이 가장 오래 전에 사용) */
+  private entries = new Map<string, CacheEntry>();
+  private pinned = new Set<string>();
+  private bytes = 0;
+  private prefetchGeneration = 0;
+  private prefetchController = new AbortController();
+  private listeners = new Set<() => void>();
+
+  constructor(options: FlowDataCacheOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 512 * 1024 * 1024;
+  }
+
+  private static key(dataset: string, time: number): string {
+    return `${dataset}:${time}`;
+  }
+
+  /**
+   * 캐시된 데이터를 반환하거나 load로 생성해서 캐시
+   * - 로드 중인 스텝을 다시 요청하면 같은 로드를 공유
+   * - 실패/취소된 로드는 캐시하지 않음
+   * @param signal - abort되면 이 요청은 AbortError로 reject. 같은 스텝을 기다리는 다른 요청이 없으면 로드도 취소
+   */
+  public get(dataset: string, time: number, load: FlowDataLoader, signal?: AbortSignal): Promise<FlowData> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const key = FlowDataCache.key(dataset, time);
+    const entry = this.entries.get(key);
+    if (entry) {
+      // 최근 사용으로 이동
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return this.wait(key, entry, signal);
+    }
+
+    const controller = new AbortController();
+    const data = load(time, controller.signal);
+    const newEntry: CacheEntry = { dataset, time, data, controller, waiters: 0 };
+    this.entries.set(key, newEntry);
+    data.then(
+      flowData => {
+        if (this.entries.get(key) !== newEntry) return;
+        newEntry.bytes = estimateFlowDataBytes(flowData);
+        this.bytes += newEntry.bytes;
+        this.evict();
+        this.notify();
+      },
+      () => {
+        if (this.entries.get(key) === newEntry) this.entries.delete(key);
+        this.notify();
+      }
+    );
+    this.notify();
+    return this.wait(key, newEntry, signal);
+  }
+
+  /**
+   * entry의 로드를 기다림. signal이 abort되면 대기만 끝내고, 마지막 대기자였다면 로드를 취소하고 항목 제거
+   */
+  private wait(key: string, entry: CacheEntry, signal?: AbortSignal): Promise<FlowData> {
+    if (entry.bytes !== undefined) return entry.data;
+    if (!signal) {
+      entry.waiters = Infinity;
+      return entry.data;
+    }
+
+    entry.waiters++;
+    return new Promise<FlowData>((resolve, reject) => {
+      const onAbort = () => {
+        entry.waiters--;
+        if (entry.waiters <= 0 && entry.bytes === undefined && this.entries.get(key) === entry) {
+          entry.controller.abort();
+          this.entries.delete(key);
+          this.notify();
+        }
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      entry.data.then(
+        data => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(data);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  public has(dataset: string, time: number): boolean {
+    return this.entries.get(FlowDataCache.key(dataset, time))?.bytes !== undefined;
+  }
+
+  /**
+   * 제거되면 안 되는 스텝 지정 (현재 화면에 쓰는 스텝, 여러 dataset 가능). 이전 지정은 대체됨
+   */
+  public pin(steps: { dataset: string; time: number }[]) {
+    this.pinned = new Set(steps.map(({ dataset, time }) => FlowDataCache.key(dataset, time)));
+  }
+
+  /**
+   * requests 순서대로 하나씩 미리 로드
+   * - 새 prefetch 호출이 오면 이전 대기열은 중단 (이미 로드 중인 스텝은 계속 진행)
+   * - 예산이 가득 차서 이번 대기열의 스텝을 밀어내야 하면 중단
+   */
+  public async prefetch(requests: FlowDataRequest[]): Promise<void> {
+    const generation = ++this.prefetchGeneration;
+    const signal = this.prefetchController.signal;
+    const window = new Set(requests.map(({ dataset, time }) => FlowDataCache.key(dataset, time)));
+
+    for (const { dataset, time, load } of requests) {
+      if (generation !== this.prefetchGeneration) return;
+      const key = FlowDataCache.key(dataset, time);
+      if (this.entries.has(key)) continue;
+      if (!this.canFitAnother(window)) return;
+      try {
+        await this.get(dataset, time, load, signal);
+      } catch (e) {
+        if (!isAbortError(e)) console.warn(`Prefetch failed for time step ${time}:`, e);
+        return;
+      }
+    }
+  }
+
+  /**
+   * 진행 중인 prefetch 대기열 중단 (prefetch로 시작한 로드도 다른 요청이 기다리지 않으면 취소)
+   */
+  public cancelPrefetch() {
+    this.prefetchGeneration++;
+    this.prefetchController.abort();
+    this.prefetchController = new AbortController();
+  }
+
+  public getStatus(dataset: string): FlowDataCacheStatus {
+    const cachedSteps: number[] = [];
+    const loadingSteps: number[] = [];
+    for (const entry of this.entries.values()) {
+      if (entry.dataset !== dataset) continue;
+      (entry.bytes === undefined ? loadingSteps : cachedSteps).push(entry.time);
+    }
+    cachedSteps.sort((a, b) => a - b);
+    loadingSteps.sort((a, b) => a - b);
+    return {
+      dataset,
+      cachedSteps,
+      loadingSteps,
+      bufferedRanges: toRanges(cachedSteps),
+      bytes: this.bytes,
+      maxBytes: this.maxBytes
+    };
+  }
+
+  /**
+   * 캐시 비우기 (dataset 지정 시 해당 dataset만)
+   */
+  public clear(dataset?: string) {
+    for (const [key, entry] of this.entries) {
+      if (dataset !== undefined && entry.dataset !== dataset) continue;
+      this.entries.delete(key);
+      this.bytes -= entry.bytes ?? 0;
+    }
+    this.notify();
+  }
+
+  /**
+   * 캐시 내용이 바뀔 때(로드 시작/완료/제거) 호출
+   */
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private isEvictable(key: string, entry: CacheEntry): boolean {
+    return entry.bytes !== undefined && !this.pinned.has(key);
+  }
+
+  private evict() {
+    for (const [key, entry] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      if (!this.isEvictable(key, entry)) continue;
+      this.entries.delete(key);
+      this.bytes -= entry.bytes!;
+    }
+  }
+
+  /**
+   * 스텝 하나를 더 넣을 공간이 있는지 (prefetch 대기열 밖의 항목을 밀어내서 확보할 수 있으면 true)
+   */
+  private canFitAnother(window: Set<string>): boolean {
+    let loadedCount = 0;
+    for (const entry of this.entries.values()) if (entry.bytes !== undefined) loadedCount++;
+    if (loadedCount === 0) return true;
+    const averageBytes = this.bytes / loadedCount;
+
+    let available = this.maxBytes - this.bytes;
+    for (const [key, entry] of this.entries) {
+      if (available >= averageBytes) break;
+      if (this.isEvictable(key, entry) && !window.has(key)) available += entry.bytes!;
+    }
+    return available >= averageBytes;
+  }
+}
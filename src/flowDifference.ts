@@ -0,0 +1,94 @@
+import type { FlowData, FlowDataDemention } from './flow';
+import { summarizeFlowRaster } from './rasterize';
+
+/** =========================
+ *  Difference field (compare - base)
+ *  - 같은 메시/래스터의 두 FlowData(시나리오 또는 타임스텝) 비교
+ *  - u/v: 벡터 차이 (FlowLayer로 그리면 파티클이 변화 방향으로 흐르고 speed는 |Δv|)
+ *  - scalars: speedDelta(|v₂| - |v₁|), waterDepthDelta, waterElevationDelta (ScalarLayer의 diverging 컬러맵)
+ *  - mesh: 두 FlowData가 같은 메시면 노드 유속 차이 (sampling: 'mesh')
+ *  ========================= */
+
+function subtract(compare: ArrayLike<number>, base: ArrayLike<number>): Float32Array {
+  const result = new Float32Array(base.length);
+  for (let i = 0; i < base.length; i++) result[i] = compare[i] - base[i];
+  return result;
+}
+
+function withMinMax(array: Float32Array): FlowDataDemention {
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < array.length; i++) {
+    const value = array[i];
+    if (Number.isNaN(value)) continue;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return min === Infinity ? { array, min: 0, max: 0 } : { array, min, max };
+}
+
+/**
+ * 두 wet/dry 마스크의 합집합 (한쪽에서만 젖은 셀도 변화가 있으므로 표시)
+ */
+function unionWetMask(base?: FlowDataDemention, compare?: FlowDataDemention): FlowDataDemention | undefined {
+  if (!base || !compare) return undefined;
+  const array = new Float32Array(base.array.length);
+  let min = 1, max = 0;
+  for (let i = 0; i < array.length; i++) {
+    const wet = base.array[i] >= 0.5 || compare.array[i] >= 0.5 ? 1 : 0;
+    array[i] = wet;
+    min = Math.min(min, wet);
+    max = Math.max(max, wet);
+  }
+  return { array, min, max };
+}
+
+/**
+ * compare - base 차이 필드 생성. 결과는 FlowLayer/ScalarLayer에 그대로 넘길 수 있는 FlowData
+ * - mask, seeds는 base 것을 사용
+ * - 한쪽에 없는 스칼라 필드는 결과에서도 제외
+ * @throws 두 FlowData의 래스터 크기나 경계가 다르면 에러
+ */
+export function computeFlowDifference(base: FlowData, compare: FlowData): FlowData {
+  if (base.width !== compare.width || base.height !== compare.height) {
+    throw new Error(
+      `Cannot compare flow data of different sizes: ${base.width}x${base.height} and ${compare.width}x${compare.height}`
+    );
+  }
+  const keys = ['west', 'south', 'east', 'north'] as const;
+  if (keys.some(key => base.bounds[key] !== compare.bounds[key])) {
+    throw new Error('Cannot compare flow data with different bounds (both must come from the same mesh)');
+  }
+
+  const u = subtract(compare.u.array, base.u.array);
+  const v = subtract(compare.v.array, base.v.array);
+  const { speed, stats } = summarizeFlowRaster(u, v);
+
+  const scalars: FlowData['scalars'] = {};
+  if (base.speed && compare.speed) {
+    scalars.speedDelta = withMinMax(subtract(compare.speed.array, base.speed.array));
+  }
+  if (base.scalars?.waterDepth && compare.scalars?.waterDepth) {
+    scalars.waterDepthDelta = withMinMax(subtract(compare.scalars.waterDepth.array, base.scalars.waterDepth.array));
+  }
+  if (base.scalars?.waterElevation && compare.scalars?.waterElevation) {
+    scalars.waterElevationDelta = withMinMax(subtract(compare.scalars.waterElevation.array, base.scalars.waterElevation.array));
+  }
+
+  return {
+    u: { array: u, min: stats.uMin, max: stats.uMax },
+    v: { array: v, min: stats.vMin, max: stats.vMax },
+    speed: { array: speed, min: stats.speedMin, max: stats.speedMax, quantiles: stats.quantiles },
+    width: base.width,
+    height: base.height,
+    bounds: { ...base.bounds },
+    mask: base.mask,
+    wetMask: unionWetMask(base.wetMask, compare.wetMask),
+    scalars,
+    seeds: base.seeds,
+    mesh: base.mesh && compare.mesh && base.mesh.geometry === compare.mesh.geometry ? {
+      geometry: base.mesh.geometry,
+      u: subtract(compare.mesh.u, base.mesh.u),
+      v: subtract(compare.mesh.v, base.mesh.v)
+    } : undefined
+  };
+}
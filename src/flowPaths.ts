@@ -0,0 +1,295 @@
+import type { MeshRasterizer, NodeChannel } from './rasterize';
+
+/** =========================
+ *  Streamlines / pathlines (CPU)
+ *  - 유선(streamline): 한 시점의 유속장을 고정하고 추적
+ *  - 유적선(pathline): 스텝 사이를 선형 블렌딩한 시간에 따라 변하는 유속장으로 추적
+ *  - 적분은 calculateSpeedShader와 같은 RK2 midpoint (시간 간격만 실제 초 단위)
+ *  - 유속은 SpatialGrid로 포함 삼각형을 찾아 노드 값 barycentric 보간 (sampling: 'mesh'와 같음)
+ *  - 메시 밖, 마스크 0, 마른 곳(수심 < minWaterDepth)에 닿으면 정지 (입자와 같은 기준)
+ *  - DOM/Cesium 없이 동작
+ *  ========================= */
+
+export interface FlowPathOptions {
+  /** 적분 한 번에 이동할 거리 (m, 기본값 10). 유속에 맞춰 시간 간격을 정함 */
+  stepLength?: number;
+  /** 시간 간격 상한 (s, 기본값 60, 느린 흐름에서 한 번에 너무 오래 적분하지 않게) */
+  maxTimeStep?: number;
+  /** 경로당 최대 적분 횟수 (기본값 2000) */
+  maxSteps?: number;
+  /** 경로당 최대 시간 (s, 생략 시 제한 없음) */
+  maxDuration?: number;
+  /** 이 유속 미만이면 정지 (m/s, 기본값 0.001) */
+  minSpeed?: number;
+}
+
+export interface StreamlineOptions extends FlowPathOptions {
+  /** backward면 흐름을 거슬러 추적 (time이 음수) */
+  direction?: 'forward' | 'backward';
+}
+
+export interface PathlineOptions extends FlowPathOptions {
+  /** 스텝 번호 → 시각 (s, 기준은 임의). 있으면 구간마다 두 스텝 시각의 차이를 구간 길이로 사용 */
+  stepTime?: (step: number) => number | undefined;
+  /** 스텝 사이 시간 (s). stepTime이 없거나 시각을 모르는 구간에 사용 */
+  stepDuration?: number;
+}
+
+/**
+ * 경로가 끝난 이유
+ * - outside: 메시 밖, masked: 마스크 0, dry: 수심 < minWaterDepth (또는 값 없음), stagnant: 유속 < minSpeed
+ * - maxSteps, maxDuration: 옵션 제한, endOfData: 유적선이 마지막(또는 읽지 못한) 스텝에 도달
+ */
+export type FlowPathEnd = 'outside' | 'masked' | 'dry' | 'stagnant' | 'maxSteps' | 'maxDuration' | 'endOfData';
+
+export interface FlowPath {
+  kind: 'streamline' | 'pathline';
+  /** 시작점 [lon, lat] (starts 배열 순서) */
+  start: [number, number];
+  /** 꼭짓점 [lon, lat] (시작점 포함, 시작점이 메시 밖/마스크 밖이면 비어 있음) */
+  coordinates: [number, number][];
+  /** 꼭짓점 유속 (m/s) */
+  speed: number[];
+  /** 꼭짓점 시간 (s, 시작점 = 0. 유선은 추적 시간, 유적선은 시작 스텝부터 경과 시간) */
+  time: number[];
+  end: FlowPathEnd;
+}
+
+/** 추적에 쓰는 마스크 래스터 (메시 bounds, row 0 = south, 0 = 차단) */
+export interface FlowPathMask {
+  array: ArrayLike<number>;
+  width: number;
+  height: number;
+}
+
+export interface FlowPathTracerOptions {
+  mask?: FlowPathMask;
+  /** 마른 곳 기준 수심 (m, 기본값 0.01) */
+  minWaterDepth?: number;
+}
+
+export interface FlowPathFeature {
+  type: 'Feature';
+  geometry: { type: 'LineString'; coordinates: [number, number][] };
+  properties: {
+    kind: FlowPath['kind'];
+    /** starts 배열 인덱스 */
+    startIndex: number;
+    end: FlowPathEnd;
+    /** 꼭짓점별 값 (coordinates 순서) */
+    speed: number[];
+    time: number[];
+    [key: string]: unknown;
+  };
+}
+
+export interface FlowPathFeatureCollection {
+  type: 'FeatureCollection';
+  features: FlowPathFeature[];
+}
+
+const DEFAULT_STEP_LENGTH = 10;
+const DEFAULT_MAX_TIME_STEP = 60;
+const DEFAULT_MAX_STEPS = 2000;
+const DEFAULT_MIN_SPEED = 0.001;
+
+/**
+ * 위도에서 경도/위도 1도의 길이 (m). calculateSpeedShader의 lengthOfLonLat과 같은 식
+ */
+function lengthOfLonLat(lat: number): [number, number] {
+  const latitude = lat * Math.PI / 180;
+  const latLength = 111132.92 - 559.82 * Math.cos(2 * latitude) + 1.175 * Math.cos(4 * latitude) - 0.0023 * Math.cos(6 * latitude);
+  const longLength = 111412.84 * Math.cos(latitude) - 93.5 * Math.cos(3 * latitude) + 0.118 * Math.cos(5 * latitude);
+  return [longLength, latLength];
+}
+
+/**
+ * m 단위 이동량 → 도 (convertSpeedUnitToLonLat)
+ */
+function metersToLonLat(lat: number, dx: number, dy: number): [number, number] {
+  const [longLength, latLength] = lengthOfLonLat(lat);
+  return [dx / longLength, dy / latLength];
+}
+
+/** 시각 time(s)의 위치에서 유속. 멈춰야 하는 곳이면 그 이유 */
+type VelocityField = (lon: number, lat: number, time: number) => { u: number; v: number } | FlowPathEnd;
+
+export class FlowPathTracer {
+  private readonly rasterizer: MeshRasterizer;
+  private readonly mask?: FlowPathMask;
+  private readonly minWaterDepth: number;
+
+  constructor(rasterizer: MeshRasterizer, options: FlowPathTracerOptions = {}) {
+    this.rasterizer = rasterizer;
+    this.mask = options.mask;
+    this.minWaterDepth = options.minWaterDepth ?? 0.01;
+  }
+
+  /**
+   * 한 시점의 유속장으로 유선 추적
+   * @param channels - 노드 채널 [u, v, waterDepth] (polygon.vertices 순서)
+   */
+  public streamlines(starts: [number, number][], channels: NodeChannel[], options: StreamlineOptions = {}): FlowPath[] {
+    const field = this.nodeField(channels, channels, 0, 1);
+    const until = options.direction === 'backward' ? -Infinity : Infinity;
+    return starts.map(start => {
+      const path = this.begin('streamline', start, field);
+      if (path.coordinates.length > 0) this.advance(path, field, until, options);
+      return path;
+    });
+  }
+
+  /**
+   * 유적선 시작 (시작점 값은 첫 스텝 채널)
+   * - 진행 중인 경로의 end는 'endOfData' (다음 구간이 없으면 그대로 끝)
+   * @param channels - 첫 스텝의 노드 채널 [u, v, waterDepth]
+   */
+  public beginPathlines(starts: [number, number][], channels: NodeChannel[]): FlowPath[] {
+    const field = this.nodeField(channels, channels, 0, 1);
+    return starts.map(start => this.begin('pathline', start, field));
+  }
+
+  /**
+   * 진행 중인 유적선을 두 스텝 사이 구간 [startTime, endTime]만큼 진행
+   * - 구간 안에서는 두 스텝의 노드 값을 시간 비율로 블렌딩 (FlowLayer의 timeBlend와 같음)
+   * @param current - 구간 시작 스텝의 노드 채널, next - 구간 끝 스텝의 노드 채널
+   * @param startTime - 구간 시작 시간 (s, 첫 스텝 = 0)
+   * @returns 아직 진행 중인 경로가 있으면 true
+   */
+  public advancePathlines(
+    paths: FlowPath[],
+    current: NodeChannel[],
+    next: NodeChannel[],
+    startTime: number,
+    endTime: number,
+    options: FlowPathOptions = {}
+  ): boolean {
+    const field = this.nodeField(current, next, startTime, endTime - startTime);
+    let active = false;
+    for (const path of paths) {
+      if (path.end !== 'endOfData' || path.coordinates.length === 0) continue;
+      this.advance(path, field, endTime, options);
+      if (path.end === 'endOfData') active = true;
+    }
+    return active;
+  }
+
+  /**
+   * 시작점 꼭짓점만 있는 경로 (시작점에서 멈춰야 하면 꼭짓점 없이 그 이유로 끝난 경로)
+   */
+  private begin(kind: FlowPath['kind'], start: [number, number], field: VelocityField): FlowPath {
+    const path: FlowPath = { kind, start, coordinates: [], speed: [], time: [], end: 'endOfData' };
+    const sample = field(start[0], start[1], 0);
+    if (typeof sample === 'string') {
+      path.end = sample;
+    } else {
+      path.coordinates.push([start[0], start[1]]);
+      path.speed.push(Math.hypot(sample.u, sample.v));
+      path.time.push(0);
+    }
+    return path;
+  }
+
+  /**
+   * until(s)까지 RK2 midpoint로 적분 (until이 음수면 거슬러 추적)
+   * - until에 닿으면 end는 'endOfData'로 남음 (유적선은 다음 구간에서 이어감)
+   */
+  private advance(path: FlowPath, field: VelocityField, until: number, options: FlowPathOptions) {
+    const stepLength = options.stepLength ?? DEFAULT_STEP_LENGTH;
+    const maxTimeStep = options.maxTimeStep ?? DEFAULT_MAX_TIME_STEP;
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+    const maxDuration = options.maxDuration ?? Infinity;
+    const minSpeed = options.minSpeed ?? DEFAULT_MIN_SPEED;
+    const sign = until < 0 ? -1 : 1;
+
+    for (;;) {
+      const last = path.coordinates.length - 1;
+      const [lon, lat] = path.coordinates[last];
+      const time = path.time[last];
+      if (Math.abs(time) >= maxDuration) return this.finish(path, 'maxDuration');
+      const remaining = Math.min(Math.abs(until - time), maxDuration - Math.abs(time));
+      if (remaining <= 0) return;
+      if (last >= maxSteps) return this.finish(path, 'maxSteps');
+      if (path.speed[last] < minSpeed) return this.finish(path, 'stagnant');
+
+      const f_n = field(lon, lat, time);
+      if (typeof f_n === 'string') return this.finish(path, f_n);
+      // 한 번에 stepLength만큼 이동하는 시간 간격 (구간 끝, maxDuration을 넘지 않게)
+      const dt = sign * Math.min(stepLength / path.speed[last], maxTimeStep, remaining);
+
+      // same as calculateSpeedByRungeKutta2: midpoint = y_n + 0.5 * h * f(y_n), y_n+1 = y_n + h * f(midpoint)
+      const [midLon, midLat] = metersToLonLat(lat, 0.5 * dt * f_n.u, 0.5 * dt * f_n.v);
+      const f_mid = field(lon + midLon, lat + midLat, time + 0.5 * dt);
+      if (typeof f_mid === 'string') return this.finish(path, f_mid);
+      const [stepLon, stepLat] = metersToLonLat(lat, dt * f_mid.u, dt * f_mid.v);
+      const nextLon = lon + stepLon, nextLat = lat + stepLat;
+
+      const f_next = field(nextLon, nextLat, time + dt);
+      if (typeof f_next === 'string') return this.finish(path, f_next);
+      path.coordinates.push([nextLon, nextLat]);
+      path.speed.push(Math.hypot(f_next.u, f_next.v));
+      path.time.push(time + dt);
+    }
+  }
+
+  private finish(path: FlowPath, end: FlowPathEnd) {
+    path.end = end;
+  }
+
+  /**
+   * 두 스텝의 노드 채널을 시간 비율로 블렌딩한 유속장 (current === next면 고정 유속장)
+   * @param startTime - current의 시간 (s), duration - current → next 시간 (s)
+   */
+  private nodeField(current: NodeChannel[], next: NodeChannel[], startTime: number, duration: number): VelocityField {
+    const currentChannels = current.slice(0, 3);
+    const nextChannels = next.slice(0, 3);
+    return (lon, lat, time) => {
+      const location = this.rasterizer.grid.locate(lon, lat);
+      if (!location) return 'outside';
+      if (!this.isAllowed(lon, lat)) return 'masked';
+      let [u, v, waterDepth] = this.rasterizer.interpolate(location, currentChannels);
+      if (next !== current) {
+        const t = Math.min(Math.max((time - startTime) / duration, 0), 1);
+        const [nextU, nextV, nextDepth] = this.rasterizer.interpolate(location, nextChannels);
+        u += (nextU - u) * t;
+        v += (nextV - v) * t;
+        waterDepth += (nextDepth - waterDepth) * t;
+      }
+      // 값이 없는 노드(NaN)가 섞인 삼각형도 마른 곳으로 처리
+      if (!(waterDepth >= this.minWaterDepth) || Number.isNaN(u) || Number.isNaN(v)) return 'dry';
+      return { u, v };
+    };
+  }
+
+  /**
+   * 마스크 래스터 bilinear 샘플 (mask 텍스처의 LINEAR 필터, spawn shader와 같은 0.5 기준)
+   */
+  private isAllowed(lon: number, lat: number): boolean {
+    if (!this.mask) return true;
+    const { width, height, array } = this.mask;
+    const { minLon, maxLon, minLat, maxLat } = this.rasterizer.polygon.bounds;
+    const x = Math.min(Math.max((lon - minLon) / (maxLon - minLon), 0), 1) * (width - 1);
+    const y = Math.min(Math.max((lat - minLat) / (maxLat - minLat), 0), 1) * (height - 1);
+    const x0 = Math.floor(x), y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, width - 1), y1 = Math.min(y0 + 1, height - 1);
+    const wx = x - x0, wy = y - y0;
+    const value = (1 - wx) * (1 - wy) * array[y0 * width + x0] + wx * (1 - wy) * array[y0 * width + x1] +
+      (1 - wx) * wy * array[y1 * width + x0] + wx * wy * array[y1 * width + x1];
+    return value >= 0.5;
+  }
+}
+
+/**
+ * 경로를 GeoJSON FeatureCollection (LineString)으로 변환
+ * - 꼭짓점별 유속/시간은 properties.speed, properties.time 배열 (coordinates와 같은 순서)
+ * - 꼭짓점이 2개 미만인 경로는 LineString이 될 수 없으므로 제외 (startIndex로 시작점 확인)
+ * @param properties - 모든 feature에 추가할 속성 (시나리오, 시작 시각 등)
+ */
+export function flowPathsToGeoJSON(paths: FlowPath[], properties: Record<string, unknown> = {}): FlowPathFeatureCollection {
+  const features = paths.flatMap((path, startIndex): FlowPathFeature[] => path.coordinates.length < 2 ? [] : [{
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: path.coordinates },
+    properties: { ...properties, kind: path.kind, startIndex, end: path.end, speed: path.speed, time: path.time }
+  }]);
+  return { type: 'FeatureCollection', features };
+}
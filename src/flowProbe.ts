@@ -0,0 +1,160 @@
+import type { FlowData } from './flow';
+import type { MeshRasterizer, NodeChannel } from './rasterize';
+import type { PointLocation } from './spatialGrid';
+
+/** =========================
+ *  Point probe (클릭/호버 지점의 수리량 조회)
+ *  - 지점을 포함하는 메시 삼각형을 찾아 노드 값을 barycentric 보간
+ *  - DOM/Cesium 없이 동작
+ *  ========================= */
+
+export interface FlowProbeResult {
+  lon: number;
+  lat: number;
+  /** 포함 삼각형 (polygon.triangles 인덱스, 메시 없이 조회하면 -1) */
+  triangleIndex: number;
+  /** 포함 삼각형의 원본 요소 ID (사각형 요소를 나눈 경우 그 요소) */
+  elementId: number;
+  /** 유속 성분 (m/s, u = 동쪽, v = 북쪽) */
+  u: number;
+  v: number;
+  speed: number;
+  /** 흐름이 향하는 방향 (도, 북쪽 기준 시계방향 0-360). 유속이 0이면 NaN */
+  direction: number;
+  /** 수심 (m) */
+  waterDepth: number;
+  /** 수위 (m) */
+  waterElevation: number;
+  /** 하상고 (m, 메시 노드 z) */
+  bedElevation: number;
+  /**
+   * 값 출처
+   * - mesh: FlowData.mesh의 노드 값 보간
+   * - raster: 노드 값이 없는 데이터(전처리 래스터 run, 차이 필드)의 래스터 bilinear 보간 (하상고는 항상 메시)
+   */
+  source: 'mesh' | 'raster';
+}
+
+/**
+ * 흐름이 향하는 방향 (도, 북쪽 기준 시계방향 0-360). 유속이 0이면 NaN
+ */
+export function flowDirection(u: number, v: number): number {
+  return u === 0 && v === 0 ? NaN : (Math.atan2(u, v) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * 래스터(row 0 = south) bilinear 보간. 네 점 중 NaN이 있으면 NaN
+ */
+function sampleRaster(array: ArrayLike<number>, data: FlowData, lon: number, lat: number): number {
+  const { width, height, bounds } = data;
+  const x = Math.min(Math.max((lon - bounds.west) / (bounds.east - bounds.west), 0), 1) * (width - 1);
+  const y = Math.min(Math.max((lat - bounds.south) / (bounds.north - bounds.south), 0), 1) * (height - 1);
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, width - 1), y1 = Math.min(y0 + 1, height - 1);
+  const wx = x - x0, wy = y - y0;
+  return (1 - wx) * (1 - wy) * array[y0 * width + x0] + wx * (1 - wy) * array[y0 * width + x1] +
+    (1 - wx) * wy * array[y1 * width + x0] + wx * wy * array[y1 * width + x1];
+}
+
+/**
+ * 메시 없이 래스터만으로 조회 (전처리 래스터 run 전용 매니저). 래스터 범위 밖이나 마스크 0이면 null
+ * - triangleIndex, elementId는 -1, 하상고는 수위 - 수심
+ */
+export function probeRaster(lon: number, lat: number, data: FlowData, next: FlowData = data, timeBlend = 0): FlowProbeResult | null {
+  const { bounds } = data;
+  if (lon < bounds.west || lon > bounds.east || lat < bounds.south || lat > bounds.north) return null;
+  if (data.mask && !(sampleRaster(data.mask.array, data, lon, lat) >= 0.5)) return null;
+
+  const t = next === data ? 0 : timeBlend;
+  const sample = (get: (flowData: FlowData) => ArrayLike<number> | undefined) => {
+    const [a, b] = [data, next].map(flowData => {
+      const array = get(flowData);
+      return array ? sampleRaster(array, flowData, lon, lat) : NaN;
+    });
+    return t === 0 ? a : a + (b - a) * t;
+  };
+  const u = sample(flowData => flowData.u.array);
+  const v = sample(flowData => flowData.v.array);
+  const waterDepth = sample(flowData => flowData.scalars?.waterDepth?.array);
+  const waterElevation = sample(flowData => flowData.scalars?.waterElevation?.array);
+  return {
+    lon,
+    lat,
+    triangleIndex: -1,
+    elementId: -1,
+    u,
+    v,
+    speed: Math.hypot(u, v),
+    direction: flowDirection(u, v),
+    waterDepth,
+    waterElevation,
+    bedElevation: waterElevation - waterDepth,
+    source: 'raster'
+  };
+}
+
+export class FlowProbe {
+  private readonly rasterizer: MeshRasterizer;
+  /** 노드 z (polygon.vertices 순서) */
+  private readonly bedElevation: NodeChannel;
+
+  constructor(rasterizer: MeshRasterizer) {
+    this.rasterizer = rasterizer;
+    this.bedElevation = Float32Array.from(rasterizer.polygon.vertices, v => v.z);
+  }
+
+  /**
+   * lon/lat 지점의 값. 메시 밖이면 null
+   * - next, timeBlend를 주면 두 스텝을 FlowLayer와 같은 비율로 블렌딩
+   * - 값이 없는 노드(NaN)가 섞인 삼각형은 해당 값이 NaN
+   */
+  public sample(lon: number, lat: number, data: FlowData, next: FlowData = data, timeBlend = 0): FlowProbeResult | null {
+    const location = this.rasterizer.grid.locate(lon, lat);
+    if (!location) return null;
+
+    const [current, upcoming] = [data, next].map(flowData => this.sampleStep(location, flowData, lon, lat));
+    const t = next === data ? 0 : timeBlend;
+    const blend = (a: number, b: number) => t === 0 ? a : a + (b - a) * t;
+    const u = blend(current.u, upcoming.u);
+    const v = blend(current.v, upcoming.v);
+    const speed = Math.hypot(u, v);
+    const [bedElevation] = this.rasterizer.interpolate(location, [this.bedElevation]);
+
+    return {
+      lon,
+      lat,
+      triangleIndex: location.triangleIndex,
+      elementId: this.rasterizer.polygon.triangles[location.triangleIndex].elementId,
+      u,
+      v,
+      speed,
+      direction: flowDirection(u, v),
+      waterDepth: blend(current.waterDepth, upcoming.waterDepth),
+      waterElevation: blend(current.waterElevation, upcoming.waterElevation),
+      bedElevation,
+      source: current.source === 'mesh' && upcoming.source === 'mesh' ? 'mesh' : 'raster'
+    };
+  }
+
+  private sampleStep(location: PointLocation, data: FlowData, lon: number, lat: number) {
+    const { mesh } = data;
+    if (mesh && mesh.u.length === this.bedElevation.length) {
+      const interpolate = (channel?: NodeChannel) => channel ? this.rasterizer.interpolate(location, [channel])[0] : NaN;
+      return {
+        u: interpolate(mesh.u),
+        v: interpolate(mesh.v),
+        waterDepth: interpolate(mesh.scalars?.waterDepth),
+        waterElevation: interpolate(mesh.scalars?.waterElevation),
+        source: 'mesh' as const
+      };
+    }
+    const sample = (array?: ArrayLike<number>) => array ? sampleRaster(array, data, lon, lat) : NaN;
+    return {
+      u: sample(data.u.array),
+      v: sample(data.v.array),
+      waterDepth: sample(data.scalars?.waterDepth?.array),
+      waterElevation: sample(data.scalars?.waterElevation?.array),
+      source: 'raster' as const
+    };
+  }
+}
@@ -1,54 +1,379 @@
-import { FlowFieldDataManager } from "./dataLoad";
+import { FlowFieldDataManager, isAbortError } from "./dataLoad";
+import { type CrsDefinition } from "./crs";
+import { type SeedStrategy } from "./seeding";
+import { type FlowProbeResult } from "./flowProbe";
+import {
+  POINT_TIME_SERIES_VARIABLES,
+  type PointTimeSeries,
+  type PointTimeSeriesVariable,
+  type TimeSeriesSource
+} from "./pointTimeSeries";
+import { TimeSeriesChart, type TimeSeriesChartData } from "./timeSeriesChart";
+import {
+  CROSS_SECTION_VARIABLES,
+  crossSectionToCsv,
+  type CrossSection,
+  type CrossSectionOptions,
+  type CrossSectionProfile,
+  type CrossSectionVariable,
+  type DischargeTimeSeries
+} from "./crossSection";
+import {
+  flowPathsToGeoJSON,
+  type FlowPath,
+  type FlowPathFeatureCollection,
+  type FlowPathOptions,
+  type StreamlineOptions
+} from "./flowPaths";
+import { type MeshFormat } from "./meshFormats";
+import { type TimeSeriesCsvOptions } from "./timeSeriesCsv";
+import { FlowDataCache, type FlowDataCacheStatus, type FlowDataLoader } from "./flowDataCache";
+import { loadDatasetManifest, type ManifestView, type ResolvedTimestep } from "./manifest";
 import * as Cesium from 'cesium'
-import { FlowLayer, type FlowData, type FlowLayerOptions } from './flow'
-import GUI from 'lil-gui'
+import { FlowLayer, ScalarLayer, type FlowData, type FlowLayerOptions, type ScalarFieldName, type ScalarLayerOptions } from './flow'
+import GUI, { type Controller } from 'lil-gui'
 
 // Helper function to ensure URL path ends with '/'
 function ensureTrailingSlash(url: string): string {
   return url.endsWith('/') ? url : url + '/';
 }
 
+/**
+ * 재생 모드
+ * - once: 마지막 스텝에서 정지
+ * - loop: 마지막 스텝 다음에 첫 스텝으로
+ * - pingpong: 끝에 닿으면 방향을 바꿔 왕복
+ */
+export type PlaybackMode = 'once' | 'loop' | 'pingpong';
+
+export interface TimeChangeEvent {
+  /** 현재 시간 (소수면 두 스텝 블렌딩) */
+  time: number;
+  step: number;
+  timeBlend: number;
+  playing: boolean;
+  /** 실제 시각 (타임스텝 시각이 있을 때만, 두 스텝 사이는 보간) */
+  timestamp?: Date;
+}
+
+/**
+ * 같은 메시를 쓰는 하나의 시뮬레이션 실행 (설계안, 기간 등)
+ * - 타임스텝 위치는 timesteps, binaryUrl, rasterUrl, csvBaseUrl(`${csvBaseUrl}${time}.csv`) 중 하나
+ */
+export interface FlowScenario {
+  name: string;
+  csvBaseUrl?: string;
+  timesteps?: ResolvedTimestep[];
+  binaryUrl?: string;
+  /** CLI(preprocessRun)로 전처리한 래스터 run의 run.json URL */
+  rasterUrl?: string;
+  /** 마지막 time (timesteps가 있으면 그 개수, 생략 시 config.maxTime) */
+  maxTime?: number;
+}
+
+/**
+ * 지점 조회(probe) 방식
+ * - click: 클릭한 지점을 InfoBox(없으면 툴팁)에 표시, 시간이 바뀌면 같은 지점을 다시 조회
+ * - hover: 마우스 위치를 따라다니는 툴팁
+ */
+export type ProbeMode = 'click' | 'hover';
+
+export interface FlowProbeEvent {
+  trigger: ProbeMode;
+  /** 선택한 지점 (지구 표면) */
+  lon: number;
+  lat: number;
+  /** 값을 읽은 시나리오 (swipe 비교 중이면 splitter 오른쪽은 비교 시나리오) */
+  scenario: string;
+  time: number;
+  timestamp?: Date;
+  /** 메시 밖이면 null */
+  result: FlowProbeResult | null;
+}
+
+export interface ScenarioTimeSeriesOptions {
+  /** 시나리오 이름 (생략 시 현재 시나리오) */
+  scenario?: string;
+  /** time 범위 (양 끝 포함, 생략 시 1..maxTime) */
+  start?: number;
+  end?: number;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ScenarioPointTimeSeries extends PointTimeSeries {
+  scenario: string;
+  /** steps의 실제 시각 (타임스텝 시각이 있을 때만) */
+  timestamps?: (Date | undefined)[];
+}
+
+export interface ScenarioDischargeTimeSeries extends DischargeTimeSeries {
+  scenario: string;
+  /** steps의 실제 시각 (타임스텝 시각이 있을 때만) */
+  timestamps?: (Date | undefined)[];
+}
+
+export interface CrossSectionEvent {
+  /** [lon, lat] 꼭짓점 */
+  line: [number, number][];
+  scenario: string;
+  time: number;
+  timestamp?: Date;
+  profile: CrossSectionProfile;
+}
+
+export interface ScenarioPathlineOptions extends ScenarioTimeSeriesOptions, FlowPathOptions {
+  /** 스텝 사이 시간 (s, 생략 시 타임스텝 시각의 간격. 시각이 없으면 필수) */
+  stepDuration?: number;
+}
+
+export interface ScenarioChangeEvent {
+  scenario: string;
+  /** swipe로 splitter 오른쪽에 함께 보여주는 시나리오 */
+  compareScenario?: string;
+}
+
+export interface FlowVisualizationConfig {
+  /** 메시 파일 (모든 시나리오가 rasterUrl이면 읽지 않음) */
+  polygonUrl: string;
+  /** 마스크 이미지 (선택). 생략하면 메시 footprint로 마스크 생성 */
+  maskUrl?: string;
+  /** `${csvBaseUrl}${time}.csv` 형식의 CSV 폴더 (timesteps, binaryUrl, scenarios가 모두 없으면 필수) */
+  csvBaseUrl?: string;
+  /** 초기화 때 읽을 파일 (생략 시 time 1) */
+  initialCsvFile?: string;
+  /** 마지막 time (timesteps가 있으면 그 개수) */
+  maxTime?: number;
+  /** 타임스텝 파일 목록 (time 1 = 첫 항목). 지정하면 csvBaseUrl 대신 사용 */
+  timesteps?: ResolvedTimestep[];
+  crs?: CrsDefinition;
+  meshFormat?: MeshFormat;
+  csvOptions?: Omit<TimeSeriesCsvOptions, 'knownNodeIds'>;
+  /** .mfts 바이너리 URL. 지정하면 타임스텝을 CSV 대신 이 파일에서 읽음 */
+  binaryUrl?: string;
+  /** 전처리된 래스터 run(run.json) URL. 지정하면 CSV 파싱과 래스터화 없이 스텝 래스터를 바로 읽음 (maxTime은 run.json 스텝 목록으로 결정) */
+  rasterUrl?: string;
+  /** 위 타임스텝(csvBaseUrl/timesteps/binaryUrl/rasterUrl)을 등록할 시나리오 이름 (기본값 'default') */
+  scenarioName?: string;
+  /** 추가로 등록할 시나리오 (같은 메시). 위 타임스텝이 없으면 첫 번째가 처음 표시됨 */
+  scenarios?: FlowScenario[];
+  /** 젖은 셀로 보는 최소 수심 (m, 기본값 0.01) */
+  minWaterDepth?: number;
+  /** 래스터 긴 변의 픽셀 수 (기본값 1024). 짧은 변은 메시의 가로/세로 비율(미터 기준)로 결정 */
+  textureSize?: number;
+  /** 목표 래스터 셀 크기 (m). 지정하면 textureSize 대신 사용 */
+  cellSize?: number;
+  /** 스칼라 표면(수심/수위/유입량) 옵션. 지정하면 처음부터 표시, 생략하면 숨김 상태로 생성 */
+  scalarLayer?: Partial<ScalarLayerOptions>;
+  /** 필드별 단위 (범례 표시용) */
+  units?: Partial<Record<ScalarFieldName, string>>;
+  /** setCameraView의 기본 뷰 (생략 시 데이터 경계) */
+  view?: ManifestView;
+  /** 타임스텝 캐시 메모리 예산 (MB, 기본값 512) */
+  cacheBudgetMB?: number;
+  /** 재생/이동 시 미리 로드할 다음 스텝 수 (기본값 4, 0이면 prefetch 안 함) */
+  prefetchCount?: number;
+  /** 지점 조회(probe) 방식. 생략하면 꺼진 상태 (setProbeMode로 변경) */
+  probe?: ProbeMode;
+}
+
+export interface FlowVisualizationEventMap {
+  timeChange: TimeChangeEvent;
+  /** 캐시된/로드 중인 스텝이 바뀔 때 (time slider의 buffered 표시용) */
+  cacheChange: FlowDataCacheStatus;
+  /** 표시 중인 시나리오나 비교 시나리오가 바뀔 때 */
+  scenarioChange: ScenarioChangeEvent;
+  /** probe로 지점을 클릭하거나(click) 마우스를 움직일 때(hover) */
+  probe: FlowProbeEvent;
+  /** 횡단면을 그리거나 setCrossSection으로 지정할 때 */
+  crossSection: CrossSectionEvent;
+}
+
+type RegisteredScenario = FlowScenario & { maxTime: number };
+
+export type FlowVisualizationEventType = keyof FlowVisualizationEventMap;
+export type FlowVisualizationEventCallback<K extends FlowVisualizationEventType = FlowVisualizationEventType> =
+  (event: FlowVisualizationEventMap[K]) => void;
+
 export class FlowVisualizationManager {
   private viewer: Cesium.Viewer;
   private dataManager?: FlowFieldDataManager;
   private flowLayer?: FlowLayer;
+  private scalarLayer?: ScalarLayer;
   private gui: GUI;
   private options: FlowLayerOptions;
   private polygonUrl: string;
-  private maskUrl: string;
-  private csvBaseUrl: string;
-  private initialCsvFile: string;
+  private maskUrl?: string;
+  private initialCsvFile?: string;
+  /** 현재 시나리오의 마지막 time */
   private maxTime: number;
+  private defaultMaxTime?: number;
+  private scenarios = new Map<string, RegisteredScenario>();
+  private activeScenario: string;
+  private compareScenario?: string;
+  // 비교 시나리오 레이어 (splitter 오른쪽)
+  private compareFlowLayer?: FlowLayer;
+  private compareScalarLayer?: ScalarLayer;
+  private splitPosition = 0.5;
+  private swipeHandle?: HTMLElement;
+  private crs?: CrsDefinition;
+  private meshFormat?: MeshFormat;
+  private csvOptions?: Omit<TimeSeriesCsvOptions, 'knownNodeIds'>;
+  private minWaterDepth?: number;
+  private textureSize?: number;
+  private cellSize?: number;
+  private scalarLayerOptions?: Partial<ScalarLayerOptions>;
+  private units: Partial<Record<ScalarFieldName, string>>;
+  private view?: ManifestView;
+  private currentTime = 1;
+  private seedStrategy: SeedStrategy = 'area';
+  /** 생성된 FlowData 캐시 (dataset + step -> FlowData) */
+  private cache: FlowDataCache;
+  private prefetchCount: number;
+  /** 가장 최근 updateFlowData 요청 (새 요청이 오면 abort) */
+  private loadController?: AbortController;
+  private loadSequence = 0;
+  private eventListeners: { [K in FlowVisualizationEventType]?: Set<FlowVisualizationEventCallback<K>> } = {};
+  private timeController?: Controller;
+  private scenarioControllers?: Controller[];
+  private splitController?: Controller;
+
+  // probe
+  private probeMode?: ProbeMode;
+  private probeHandler?: Cesium.ScreenSpaceEventHandler;
+  private probeTooltip?: HTMLElement;
+  /** InfoBox에 표시 중인 click 지점 (시간이 바뀌면 다시 조회) */
+  private probeEntity?: Cesium.Entity;
+  private probePoint?: { lon: number; lat: number; screen: Cesium.Cartesian2 };
+
+  // point time series chart
+  private timeSeriesChart?: TimeSeriesChart;
+  private timeSeriesVariable: PointTimeSeriesVariable = 'speed';
+  private timeSeriesController?: AbortController;
+
+  // cross section
+  private crossSection?: CrossSection;
+  private crossSectionProfile?: CrossSectionProfile;
+  private crossSectionEntity?: Cesium.Entity;
+  private crossSectionChart?: TimeSeriesChart;
+  private crossSectionVariable: CrossSectionVariable = 'waterDepth';
+  /** 분포를 마지막으로 계산한 스텝 데이터와 블렌딩 단계 (같으면 timeChange에서 다시 계산하지 않음) */
+  private crossSectionKey?: { flowData: FlowData; nextFlowData: FlowData; blend: number };
+  /** 그리는 중인 꼭짓점과 마우스 위치 */
+  private crossSectionDraft?: {
+    points: [number, number][];
+    cursor?: [number, number];
+    handler: Cesium.ScreenSpaceEventHandler;
+    resolve: (profile: CrossSectionProfile | null) => void;
+  };
+
+  // streamlines / pathlines
+  private flowPaths: FlowPath[] = [];
+  /** GeoJSON 내보내기용 (시나리오, 시작 시점) */
+  private flowPathProperties: Record<string, unknown> = {};
+  private flowPathEntities: Cesium.Entity[] = [];
+  private flowPathController?: AbortController;
+
+  // playback
+  private playing = false;
+  private playbackRate = 2;
+  private playbackMode: PlaybackMode = 'loop';
+  private playbackDirection: 1 | -1 = 1;
+  private playbackFrame?: number;
+  private lastPlaybackFrameTime?: number;
+  private playbackBusy = false;
+
+  /**
+   * Static factory method: dataset manifest(JSON) URL로 생성 (initialize는 별도로 호출)
+   * @param overrides - manifest 값 대신 쓸 설정 (scalarLayer, cacheBudgetMB 등)
+   * @throws manifest를 읽을 수 없거나 검증에 실패하면 문제 목록을 담은 에러
+   */
+  public static async fromManifest(
+    viewer: Cesium.Viewer,
+    options: FlowLayerOptions,
+    manifestUrl: string,
+    overrides: Partial<FlowVisualizationConfig> = {},
+    signal?: AbortSignal
+  ): Promise<FlowVisualizationManager> {
+    const manifest = await loadDatasetManifest(manifestUrl, signal);
+    console.log(`Dataset manifest loaded: ${manifest.name ?? manifestUrl} (${manifest.scenarios.map(s => `${s.name}: ${s.timesteps.length} timesteps`).join(', ')})`);
+    return new FlowVisualizationManager(viewer, options, {
+      polygonUrl: manifest.polygonUrl,
+      maskUrl: manifest.maskUrl,
+      scenarios: manifest.scenarios,
+      crs: manifest.crs,
+      meshFormat: manifest.meshFormat,
+      csvOptions: manifest.csvOptions,
+      minWaterDepth: manifest.minWaterDepth,
+      units: manifest.units,
+      view: manifest.view,
+      ...overrides
+    });
+  }
 
   constructor(
     viewer: Cesium.Viewer, 
     options: FlowLayerOptions,
-    config: {
-      polygonUrl: string;
-      maskUrl: string;
-      csvBaseUrl: string;
-      initialCsvFile: string;
-      maxTime: number;
-    }
+    config: FlowVisualizationConfig
   ) {
+    const hasTimesteps = config.timesteps !== undefined && config.timesteps.length > 0;
+    const hasBaseSource = hasTimesteps || !!config.binaryUrl || !!config.rasterUrl || !!config.csvBaseUrl;
+    if (!hasBaseSource && !config.scenarios?.length) {
+      throw new Error('FlowVisualizationManager needs timesteps, binaryUrl, rasterUrl, csvBaseUrl or scenarios');
+    }
+
     this.viewer = viewer;
     this.options = options;
     this.polygonUrl = config.polygonUrl;
     this.maskUrl = config.maskUrl;
-    // Ensure csvBaseUrl ends with '/'
-    this.csvBaseUrl = ensureTrailingSlash(config.csvBaseUrl);
-    this.initialCsvFile = config.initialCsvFile;
-    this.maxTime = config.maxTime;
+    this.defaultMaxTime = config.maxTime;
+    if (hasBaseSource) {
+      this.addScenario({
+        name: config.scenarioName ?? 'default',
+        csvBaseUrl: config.csvBaseUrl,
+        timesteps: hasTimesteps ? config.timesteps : undefined,
+        binaryUrl: config.binaryUrl,
+        rasterUrl: config.rasterUrl,
+        maxTime: config.maxTime
+      });
+      this.initialCsvFile = config.initialCsvFile;
+    }
+    config.scenarios?.forEach(scenario => this.addScenario(scenario));
+    this.activeScenario = this.scenarios.keys().next().value!;
+    this.maxTime = this._getScenario().maxTime;
+    this.units = config.units ?? {};
+    this.view = config.view;
+    this.crs = config.crs;
+    this.meshFormat = config.meshFormat;
+    this.csvOptions = config.csvOptions;
+    this.minWaterDepth = config.minWaterDepth;
+    this.textureSize = config.textureSize;
+    this.cellSize = config.cellSize;
+    this.scalarLayerOptions = config.scalarLayer;
+    this.cache = new FlowDataCache({
+      maxBytes: config.cacheBudgetMB !== undefined ? config.cacheBudgetMB * 1024 * 1024 : undefined
+    });
+    this.prefetchCount = config.prefetchCount ?? 4;
+    this.probeMode = config.probe;
+    this.addEventListener('timeChange', this._refreshProbe);
+    this.addEventListener('scenarioChange', this._refreshProbe);
+    this.addEventListener('timeChange', ({ time }) => this.timeSeriesChart?.setCurrentStep(time));
+    this.addEventListener('timeChange', this._refreshCrossSection);
+    this.addEventListener('scenarioChange', this._refreshCrossSection);
+    this.cache.onChange(() => this.dispatchEvent('cacheChange', this.getCacheStatus()));
     this.gui = new GUI();
     this.gui.hide(); // Initially hide the GUI
   }
 
-  public async initialize() {
+  public async initialize(signal?: AbortSignal) {
     try {
       await this._initializeDataManager();
-      const initialData = await this.dataManager!.generateFromCsv(this.initialCsvFile);
+      const initialData = await this._loadInitialData(signal);
+      // 스칼라 표면이 파티클 아래에 그려지도록 FlowLayer보다 먼저 추가
+      this._addScalarLayer(initialData);
       this._addFlowLayer(initialData);
       this._initializeGUI();
+      this.setProbeMode(this.probeMode);
       console.log("FlowVisualizationManager initialized");
       return initialData;
     } catch (e) {
@@ -63,6 +388,28 @@ export class FlowVisualizationManager {
     }
   }
 
+  public setScalarVisible(visible: boolean) {
+    if (this.scalarLayer) {
+      this.scalarLayer.show = visible;
+    }
+    if (this.compareScalarLayer) {
+      this.compareScalarLayer.show = visible;
+    }
+  }
+
+  /**
+   * 스칼라 표면 필드 변경
+   * - ...Delta 필드는 매니저가 표시하는 스텝 데이터에는 없음 (computeFlowDifference 결과를 직접 ScalarLayer로 그릴 것)
+   */
+  public setScalarField(field: ScalarFieldName) {
+    this.scalarLayer?.updateOptions({ field });
+    this.compareScalarLayer?.updateOptions({ field });
+  }
+
+  public getScalarLayer(): ScalarLayer | undefined {
+    return this.scalarLayer;
+  }
+
   public setGuiVisible(visible: boolean) {
     if (visible) {
       this.gui.show();
@@ -71,7 +418,26 @@ export class FlowVisualizationManager {
     }
   }
 
+  /**
+   * 기본 뷰(config.view / manifest view)로 이동. 없으면 데이터 경계에 맞춤
+   */
   public setCameraView() {
+    if (this.view) {
+      const view = this.view;
+      if ('west' in view) {
+        this.viewer.camera.setView({ destination: Cesium.Rectangle.fromDegrees(view.west, view.south, view.east, view.north) });
+      } else {
+        this.viewer.camera.setView({
+          destination: Cesium.Cartesian3.fromDegrees(view.longitude, view.latitude, view.height),
+          orientation: {
+            heading: Cesium.Math.toRadians(view.heading ?? 0),
+            pitch: Cesium.Math.toRadians(view.pitch ?? -90),
+            roll: Cesium.Math.toRadians(view.roll ?? 0)
+          }
+        });
+      }
+      return;
+    }
     if (this.flowLayer && this.flowLayer.flowData) {
       const bounds = this.flowLayer.flowData.bounds;
       const rectangle = Cesium.Rectangle.fromDegrees(
@@ -84,41 +450,1292 @@ export class FlowVisualizationManager {
     }
   }
 
-  public async updateFlowData(time: number, csvBaseUrl:string | undefined = this.csvBaseUrl) {
+  /**
+   * time 시점으로 이동. 소수 time(예: 12.35)은 12, 13 스텝을 GPU에서 0.35 비율로 블렌딩
+   * - 같은 두 스텝 사이에서의 이동은 데이터를 다시 올리지 않고 블렌딩 비율만 바꿈
+   * - 로드된 스텝은 캐시에 남고, 이동 후 재생 방향으로 다음 prefetchCount개 스텝을 미리 로드
+   * - latest-wins: 새 요청이 오면 이전 요청의 로드를 취소하고, 이전 요청은 false로 끝남 (에러 로그 없음)
+   * @param csvBaseUrl - deprecated: 현재 csvBaseUrl 시나리오의 CSV 폴더를 바꿈. 다른 데이터는 addScenario + setScenario 사용
+   * @param signal - 외부에서 이 요청을 취소할 때 사용
+   */
+  public async updateFlowData(time: number, csvBaseUrl?: string, signal?: AbortSignal): Promise<boolean> {
     if(csvBaseUrl) {
-        this.csvBaseUrl = ensureTrailingSlash(csvBaseUrl);
+        const normalized = ensureTrailingSlash(csvBaseUrl);
+        const active = this._getScenario();
+        // timesteps/binaryUrl/rasterUrl 시나리오는 폴더로 바꾸면 시각과 데이터 출처를 잃으므로 거부
+        if (active.timesteps || active.binaryUrl || active.rasterUrl) {
+          console.warn(`updateFlowData(csvBaseUrl) only applies to csvBaseUrl scenarios. Use addScenario and setScenario to show ${normalized}`);
+          return false;
+        }
+        // 다른 폴더를 지정하면 현재 시나리오를 `${csvBaseUrl}${time}.csv`로 전환 (이전 폴더의 캐시는 비움)
+        if (normalized !== active.csvBaseUrl) {
+          this.cache.clear(this._getDatasetKey(active));
+          this.scenarios.set(active.name, { ...active, csvBaseUrl: normalized });
+        }
     }
 
     if (this.dataManager && this.flowLayer) {
+      const scenario = this._getScenario();
+      const compare = this.compareScenario !== undefined ? this._getScenario(this.compareScenario) : undefined;
+      const clampedTime = Math.min(Math.max(time, 1), this.maxTime);
+      const { step, nextStep, timeBlend } = this._splitTime(clampedTime, scenario.maxTime);
+      // 비교 시나리오가 더 짧으면 마지막 스텝에 머묾
+      const compareSteps = compare ? this._splitTime(Math.min(clampedTime, compare.maxTime), compare.maxTime) : undefined;
+
+      const previous = this.loadController;
+      const controller = new AbortController();
+      this.loadController = controller;
+      const sequence = ++this.loadSequence;
+      // 외부 signal이 이 로드보다 오래 살 수 있으므로 로드가 끝나면 리스너를 뗌
+      const onAbort = () => controller.abort();
+      if (signal) {
+        if (signal.aborted) controller.abort();
+        else signal.addEventListener('abort', onAbort, { once: true });
+      }
+
       try {
-        const newFlowData = await this.dataManager.generateFromCsv(this._getCsvUrl(time));
-        this.flowLayer.updateFlowData(newFlowData);
-        console.log(`Updated to time step: ${time}`);
+        const pending = Promise.all([
+          this._getStepData(scenario, step, controller.signal),
+          this._getStepData(scenario, nextStep, controller.signal),
+          ...(compare && compareSteps ? [
+            this._getStepData(compare, compareSteps.step, controller.signal),
+            this._getStepData(compare, compareSteps.nextStep, controller.signal)
+          ] : [])
+        ]);
+        // 새 요청이 같은 스텝을 기다리기 시작한 뒤에 이전 요청을 취소 (공유 중인 로드는 계속 진행)
+        previous?.abort();
+        const [current, next, compareCurrent, compareNext] = await pending;
+        // 기다리는 동안 더 새로운 요청이 왔으면 적용하지 않음
+        if (controller.signal.aborted) return false;
+        this.cache.pin([
+          { dataset: this._getDatasetKey(scenario), time: step },
+          { dataset: this._getDatasetKey(scenario), time: nextStep },
+          ...(compare && compareSteps ? [
+            { dataset: this._getDatasetKey(compare), time: compareSteps.step },
+            { dataset: this._getDatasetKey(compare), time: compareSteps.nextStep }
+          ] : [])
+        ]);
+        this.scalarLayer?.updateFlowData(timeBlend < 0.5 ? current : next);
+        this.flowLayer.updateFlowDataPair(current, next, timeBlend, sequence);
+        // 기다리는 동안 비교가 해제(또는 다른 시나리오로 변경)되었으면 비교 레이어를 다시 만들지 않음
+        if (compare && compareSteps && this.compareScenario === compare.name) {
+          this._updateCompareLayers(compareCurrent, compareNext, compareSteps.timeBlend, sequence);
+        }
+        if (step !== Math.floor(this.currentTime)) {
+          console.log(`Updated to time step: ${step}`);
+        }
+        this.currentTime = clampedTime;
+        this.dispatchEvent('timeChange', {
+          time: clampedTime, step, timeBlend, playing: this.playing, timestamp: this.getTimestamp(clampedTime)
+        });
+        this._prefetch(this.playbackDirection === 1 ? nextStep : step);
+        return true;
       } catch (error) {
+        if (isAbortError(error)) return false;
         console.error(`Failed to load time step ${time}:`, error);
         console.log(`데이터 가져오는데 실패했습니다. 시간 단계 ${time}을 로드할 수 없습니다.`);
+        return false;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
       }
     } else {
       console.log('데이터 매니저나 플로우 레이어가 초기화되지 않았습니다.');
+      return false;
+    }
+  }
+
+  // Public helper to set the current time (fractional values blend two steps) and update data
+  public async setTime(time: number, signal?: AbortSignal) {
+    await this.updateFlowData(time, undefined, signal);
+  }
+
+  public getTime(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * time의 실제 시각 (타임스텝 시각이 없으면 undefined). 소수 time은 두 스텝 시각 사이를 보간
+   */
+  public getTimestamp(time: number = this.currentTime): Date | undefined {
+    const timesteps = this._getScenario().timesteps;
+    if (!timesteps) return undefined;
+    const clampedTime = Math.min(Math.max(time, 1), this.maxTime);
+    const step = Math.floor(clampedTime);
+    const current = timesteps[step - 1]?.timestamp;
+    const next = timesteps[Math.min(step, this.maxTime - 1)]?.timestamp;
+    if (!current || !next) return current;
+    return new Date(current.getTime() + (next.getTime() - current.getTime()) * (clampedTime - step));
+  }
+
+  public getUnits(): Partial<Record<ScalarFieldName, string>> {
+    return { ...this.units };
+  }
+
+  /** =========================
+   *  Playback
+   *  ========================= */
+
+  /**
+   * 재생 시작. 시간은 rate(스텝/초)로 연속적으로 흐르고, 소수 시간은 두 스텝을 블렌딩
+   * - 다음 스텝 데이터가 로드되는 동안에는 시간이 멈춤 (로드가 끝난 뒤 이어서 진행)
+   */
+  public play() {
+    if (this.playing) return;
+    if (this.playbackMode === 'once' && this.currentTime >= this.maxTime) {
+      this.currentTime = 1;
+    }
+    this.playing = true;
+    this.lastPlaybackFrameTime = undefined;
+    this.playbackFrame = requestAnimationFrame(this._playbackTick);
+  }
+
+  public pause() {
+    this.playing = false;
+    if (this.playbackFrame !== undefined) {
+      cancelAnimationFrame(this.playbackFrame);
+      this.playbackFrame = undefined;
+    }
+  }
+
+  public isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * 다음 정수 스텝으로 이동 (재생 중이면 정지)
+   */
+  public async stepForward() {
+    this.pause();
+    const step = Math.floor(this.currentTime) + 1;
+    await this.setTime(step > this.maxTime ? (this.playbackMode === 'loop' ? 1 : this.maxTime) : step);
+  }
+
+  /**
+   * 이전 정수 스텝으로 이동 (재생 중이면 정지)
+   */
+  public async stepBack() {
+    this.pause();
+    const step = Math.ceil(this.currentTime) - 1;
+    await this.setTime(step < 1 ? (this.playbackMode === 'loop' ? this.maxTime : 1) : step);
+  }
+
+  /**
+   * @param rate - 초당 스텝 수 (0보다 커야 함)
+   */
+  public setPlaybackRate(rate: number) {
+    if (!(rate > 0)) throw new Error(`Playback rate must be greater than 0: ${rate}`);
+    this.playbackRate = rate;
+  }
+
+  public getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  public setPlaybackMode(mode: PlaybackMode) {
+    this.playbackMode = mode;
+    if (mode !== 'pingpong') this.playbackDirection = 1;
+  }
+
+  public getPlaybackMode(): PlaybackMode {
+    return this.playbackMode;
+  }
+
+  private _playbackTick = (now: number) => {
+    if (!this.playing) return;
+    const elapsed = this.lastPlaybackFrameTime === undefined ? 0 : (now - this.lastPlaybackFrameTime) / 1000;
+    this.lastPlaybackFrameTime = now;
+
+    // 로드 중에는 시간을 쌓지 않음 (로드가 끝나도 한 번에 건너뛰지 않도록)
+    if (!this.playbackBusy && elapsed > 0) {
+      const nextTime = this._advancePlaybackTime(this.currentTime + this.playbackDirection * this.playbackRate * Math.min(elapsed, 0.25));
+      this.playbackBusy = true;
+      const sequence = this.loadSequence + 1;
+      this.updateFlowData(nextTime).then(ok => {
+        this.playbackBusy = false;
+        // 슬라이더 등 더 새로운 요청에 밀려 취소된 경우는 계속 재생
+        if (!ok && this.loadSequence !== sequence) return;
+        if (!ok) {
+          console.warn('Playback paused: failed to load time step', nextTime);
+          this.pause();
+        } else if (this.playbackMode === 'once' && nextTime >= this.maxTime) {
+          this.pause();
+        }
+      });
+    }
+
+    if (this.playing) {
+      this.playbackFrame = requestAnimationFrame(this._playbackTick);
+    }
+  };
+
+  /**
+   * 범위를 벗어난 시간을 재생 모드에 맞게 되돌림
+   */
+  private _advancePlaybackTime(time: number): number {
+    const first = 1, last = this.maxTime;
+    if (time > last) {
+      if (this.playbackMode === 'loop') return first + (time - last) % Math.max(last - first, 1);
+      if (this.playbackMode === 'pingpong') {
+        this.playbackDirection = -1;
+        return Math.max(first, last - (time - last));
+      }
+      return last;
+    }
+    if (time < first) {
+      if (this.playbackMode === 'pingpong') {
+        this.playbackDirection = 1;
+        return Math.min(last, first + (first - time));
+      }
+      return first;
+    }
+    return time;
+  }
+
+  /**
+   * 이벤트 리스너 등록
+   * - timeChange: 시간이 실제로 바뀐 뒤(데이터 로드 완료 후) 호출
+   */
+  public addEventListener<K extends FlowVisualizationEventType>(type: K, callback: FlowVisualizationEventCallback<K>) {
+    // K 하나로 좁혀야 ??=로 새 Set을 넣을 수 있음 (키 전체의 유니온이면 교집합 타입이 됨)
+    const listeners: { [T in K]?: Set<FlowVisualizationEventCallback<T>> } = this.eventListeners;
+    (listeners[type] ??= new Set()).add(callback);
+  }
+
+  public removeEventListener<K extends FlowVisualizationEventType>(type: K, callback: FlowVisualizationEventCallback<K>) {
+    this.eventListeners[type]?.delete(callback);
+  }
+
+  private dispatchEvent<K extends FlowVisualizationEventType>(type: K, event: FlowVisualizationEventMap[K]) {
+    this.eventListeners[type]?.forEach(callback => callback(event));
+  }
+
+  /** =========================
+   *  Scenarios
+   *  ========================= */
+
+  /**
+   * 시나리오 등록 (메시는 공유하고 타임스텝만 다름)
+   * @throws 이름이 비었거나 중복이면, 또는 타임스텝 위치/maxTime이 없으면 에러
+   */
+  public addScenario(scenario: FlowScenario) {
+    if (!scenario.name) throw new Error('Scenario name must not be empty');
+    if (this.scenarios.has(scenario.name)) throw new Error(`Scenario already exists: ${scenario.name}`);
+    const timesteps = scenario.timesteps?.length ? scenario.timesteps : undefined;
+    if (!timesteps && !scenario.binaryUrl && !scenario.rasterUrl && !scenario.csvBaseUrl) {
+      throw new Error(`Scenario ${scenario.name} needs timesteps, binaryUrl, rasterUrl or csvBaseUrl`);
+    }
+    if (this.dataManager && !this.dataManager.hasMesh && !scenario.rasterUrl) {
+      throw new Error(`Scenario ${scenario.name} needs the mesh, but only preprocessed raster runs were loaded`);
+    }
+    // 래스터 run은 run.json의 스텝 목록으로 다시 정함 (_resolveRasterRunMaxTime)
+    const maxTime = timesteps?.length ?? scenario.maxTime ?? this.defaultMaxTime ?? (scenario.rasterUrl ? 1 : undefined);
+    if (!(maxTime! >= 1)) {
+      throw new Error(`maxTime of scenario ${scenario.name} must be at least 1: ${maxTime}`);
+    }
+    this.scenarios.set(scenario.name, {
+      ...scenario,
+      csvBaseUrl: scenario.csvBaseUrl ? ensureTrailingSlash(scenario.csvBaseUrl) : undefined,
+      timesteps,
+      maxTime: maxTime!
+    });
+    this._updateScenarioControllers();
+  }
+
+  /**
+   * 시나리오 등록 해제 (표시 중인 시나리오는 제거할 수 없음, 비교 중이면 비교 해제)
+   */
+  public removeScenario(name: string) {
+    if (name === this.activeScenario) throw new Error(`Cannot remove the active scenario: ${name}`);
+    if (!this.scenarios.has(name)) return;
+    if (name === this.compareScenario) void this.setCompareScenario(undefined);
+    this.cache.clear(this._getDatasetKey(this.scenarios.get(name)!));
+    this.scenarios.delete(name);
+    this._updateScenarioControllers();
+  }
+
+  public getScenarios(): FlowScenario[] {
+    return [...this.scenarios.values()].map(scenario => ({ ...scenario }));
+  }
+
+  public getActiveScenario(): string {
+    return this.activeScenario;
+  }
+
+  public getCompareScenario(): string | undefined {
+    return this.compareScenario;
+  }
+
+  /**
+   * 표시할 시나리오 변경. 같은 time index를 유지 (새 시나리오가 더 짧으면 마지막 스텝으로)
+   * @returns 데이터가 적용되면 true (더 새로운 요청에 밀리거나 로드에 실패하면 false)
+   * @throws 등록되지 않은 시나리오면 에러
+   */
+  public async setScenario(name: string): Promise<boolean> {
+    this._getScenario(name);
+    if (!await this._tryResolveRasterRunMaxTime(name)) return false;
+    const scenario = this._getScenario(name);
+    this.activeScenario = name;
+    this.maxTime = scenario.maxTime;
+    this.timeController?.max(this.maxTime);
+    this._updateScenarioControllers();
+    const ok = await this.updateFlowData(Math.min(this.currentTime, this.maxTime));
+    this.dispatchEvent('scenarioChange', { scenario: name, compareScenario: this.compareScenario });
+    return ok;
+  }
+
+  /**
+   * splitter 오른쪽에 비교 시나리오를 같은 시간으로 표시 (swipe). undefined면 비교 해제
+   * - 현재 시나리오는 splitter 왼쪽, 비교 시나리오는 오른쪽에 그려짐
+   */
+  public async setCompareScenario(name: string | undefined): Promise<boolean> {
+    if (name !== undefined) {
+      this._getScenario(name);
+      if (!await this._tryResolveRasterRunMaxTime(name)) return false;
+    }
+    this.compareScenario = name;
+    this._updateScenarioControllers();
+
+    let ok = true;
+    if (name === undefined) {
+      this._destroyCompareLayers();
+      this.viewer.scene.splitPosition = 0;
+      this._setSwipeHandleVisible(false);
+    } else {
+      this.viewer.scene.splitPosition = this.splitPosition;
+      this._setSwipeHandleVisible(true);
+      ok = await this.updateFlowData(this.currentTime);
+    }
+    this.dispatchEvent('scenarioChange', { scenario: this.activeScenario, compareScenario: name });
+    return ok;
+  }
+
+  /**
+   * swipe splitter 위치 (0 = 왼쪽 끝, 1 = 오른쪽 끝)
+   */
+  public setSplitPosition(position: number) {
+    this.splitPosition = Math.min(Math.max(position, 0), 1);
+    if (this.compareScenario !== undefined) {
+      this.viewer.scene.splitPosition = this.splitPosition;
+    }
+    if (this.swipeHandle) {
+      this.swipeHandle.style.left = `${this.splitPosition * 100}%`;
     }
+    // swipe 막대를 드래그해도 슬라이더가 따라가도록
+    this.splitController?.setValue(this.splitPosition);
   }
 
-  // Public helper to set the current time step and update data
-  public async setTime(time: number) {
-    await this.updateFlowData(time);
+  public getSplitPosition(): number {
+    return this.splitPosition;
   }
 
-  private _getCsvUrl(time: number): string {
-    return `${this.csvBaseUrl}${time}.csv`;
+  /**
+   * 래스터 run 시나리오의 maxTime을 run.json 스텝 목록(가장 큰 스텝 번호)으로 설정 (config maxTime보다 우선)
+   */
+  private async _resolveRasterRunMaxTime(name: string) {
+    const scenario = this._getScenario(name);
+    if (!scenario.rasterUrl || !this.dataManager) return;
+    const reader = await this.dataManager.getRasterRunReader(scenario.rasterUrl);
+    // 기다리는 동안 제거/재등록된 시나리오는 건드리지 않음
+    if (this.scenarios.get(name) !== scenario) return;
+    scenario.maxTime = Math.max(...reader.steps.map(step => step.index));
+    if (name === this.activeScenario) {
+      this.maxTime = scenario.maxTime;
+      this.timeController?.max(this.maxTime);
+    }
+  }
+
+  /**
+   * 시나리오 전환 전 maxTime 확정. run.json을 읽지 못하면 로그 후 false (GUI 선택은 현재 시나리오로 되돌림)
+   */
+  private async _tryResolveRasterRunMaxTime(name: string): Promise<boolean> {
+    try {
+      await this._resolveRasterRunMaxTime(name);
+      return true;
+    } catch (error) {
+      console.error(`Failed to load scenario ${name}:`, error);
+      this._updateScenarioControllers();
+      return false;
+    }
+  }
+
+  private _getScenario(name: string = this.activeScenario): RegisteredScenario {
+    const scenario = this.scenarios.get(name);
+    if (!scenario) throw new Error(`Unknown scenario: ${name}`);
+    return scenario;
+  }
+
+  /**
+   * 소수 time을 블렌딩할 두 스텝과 비율로 분리
+   */
+  private _splitTime(time: number, maxTime: number) {
+    const step = Math.floor(time);
+    return { step, nextStep: Math.min(step + 1, maxTime), timeBlend: time - step };
+  }
+
+  /**
+   * 비교 레이어 갱신 (처음 호출 시 생성하고 기존 레이어를 splitter 왼쪽으로 제한)
+   */
+  private _updateCompareLayers(current: FlowData, next: FlowData, timeBlend: number, sequence: number) {
+    const scalarData = timeBlend < 0.5 ? current : next;
+    if (!this.compareFlowLayer) {
+      if (this.scalarLayer) {
+        this.compareScalarLayer = new ScalarLayer(this.viewer, scalarData, {
+          ...this.scalarLayer.options,
+          splitDirection: Cesium.SplitDirection.RIGHT
+        });
+        this.compareScalarLayer.show = this.scalarLayer.show;
+        this.scalarLayer.updateOptions({ splitDirection: Cesium.SplitDirection.LEFT });
+      }
+      this.compareFlowLayer = new FlowLayer(this.viewer, current, {
+        ...this.flowLayer!.options,
+        splitDirection: Cesium.SplitDirection.RIGHT
+      });
+      this.compareFlowLayer.show = this.flowLayer!.show;
+      this.flowLayer!.updateOptions({ splitDirection: Cesium.SplitDirection.LEFT });
+    } else {
+      this.compareScalarLayer?.updateFlowData(scalarData);
+    }
+    this.compareFlowLayer.updateFlowDataPair(current, next, timeBlend, sequence);
+  }
+
+  private _destroyCompareLayers() {
+    this.compareFlowLayer?.destroy();
+    this.compareScalarLayer?.destroy();
+    this.compareFlowLayer = undefined;
+    this.compareScalarLayer = undefined;
+    this.flowLayer?.updateOptions({ splitDirection: Cesium.SplitDirection.NONE });
+    this.scalarLayer?.updateOptions({ splitDirection: Cesium.SplitDirection.NONE });
+  }
+
+  /**
+   * 드래그로 splitter를 옮기는 세로 막대 (viewer 컨테이너 위에 표시)
+   */
+  private _setSwipeHandleVisible(visible: boolean) {
+    if (!this.swipeHandle) {
+      if (!visible) return;
+      const handle = document.createElement('div');
+      Object.assign(handle.style, {
+        position: 'absolute', top: '0', bottom: '0', width: '4px', marginLeft: '-2px',
+        background: 'rgba(255, 255, 255, 0.8)', cursor: 'ew-resize', zIndex: '10', touchAction: 'none'
+      });
+      const container = this.viewer.container as HTMLElement;
+      handle.addEventListener('pointerdown', event => {
+        handle.setPointerCapture(event.pointerId);
+        const onMove = (e: PointerEvent) => {
+          const rect = container.getBoundingClientRect();
+          this.setSplitPosition((e.clientX - rect.left) / rect.width);
+        };
+        const onUp = () => {
+          handle.removeEventListener('pointermove', onMove);
+          handle.removeEventListener('pointerup', onUp);
+        };
+        handle.addEventListener('pointermove', onMove);
+        handle.addEventListener('pointerup', onUp);
+      });
+      container.appendChild(handle);
+      this.swipeHandle = handle;
+      this.setSplitPosition(this.splitPosition);
+    }
+    this.swipeHandle.style.display = visible ? 'block' : 'none';
+  }
+
+  /**
+   * GUI의 시나리오 선택 목록/값 갱신
+   */
+  private _updateScenarioControllers() {
+    if (!this.scenarioControllers) return;
+    const [scenarioController, compareController] = this.scenarioControllers;
+    const names = [...this.scenarios.keys()];
+    scenarioController.options(names).setValue(this.activeScenario);
+    compareController.options(['none', ...names]).setValue(this.compareScenario ?? 'none');
+  }
+
+  /** =========================
+   *  Seeding
+   *  ========================= */
+
+  /**
+   * 파티클 seed를 전략에 따라 다시 만들고 현재 시점을 다시 로드
+   * - 캐시된 스텝은 이전 seeds를 가지고 있으므로 캐시를 비움
+   * - velocity / inflow는 현재 표시 중인 스텝의 노드 유속/inflowRate 기준 (CSV/.mfts 스텝이 아니면 area)
+   * - 메시 없이 초기화한 경우(모든 시나리오가 래스터 run)는 seeds가 run에 고정되어 있으므로 경고 후 false
+   * @param count - seed 개수 (생략 시 초기화 때의 numSeeds)
+   */
+  public async regenerateSeeds(strategy: SeedStrategy = 'area', count?: number): Promise<boolean> {
+    if (!this.dataManager) throw new Error('FlowVisualizationManager is not initialized');
+    if (!this.dataManager.hasMesh) {
+      console.warn('Seed generation needs the mesh. The preprocessed raster run seeds are kept');
+      return false;
+    }
+    const mesh = this.flowLayer?.flowData.mesh;
+    this.dataManager.regenerateSeeds(strategy, count, mesh ? {
+      nodeVelocities: { u: mesh.u, v: mesh.v },
+      nodeInflowRates: mesh.scalars?.inflowRate
+    } : {});
+    this.seedStrategy = strategy;
+    this.clearCache();
+    return this.updateFlowData(this.currentTime);
+  }
+
+  public getSeedStrategy(): SeedStrategy {
+    return this.seedStrategy;
+  }
+
+  /** =========================
+   *  Probe
+   *  ========================= */
+
+  /**
+   * 화면에 표시 중인 시점(블렌딩 포함)의 lon/lat 지점 값. 메시 밖이거나 초기화 전이면 null
+   * @param scenario - 'compare'면 swipe 비교 시나리오 값 (비교 중이 아니면 현재 시나리오)
+   */
+  public probeAt(lon: number, lat: number, scenario: 'active' | 'compare' = 'active'): FlowProbeResult | null {
+    const layer = scenario === 'compare' && this.compareFlowLayer ? this.compareFlowLayer : this.flowLayer;
+    if (!this.dataManager || !layer) return null;
+    return this.dataManager.probeAt(lon, lat, layer.flowData, layer.nextFlowData, layer.timeBlend);
+  }
+
+  /**
+   * 지점 조회 방식 변경 (undefined면 끔). 결과는 툴팁/InfoBox와 'probe' 이벤트로 전달
+   */
+  public setProbeMode(mode: ProbeMode | undefined) {
+    this.probeMode = mode;
+    this.probeHandler?.destroy();
+    this.probeHandler = undefined;
+    this._clearProbe();
+    if (!mode || !this.flowLayer) return;
+
+    const handler = new Cesium.ScreenSpaceEventHandler(this.viewer.scene.canvas);
+    if (mode === 'click') {
+      handler.setInputAction((event: Cesium.ScreenSpaceEventHandler.PositionedEvent) => {
+        this._probe(event.position, 'click');
+      }, Cesium.ScreenSpaceEventType.LEFT_CLICK);
+    } else {
+      handler.setInputAction((event: Cesium.ScreenSpaceEventHandler.MotionEvent) => {
+        this._probe(event.endPosition, 'hover');
+      }, Cesium.ScreenSpaceEventType.MOUSE_MOVE);
+    }
+    this.probeHandler = handler;
   }
 
+  public getProbeMode(): ProbeMode | undefined {
+    return this.probeMode;
+  }
+
+  private _probe(screen: Cesium.Cartesian2, trigger: ProbeMode) {
+    // 횡단면을 그리는 동안의 클릭은 꼭짓점 입력
+    if (this.crossSectionDraft) return;
+    const position = this._pickLonLat(screen);
+    if (!position) {
+      this._clearProbe();
+      return;
+    }
+    const event = this._probeEvent(position.lon, position.lat, screen, trigger);
+    if (trigger === 'click') {
+      this.probePoint = event.result ? { ...position, screen: Cesium.Cartesian2.clone(screen) } : undefined;
+      // 차트가 열려 있으면 클릭한 지점의 시계열로 바꿈
+      if (event.result && this.timeSeriesChart?.visible) void this.plotTimeSeries(position.lon, position.lat);
+    }
+    this._showProbe(event, screen);
+    this.dispatchEvent('probe', event);
+  }
+
+  /**
+   * 시간이 바뀌면 click으로 고정한 지점을 다시 조회 (이벤트는 보내지 않고 표시만 갱신)
+   */
+  private _refreshProbe = () => {
+    if (this.probeMode !== 'click' || !this.probePoint) return;
+    const { lon, lat, screen } = this.probePoint;
+    this._showProbe(this._probeEvent(lon, lat, screen, 'click'), screen);
+  };
+
+  private _probeEvent(lon: number, lat: number, screen: Cesium.Cartesian2, trigger: ProbeMode): FlowProbeEvent {
+    // swipe 비교 중이면 splitter 오른쪽은 비교 시나리오
+    const canvas = this.viewer.scene.canvas;
+    const compare = this.compareScenario !== undefined && this.compareFlowLayer !== undefined &&
+      screen.x > this.splitPosition * canvas.clientWidth;
+    return {
+      trigger,
+      lon,
+      lat,
+      scenario: compare ? this.compareScenario! : this.activeScenario,
+      time: this.currentTime,
+      timestamp: this.getTimestamp(),
+      result: this.probeAt(lon, lat, compare ? 'compare' : 'active')
+    };
+  }
+
+  /**
+   * 화면 좌표 -> 지표면 lon/lat (지형이 없으면 타원체)
+   */
+  private _pickLonLat(screen: Cesium.Cartesian2): { lon: number; lat: number } | undefined {
+    const { scene, camera } = this.viewer;
+    const ray = camera.getPickRay(screen);
+    const cartesian = (ray && scene.globe.pick(ray, scene)) ?? camera.pickEllipsoid(screen, scene.globe.ellipsoid);
+    if (!cartesian) return undefined;
+    const cartographic = Cesium.Cartographic.fromCartesian(cartesian);
+    return { lon: Cesium.Math.toDegrees(cartographic.longitude), lat: Cesium.Math.toDegrees(cartographic.latitude) };
+  }
+
+  /**
+   * click: viewer에 InfoBox가 있으면 InfoBox, 없으면 툴팁 / hover: 툴팁
+   */
+  private _showProbe(event: FlowProbeEvent, screen: Cesium.Cartesian2) {
+    if (!event.result) {
+      this._clearProbe();
+      return;
+    }
+    const table = this._formatProbe(event);
+    if (event.trigger === 'click' && this.viewer.infoBox) {
+      this.probeEntity ??= new Cesium.Entity({ name: 'Flow probe' });
+      this.probeEntity.position = new Cesium.ConstantPositionProperty(Cesium.Cartesian3.fromDegrees(event.lon, event.lat));
+      // InfoBox description은 HTML 문자열. textContent로 채운 표를 직렬화하므로 시나리오 이름 등은 이스케이프됨
+      this.probeEntity.description = new Cesium.ConstantProperty(table.outerHTML);
+      this.viewer.selectedEntity = this.probeEntity;
+      return;
+    }
+
+    if (!this.probeTooltip) {
+      const tooltip = document.createElement('div');
+      Object.assign(tooltip.style, {
+        position: 'absolute', pointerEvents: 'none', zIndex: '11', padding: '6px 8px', borderRadius: '4px',
+        background: 'rgba(40, 40, 40, 0.85)', color: '#fff', font: '12px monospace', whiteSpace: 'nowrap'
+      });
+      (this.viewer.container as HTMLElement).appendChild(tooltip);
+      this.probeTooltip = tooltip;
+    }
+    this.probeTooltip.replaceChildren(table);
+    this.probeTooltip.style.left = `${screen.x + 12}px`;
+    this.probeTooltip.style.top = `${screen.y + 12}px`;
+    this.probeTooltip.style.display = 'block';
+  }
+
+  private _clearProbe() {
+    this.probePoint = undefined;
+    if (this.probeTooltip) this.probeTooltip.style.display = 'none';
+    if (this.probeEntity && this.viewer.selectedEntity === this.probeEntity) {
+      this.viewer.selectedEntity = undefined;
+    }
+  }
+
+  /**
+   * 조회 결과 표 (값은 textContent로 채움: 시나리오 이름/단위가 HTML로 해석되지 않게)
+   */
+  private _formatProbe({ scenario, result, timestamp }: FlowProbeEvent): HTMLTableElement {
+    const r = result!;
+    const format = (value: number, digits: number, unit = '') => Number.isNaN(value) ? '-' : `${value.toFixed(digits)}${unit}`;
+    const speedUnit = ` ${this.units.speed ?? 'm/s'}`;
+    const depthUnit = ` ${this.units.waterDepth ?? 'm'}`;
+    const elevationUnit = ` ${this.units.waterElevation ?? 'm'}`;
+    const rows: [string, string][] = [
+      ['speed', format(r.speed, 3, speedUnit)],
+      ['direction', format(r.direction, 0, '°')],
+      ['u / v', `${format(r.u, 3)} / ${format(r.v, 3)}${speedUnit}`],
+      ['depth', format(r.waterDepth, 3, depthUnit)],
+      ['water surface', format(r.waterElevation, 3, elevationUnit)],
+      ['bed', format(r.bedElevation, 3, elevationUnit)],
+      ['position', `${r.lon.toFixed(6)}, ${r.lat.toFixed(6)}`],
+      ['element', `${r.elementId}`]
+    ];
+    if (this.scenarios.size > 1) rows.unshift(['scenario', scenario]);
+    if (timestamp) rows.unshift(['time', timestamp.toISOString()]);
+    const table = document.createElement('table');
+    for (const [name, value] of rows) {
+      const row = table.insertRow();
+      row.insertCell().textContent = name;
+      row.insertCell().textContent = value;
+    }
+    return table;
+  }
+
+  /** =========================
+   *  Point time series
+   *  ========================= */
+
+  /**
+   * 시나리오 run 전체(또는 start..end)에 대한 lon/lat 지점 시계열 (hydrograph). 메시 밖이면 null
+   * - 노드 값을 메시 삼각형에서 보간 (CSV/.mfts 시나리오만 가능, 래스터 run 시나리오는 에러)
+   * - 읽은 스텝은 캐시되어 다른 지점을 다시 조회하면 빠름
+   */
+  public async getTimeSeriesAt(
+    lon: number,
+    lat: number,
+    variables: PointTimeSeriesVariable[] = [...POINT_TIME_SERIES_VARIABLES],
+    options: ScenarioTimeSeriesOptions = {}
+  ): Promise<ScenarioPointTimeSeries | null> {
+    if (!this.dataManager) throw new Error('FlowVisualizationManager is not initialized');
+    const scenario = this._getScenario(options.scenario);
+    const series = await this.dataManager.getTimeSeriesAt(lon, lat, variables, {
+      source: this._getTimeSeriesSource(scenario),
+      start: options.start ?? 1,
+      end: options.end ?? scenario.maxTime
+    }, { onProgress: options.onProgress, signal: options.signal });
+    if (!series) return null;
+    return {
+      ...series,
+      scenario: scenario.name,
+      timestamps: scenario.timesteps ? series.steps.map(step => scenario.timesteps![step - 1]?.timestamp) : undefined
+    };
+  }
+
+  /**
+   * lon/lat 지점의 시계열을 차트 패널에 표시 (GUI의 Time Series 폴더, probe click 지점)
+   * - 새 요청이 오면 이전 로드를 취소
+   * @returns 표시하면 true (메시 밖이거나 취소/실패하면 false)
+   */
+  public async plotTimeSeries(lon: number, lat: number, variable: PointTimeSeriesVariable = this.timeSeriesVariable): Promise<boolean> {
+    this.timeSeriesVariable = variable;
+    return this._plotTimeSeriesChart(variable, async (signal, onProgress) => {
+      const series = await this.getTimeSeriesAt(lon, lat, [variable], { signal, onProgress });
+      return series && {
+        title: `${variable} @ ${lon.toFixed(5)}, ${lat.toFixed(5)}`,
+        unit: this._getVariableUnit(variable),
+        steps: series.steps,
+        values: series.values[variable]!
+      };
+    });
+  }
+
+  /**
+   * 시계열 차트 패널 갱신 (새 요청이 오면 이전 로드를 취소)
+   * @param load - 차트 데이터 (메시 밖이면 null)
+   */
+  private async _plotTimeSeriesChart(
+    label: string,
+    load: (signal: AbortSignal, onProgress: (loaded: number, total: number) => void) => Promise<TimeSeriesChartData | null>
+  ): Promise<boolean> {
+    this.timeSeriesController?.abort();
+    const controller = new AbortController();
+    this.timeSeriesController = controller;
+
+    if (!this.timeSeriesChart) {
+      this.timeSeriesChart = new TimeSeriesChart(this.viewer.container as HTMLElement);
+      this.timeSeriesChart.onClose(() => this.timeSeriesController?.abort());
+    }
+    const chart = this.timeSeriesChart;
+    chart.show();
+    chart.setCurrentStep(this.currentTime);
+    try {
+      const data = await load(controller.signal, (loaded, total) => chart.setProgress(label, loaded, total));
+      if (!data) {
+        chart.setMessage(`${label}: outside the mesh`);
+        return false;
+      }
+      chart.setData(data);
+      return true;
+    } catch (error) {
+      if (isAbortError(error)) return false;
+      console.error(`Failed to load the ${label} time series:`, error);
+      chart.setMessage(`${label}: failed`);
+      return false;
+    }
+  }
+
+  /** =========================
+   *  Cross section
+   *  ========================= */
+
+  /**
+   * 화면에서 횡단면 그리기: 클릭으로 꼭짓점 추가, 오른쪽 클릭으로 완료 (꼭짓점 2개 이상)
+   * - 완료하면 setCrossSection과 같음 (분포 차트 표시, 'crossSection' 이벤트)
+   * @returns 완료하면 현재 시점의 단면, 다시 그리기 시작하거나 clearCrossSection으로 취소하면 null
+   */
+  public drawCrossSection(options?: CrossSectionOptions): Promise<CrossSectionProfile | null> {
+    this._cancelCrossSectionDrawing();
+    return new Promise(resolve => {
+      const handler = new Cesium.ScreenSpaceEventHandler(this.viewer.scene.canvas);
+      const draft: NonNullable<typeof this.crossSectionDraft> = { points: [], handler, resolve };
+      this.crossSectionDraft = draft;
+      this._ensureCrossSectionEntity();
+
+      handler.setInputAction((event: Cesium.ScreenSpaceEventHandler.PositionedEvent) => {
+        const position = this._pickLonLat(event.position);
+        if (position) draft.points.push([position.lon, position.lat]);
+      }, Cesium.ScreenSpaceEventType.LEFT_CLICK);
+      handler.setInputAction((event: Cesium.ScreenSpaceEventHandler.MotionEvent) => {
+        const position = this._pickLonLat(event.endPosition);
+        draft.cursor = position ? [position.lon, position.lat] : undefined;
+      }, Cesium.ScreenSpaceEventType.MOUSE_MOVE);
+      handler.setInputAction(() => {
+        if (draft.points.length < 2) return;
+        handler.destroy();
+        this.crossSectionDraft = undefined;
+        try {
+          resolve(this.setCrossSection(draft.points, options));
+        } catch (error) {
+          console.error('Failed to create the cross section:', error);
+          resolve(null);
+        }
+      }, Cesium.ScreenSpaceEventType.RIGHT_CLICK);
+    });
+  }
+
+  /**
+   * 횡단면 지정: 선을 표시하고 현재 시점의 분포를 차트에 표시, 'crossSection' 이벤트
+   * - 시간/시나리오가 바뀌면 분포 차트를 다시 계산
+   * @param line - [lon, lat] 꼭짓점 (2개 이상)
+   * @throws 초기화 전이거나, 선이 잘못되었거나, 표시 중인 데이터에 노드 값이 없으면(전처리 래스터 run) 에러
+   */
+  public setCrossSection(line: [number, number][], options?: CrossSectionOptions): CrossSectionProfile {
+    if (!this.dataManager) throw new Error('FlowVisualizationManager is not initialized');
+    this._cancelCrossSectionDrawing();
+    this.crossSection = this.dataManager.createCrossSection(line, options);
+    this._ensureCrossSectionEntity();
+    const profile = this.getCrossSection()!;
+    this._showCrossSection(profile);
+    this.crossSectionKey = this._getCrossSectionKey();
+    this.dispatchEvent('crossSection', {
+      line: this.crossSection.line,
+      scenario: this.activeScenario,
+      time: this.currentTime,
+      timestamp: this.getTimestamp(),
+      profile
+    });
+    return profile;
+  }
+
+  /**
+   * 표시 중인 시점(블렌딩 포함, swipe 비교 중이면 현재 시나리오)의 횡단면. 초기화 전이거나 선이 없으면 null
+   * @param line - 생략하면 setCrossSection/drawCrossSection으로 지정한 선
+   */
+  public getCrossSection(line?: [number, number][], options?: CrossSectionOptions): CrossSectionProfile | null {
+    if (!this.dataManager || !this.flowLayer) return null;
+    const section = line ? this.dataManager.createCrossSection(line, options) : this.crossSection;
+    if (!section) return null;
+    const { flowData, nextFlowData, timeBlend } = this.flowLayer;
+    return this.dataManager.getCrossSection(section, flowData, nextFlowData, timeBlend);
+  }
+
+  /**
+   * 횡단면 유량 시계열 (시나리오 run 전체 또는 start..end)
+   * @param line - 생략하면 지정한 선
+   */
+  public async getDischargeTimeSeries(
+    line?: [number, number][],
+    options: ScenarioTimeSeriesOptions & CrossSectionOptions = {}
+  ): Promise<ScenarioDischargeTimeSeries> {
+    if (!this.dataManager) throw new Error('FlowVisualizationManager is not initialized');
+    const section = line ? this.dataManager.createCrossSection(line, options) : this.crossSection;
+    if (!section) throw new Error('No cross section. Draw one or pass a line');
+    const scenario = this._getScenario(options.scenario);
+    const series = await this.dataManager.getDischargeTimeSeries(section, {
+      source: this._getTimeSeriesSource(scenario),
+      start: options.start ?? 1,
+      end: options.end ?? scenario.maxTime
+    }, { onProgress: options.onProgress, signal: options.signal });
+    return {
+      ...series,
+      scenario: scenario.name,
+      timestamps: scenario.timesteps ? series.steps.map(step => scenario.timesteps![step - 1]?.timestamp) : undefined
+    };
+  }
+
+  /**
+   * 지정한 횡단면의 유량 시계열을 시계열 차트 패널에 표시
+   */
+  public async plotDischargeTimeSeries(): Promise<boolean> {
+    if (!this.crossSection) {
+      console.warn('No cross section. Draw one first');
+      return false;
+    }
+    return this._plotTimeSeriesChart('discharge', async (signal, onProgress) => {
+      const series = await this.getDischargeTimeSeries(undefined, { signal, onProgress });
+      return { title: 'discharge', unit: 'm³/s', steps: series.steps, values: series.discharge };
+    });
+  }
+
+  /**
+   * 현재 횡단면 분포를 CSV로 (한 행 = 한 샘플). filename을 주면 브라우저 다운로드도 함
+   * @returns CSV 문자열 (횡단면이 없으면 undefined)
+   */
+  public exportCrossSectionCsv(filename?: string): string | undefined {
+    if (!this.crossSectionProfile) return undefined;
+    const csv = crossSectionToCsv(this.crossSectionProfile);
+    if (filename) this._download(csv, filename, 'text/csv');
+    return csv;
+  }
+
+  /**
+   * 횡단면과 분포 차트 제거 (그리는 중이면 취소)
+   */
+  public clearCrossSection() {
+    this._cancelCrossSectionDrawing();
+    this.crossSection = undefined;
+    this.crossSectionProfile = undefined;
+    this.crossSectionKey = undefined;
+    if (this.crossSectionEntity) {
+      this.viewer.entities.remove(this.crossSectionEntity);
+      this.crossSectionEntity = undefined;
+    }
+    this.crossSectionChart?.hide();
+  }
+
+  public setCrossSectionVariable(variable: CrossSectionVariable) {
+    this.crossSectionVariable = variable;
+    if (this.crossSectionProfile) this._showCrossSection(this.crossSectionProfile);
+  }
+
+  /**
+   * timeChange/scenarioChange: 표시 중인 스텝이 바뀌었거나 블렌딩이 1/20 이상 움직였을 때만 다시 계산
+   * - 재생 중에는 프레임마다 timeChange가 오므로, 매번 블렌딩 배열을 만들지 않게 함
+   */
+  private _refreshCrossSection = () => {
+    if (!this.crossSection || this.crossSectionDraft) return;
+    const key = this._getCrossSectionKey();
+    const last = this.crossSectionKey;
+    if (key && last && key.flowData === last.flowData && key.nextFlowData === last.nextFlowData && key.blend === last.blend) return;
+    this.crossSectionKey = key;
+    try {
+      this._showCrossSection(this.getCrossSection()!);
+    } catch (error) {
+      // 노드 값이 없는 시나리오(래스터 run)로 바뀐 경우 등
+      this.crossSectionProfile = undefined;
+      this.crossSectionChart?.setMessage(`cross section: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  private _getCrossSectionKey(): typeof this.crossSectionKey {
+    if (!this.flowLayer) return undefined;
+    const { flowData, nextFlowData, timeBlend } = this.flowLayer;
+    return { flowData, nextFlowData, blend: Math.round(timeBlend * 20) };
+  }
+
+  private _showCrossSection(profile: CrossSectionProfile) {
+    this.crossSectionProfile = profile;
+    if (!this.crossSectionChart) {
+      this.crossSectionChart = new TimeSeriesChart(this.viewer.container as HTMLElement, 'right');
+    }
+    const variable = this.crossSectionVariable;
+    this.crossSectionChart.show();
+    this.crossSectionChart.setData({
+      title: `${variable}, Q = ${profile.discharge.toFixed(2)} m³/s`,
+      unit: this._getCrossSectionUnit(variable),
+      steps: profile.samples.map(sample => sample.distance),
+      values: profile.samples.map(sample => sample[variable]),
+      xUnit: 'm'
+    });
+  }
+
+  /**
+   * 횡단면 선 (그리는 중이면 꼭짓점 + 마우스 위치)
+   */
+  private _ensureCrossSectionEntity() {
+    if (this.crossSectionEntity) return;
+    this.crossSectionEntity = this.viewer.entities.add({
+      polyline: {
+        positions: new Cesium.CallbackProperty(() => {
+          const draft = this.crossSectionDraft;
+          const line = draft ? [...draft.points, ...(draft.cursor ? [draft.cursor] : [])] : this.crossSection?.line ?? [];
+          return Cesium.Cartesian3.fromDegreesArray(line.flat());
+        }, false),
+        width: 3,
+        material: Cesium.Color.YELLOW,
+        clampToGround: true
+      }
+    });
+  }
+
+  private _cancelCrossSectionDrawing() {
+    const draft = this.crossSectionDraft;
+    if (!draft) return;
+    draft.handler.destroy();
+    this.crossSectionDraft = undefined;
+    draft.resolve(null);
+  }
+
+  private _getCrossSectionUnit(variable: CrossSectionVariable): string {
+    switch (variable) {
+      case 'waterDepth': return this.units.waterDepth ?? 'm';
+      case 'bedElevation':
+      case 'waterElevation': return this.units.waterElevation ?? 'm';
+      default: return this.units.speed ?? 'm/s';
+    }
+  }
+
+  private _getTimeSeriesSource(scenario: RegisteredScenario): TimeSeriesSource {
+    if (scenario.binaryUrl) return { binaryUrl: scenario.binaryUrl };
+    if (scenario.rasterUrl) {
+      throw new Error(`Scenario ${scenario.name} is a preprocessed raster run without node values. Point time series need CSV or .mfts data`);
+    }
+    if (scenario.timesteps) return { csvUrls: scenario.timesteps.map(timestep => timestep.url) };
+    return { csvUrls: Array.from({ length: scenario.maxTime }, (_, i) => `${scenario.csvBaseUrl}${i + 1}.csv`) };
+  }
+
+  private _getVariableUnit(variable: PointTimeSeriesVariable): string | undefined {
+    switch (variable) {
+      case 'direction': return '°';
+      case 'u':
+      case 'v':
+      case 'speed': return this.units.speed ?? 'm/s';
+      case 'waterDepth': return this.units.waterDepth ?? 'm';
+      case 'waterElevation': return this.units.waterElevation ?? 'm';
+      case 'inflowRate': return this.units.inflowRate;
+    }
+  }
+
+  /** =========================
+   *  Streamlines / pathlines
+   *  ========================= */
+
+  /**
+   * 표시 중인 시점(블렌딩 포함, swipe 비교 중이면 현재 시나리오)의 유선
+   * - 노드 값 보간 + RK2 (calculateSpeedShader와 같은 적분), 메시 밖/마스크 0/마른 곳에서 멈춤
+   * @param starts - 시작점 [lon, lat] (결과는 같은 순서)
+   * @throws 초기화 전이거나 표시 중인 데이터에 노드 값이 없으면(전처리 래스터 run) 에러
+   */
+  public computeStreamlines(starts: [number, number][], options: StreamlineOptions = {}): FlowPath[] {
+    if (!this.dataManager || !this.flowLayer) throw new Error('FlowVisualizationManager is not initialized');
+    const { flowData, nextFlowData, timeBlend } = this.flowLayer;
+    return this.dataManager.computeStreamlines(starts, flowData, nextFlowData, timeBlend, options);
+  }
+
+  /**
+   * 시나리오 run의 start 스텝(생략 시 현재 스텝)에서 출발하는 유적선 (end 스텝까지, 생략 시 run 끝)
+   * - 스텝 노드 값을 차례로 읽으며 진행 (CSV/.mfts 시나리오만 가능, 래스터 run 시나리오는 에러)
+   * - 구간 길이는 구간마다 두 타임스텝 시각의 차이 (간격이 일정하지 않아도 됨). stepDuration을 주면 모든 구간에 그 값을 사용
+   * @param starts - 시작점 [lon, lat] (결과는 같은 순서)
+   * @throws 스텝 간격을 알 수 없으면(타임스텝 시각도 stepDuration도 없으면) 에러
+   */
+  public async computePathlines(starts: [number, number][], options: ScenarioPathlineOptions = {}): Promise<FlowPath[]> {
+    if (!this.dataManager) throw new Error('FlowVisualizationManager is not initialized');
+    const scenario = this._getScenario(options.scenario);
+    const { timesteps } = scenario;
+    if (options.stepDuration === undefined && !timesteps) {
+      throw new Error(`Scenario ${scenario.name} has no timestep times. Pass stepDuration (seconds between time steps)`);
+    }
+    const stepTime = options.stepDuration === undefined && timesteps
+      ? (step: number) => {
+          const timestamp = timesteps[step - 1]?.timestamp;
+          return timestamp ? timestamp.getTime() / 1000 : undefined;
+        }
+      : undefined;
+    return this.dataManager.computePathlines(starts, {
+      source: this._getTimeSeriesSource(scenario),
+      start: options.start ?? Math.floor(this.currentTime),
+      end: options.end ?? scenario.maxTime
+    }, { ...options, stepTime }, { onProgress: options.onProgress, signal: options.signal });
+  }
+
+  /**
+   * 유선/유적선을 계산해서 지도에 표시 (GUI의 Flow Paths 폴더, probe click 지점). 이전 경로는 지움
+   * - 새 요청이 오면 진행 중인 유적선 계산을 취소
+   * @returns 표시한 경로 (취소/실패하면 빈 배열)
+   */
+  public async traceFlowPaths(
+    starts: [number, number][],
+    kind: FlowPath['kind'] = 'streamline',
+    options: StreamlineOptions & ScenarioPathlineOptions = {}
+  ): Promise<FlowPath[]> {
+    this.clearFlowPaths();
+    const controller = new AbortController();
+    this.flowPathController = controller;
+    const properties = kind === 'streamline'
+      ? { scenario: this.activeScenario, time: this.currentTime, timestamp: this.getTimestamp()?.toISOString() }
+      : { scenario: options.scenario ?? this.activeScenario, startStep: options.start ?? Math.floor(this.currentTime) };
+    try {
+      const paths = kind === 'streamline'
+        ? this.computeStreamlines(starts, options)
+        : await this.computePathlines(starts, { ...options, signal: controller.signal });
+      if (controller.signal.aborted) return [];
+      this._showFlowPaths(paths, properties);
+      return paths;
+    } catch (error) {
+      if (!isAbortError(error)) console.error(`Failed to compute ${kind}s:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * 표시 중인 유선/유적선을 GeoJSON으로 (LineString, 꼭짓점별 speed/time은 properties 배열)
+   * - filename을 주면 브라우저 다운로드도 함
+   * @param paths - 생략하면 traceFlowPaths로 표시 중인 경로
+   * @returns GeoJSON (경로가 없으면 undefined)
+   */
+  public exportFlowPathsGeoJson(filename?: string, paths?: FlowPath[]): FlowPathFeatureCollection | undefined {
+    const collection = paths ?? this.flowPaths;
+    if (collection.length === 0) return undefined;
+    const geoJson = flowPathsToGeoJSON(collection, paths ? {} : this.flowPathProperties);
+    if (filename) this._download(JSON.stringify(geoJson), filename, 'application/geo+json');
+    return geoJson;
+  }
+
+  /**
+   * 표시 중인 유선/유적선 제거 (계산 중이면 취소)
+   */
+  public clearFlowPaths() {
+    this.flowPathController?.abort();
+    this.flowPathController = undefined;
+    this.flowPathEntities.forEach(entity => this.viewer.entities.remove(entity));
+    this.flowPathEntities = [];
+    this.flowPaths = [];
+    this.flowPathProperties = {};
+  }
+
+  private _showFlowPaths(paths: FlowPath[], properties: Record<string, unknown>) {
+    this.flowPaths = paths;
+    this.flowPathProperties = properties;
+    this.flowPathEntities = paths.filter(path => path.coordinates.length >= 2).map(path => this.viewer.entities.add({
+      polyline: {
+        positions: Cesium.Cartesian3.fromDegreesArray(path.coordinates.flat()),
+        width: 2,
+        material: path.kind === 'streamline' ? Cesium.Color.CYAN : Cesium.Color.ORANGE,
+        clampToGround: true
+      }
+    }));
+  }
+
+  /**
+   * 브라우저 다운로드
+   */
+  private _download(text: string, filename: string, type: string) {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /** =========================
+   *  Timestep cache
+   *  ========================= */
+
+  /**
+   * 현재 데이터셋의 캐시 상태 (캐시된 스텝, 로드 중인 스텝, 사용 중인 메모리)
+   */
+  public getCacheStatus(): FlowDataCacheStatus {
+    return this.cache.getStatus(this._getDatasetKey());
+  }
+
+  /**
+   * 캐시 비우기 (현재 화면에 쓰는 데이터는 FlowLayer가 계속 유지)
+   */
+  public clearCache() {
+    this.loadController?.abort();
+    this.cache.cancelPrefetch();
+    this.cache.clear();
+  }
+
+  public setPrefetchCount(count: number) {
+    this.prefetchCount = Math.max(0, Math.floor(count));
+  }
+
+  /**
+   * 시나리오의 정수 스텝 데이터 (캐시 사용). 예: 두 시나리오의 같은 스텝으로 computeFlowDifference
+   */
+  public async getFlowData(step: number, scenario: string = this.activeScenario, signal?: AbortSignal): Promise<FlowData> {
+    if (!this.dataManager) throw new Error('FlowVisualizationManager is not initialized');
+    const registered = this._getScenario(scenario);
+    if (!Number.isInteger(step) || step < 1 || step > registered.maxTime) {
+      throw new Error(`Time step of scenario ${scenario} must be an integer in 1..${registered.maxTime}: ${step}`);
+    }
+    return this._getStepData(registered, step, signal ?? new AbortController().signal);
+  }
+
+  private _getDatasetKey(scenario: FlowScenario = this._getScenario()): string {
+    return scenario.binaryUrl ?? scenario.rasterUrl ?? scenario.timesteps?.[0].url ?? scenario.csvBaseUrl!;
+  }
+
+  private _getStepData(scenario: RegisteredScenario, step: number, signal: AbortSignal): Promise<FlowData> {
+    return this.cache.get(this._getDatasetKey(scenario), step, this._createLoader(scenario), signal);
+  }
+
+  /**
+   * from 다음 스텝부터 재생 방향으로 prefetchCount개 미리 로드 (loop 모드에서는 처음으로 이어짐)
+   * - 비교 중이면 두 시나리오의 같은 스텝을 번갈아 로드
+   */
+  private _prefetch(from: number) {
+    if (this.prefetchCount <= 0) return;
+    const steps: number[] = [];
+    let step = from;
+    for (let i = 0; i < this.prefetchCount; i++) {
+      step += this.playbackDirection;
+      if (step > this.maxTime) {
+        if (this.playbackMode !== 'loop') break;
+        step = 1;
+      }
+      if (step < 1) break;
+      steps.push(step);
+    }
+    const scenarios = [this._getScenario()];
+    if (this.compareScenario !== undefined) scenarios.push(this._getScenario(this.compareScenario));
+    this.cache.prefetch(steps.flatMap(time => scenarios
+      .filter(scenario => time <= scenario.maxTime)
+      .map(scenario => ({ dataset: this._getDatasetKey(scenario), time, load: this._createLoader(scenario) }))
+    ));
+  }
+
+  /**
+   * 시나리오의 로더 (URL은 호출 시점 값으로 고정: 로드 도중 시나리오가 바뀌어도 다른 폴더를 읽지 않음)
+   */
+  private _createLoader(scenario: FlowScenario): FlowDataLoader {
+    const dataManager = this.dataManager!;
+    const { name, binaryUrl, rasterUrl, csvBaseUrl, timesteps } = scenario;
+    if (binaryUrl) {
+      return (time, signal) => dataManager.generateFromBinary(binaryUrl, time, signal);
+    }
+    if (rasterUrl) {
+      return (time, signal) => dataManager.generateFromRasterRun(rasterUrl, time, signal);
+    }
+    if (timesteps) {
+      return (time, signal) => {
+        const timestep = timesteps[time - 1];
+        if (!timestep) return Promise.reject(new Error(`Scenario ${name} has no time step ${time}`));
+        return dataManager.generateFromCsv(timestep.url, signal);
+      };
+    }
+    return (time, signal) => dataManager.generateFromCsv(`${csvBaseUrl}${time}.csv`, signal);
+  }
+
+  /**
+   * 초기화 때 표시할 데이터 (initialCsvFile, .mfts/래스터 run의 첫 스텝, 또는 time 1)
+   */
+  private async _loadInitialData(signal?: AbortSignal): Promise<FlowData> {
+    const scenario = this._getScenario();
+    if (scenario.binaryUrl) {
+      const reader = await this.dataManager!.getBinaryReader(scenario.binaryUrl);
+      return this.dataManager!.generateFromBinary(scenario.binaryUrl, reader.steps[0].index, signal);
+    }
+    if (scenario.rasterUrl) {
+      const reader = await this.dataManager!.getRasterRunReader(scenario.rasterUrl);
+      return this.dataManager!.generateFromRasterRun(scenario.rasterUrl, reader.steps[0].index, signal);
+    }
+    if (this.initialCsvFile) {
+      return this.dataManager!.generateFromCsv(this.initialCsvFile, signal);
+    }
+    return this._createLoader(scenario)(1, signal ?? new AbortController().signal);
+  }
+
+  /**
+   * 모든 시나리오가 전처리 래스터 run이면 메시를 읽지 않고 run.json으로 초기화, 아니면 메시로 초기화
+   */
   private async _initializeDataManager() {
+    const scenarios = [...this.scenarios.values()];
+    if (scenarios.every(scenario => scenario.rasterUrl)) {
+      this.dataManager = await FlowFieldDataManager.createForRasterRun(this._getScenario().rasterUrl!, {
+        maskUrl: this.maskUrl,
+        minWaterDepth: this.minWaterDepth
+      });
+      await Promise.all(scenarios.map(scenario => this._resolveRasterRunMaxTime(scenario.name).catch(e => {
+        // 현재 시나리오가 아니면 초기화는 계속 (전환할 때 다시 시도)
+        if (scenario.name === this.activeScenario) throw e;
+        console.warn(`Failed to open the raster run of scenario ${scenario.name}:`, e);
+      })));
+      console.log("DataManager initialized (preprocessed raster run, no mesh)");
+      return;
+    }
     this.dataManager = await FlowFieldDataManager.create({
       polygonUrl: this.polygonUrl,
-      textureSize: 1024,
+      textureSize: this.textureSize ?? 1024,
+      cellSize: this.cellSize,
       maskUrl: this.maskUrl,
       numSeeds: 128 * 128,
-      gridResolution: 64
+      gridResolution: 64,
+      crs: this.crs,
+      meshFormat: this.meshFormat,
+      csvOptions: this.csvOptions,
+      minWaterDepth: this.minWaterDepth,
+      seed: this.options.seed
     });
     console.log("DataManager initialized");
   }
@@ -128,12 +1745,89 @@ export class FlowVisualizationManager {
     console.log('FlowLayer added successfully');
   }
 
+  private _addScalarLayer(flowData: FlowData) {
+    this.scalarLayer = new ScalarLayer(this.viewer, flowData, {
+      height: this.options.particleHeight ?? 0,
+      units: this.units,
+      ...this.scalarLayerOptions
+    });
+    this.scalarLayer.show = this.scalarLayerOptions !== undefined;
+  }
+
   private _initializeGUI() {
     // Time slider
-    const timeOptions = { time: 1 };
-    this.gui.add(timeOptions, 'time', 1, this.maxTime, 1).onChange(async (time: number) => {
+    const timeOptions = { time: this.currentTime };
+    const timeController = this.gui.add(timeOptions, 'time', 1, this.maxTime, 0.01).onChange(async (time: number) => {
       await this.setTime(time);
     });
+    this.timeController = timeController;
+    this.addEventListener('timeChange', ({ time }) => {
+      timeOptions.time = time;
+      timeController.updateDisplay();
+    });
+
+    // 타임스텝 시각 (manifest 등에서 시각이 주어진 경우)
+    if (this.getTimestamp() !== undefined) {
+      const dateOptions = { date: this.getTimestamp()!.toISOString() };
+      const dateController = this.gui.add(dateOptions, 'date').disable();
+      this.addEventListener('timeChange', ({ timestamp }) => {
+        dateOptions.date = timestamp?.toISOString() ?? '';
+        dateController.updateDisplay();
+      });
+    }
+
+    // 시나리오 선택 / swipe 비교
+    if (this.scenarios.size > 1) {
+      const scenarioOptions = {
+        scenario: this.activeScenario,
+        compare: this.compareScenario ?? 'none',
+        split: this.splitPosition,
+      };
+      const scenarioFolder = this.gui.addFolder('Scenario');
+      const names = [...this.scenarios.keys()];
+      this.scenarioControllers = [
+        scenarioFolder.add(scenarioOptions, 'scenario', names).onFinishChange((name: string) => {
+          if (name !== this.activeScenario) void this.setScenario(name);
+        }),
+        scenarioFolder.add(scenarioOptions, 'compare', ['none', ...names]).onFinishChange((name: string) => {
+          const compare = name === 'none' ? undefined : name;
+          if (compare !== this.compareScenario) void this.setCompareScenario(compare);
+        })
+      ];
+      this.splitController = scenarioFolder.add(scenarioOptions, 'split', 0, 1, 0.01)
+        .onChange((position: number) => {
+          if (position !== this.splitPosition) this.setSplitPosition(position);
+        });
+    }
+
+    // 캐시된 스텝 구간 (예: "1-12, 40-41")
+    const cacheOptions = { buffered: '' };
+    const bufferedController = this.gui.add(cacheOptions, 'buffered').disable();
+    this.addEventListener('cacheChange', ({ bufferedRanges }) => {
+      cacheOptions.buffered = bufferedRanges
+        .map(([start, end]) => start === end ? `${start}` : `${start}-${end}`)
+        .join(', ');
+      bufferedController.updateDisplay();
+    });
+
+    // Playback
+    const playbackOptions = {
+      play: () => this.play(),
+      pause: () => this.pause(),
+      stepBack: () => this.stepBack(),
+      stepForward: () => this.stepForward(),
+      rate: this.playbackRate,
+      mode: this.playbackMode,
+    };
+    const playbackFolder = this.gui.addFolder('Playback');
+    playbackFolder.add(playbackOptions, 'play');
+    playbackFolder.add(playbackOptions, 'pause');
+    playbackFolder.add(playbackOptions, 'stepBack');
+    playbackFolder.add(playbackOptions, 'stepForward');
+    playbackFolder.add(playbackOptions, 'rate', 0.1, 20, 0.1).name('rate (steps/s)')
+      .onChange((rate: number) => this.setPlaybackRate(rate));
+    playbackFolder.add(playbackOptions, 'mode', ['once', 'loop', 'pingpong'])
+      .onChange((mode: PlaybackMode) => this.setPlaybackMode(mode));
 
     // Flow layer options
     const guiOptions = {
@@ -145,13 +1839,13 @@ export class FlowVisualizationManager {
     };
 
     const updateFlowLayerOptions = () => {
-      if (this.flowLayer) {
-        this.flowLayer.updateOptions({
-          ...guiOptions,
-          lineWidth: { min: guiOptions.lineWidth_min, max: guiOptions.lineWidth_max },
-          lineLength: { min: guiOptions.lineLength_min, max: guiOptions.lineLength_max },
-        });
-      }
+      // splitDirection은 비교 상태에 따라 레이어마다 다르므로 유지
+      const { splitDirection, ...options } = guiOptions;
+      [this.flowLayer, this.compareFlowLayer].forEach(layer => layer?.updateOptions({
+        ...options,
+        lineWidth: { min: guiOptions.lineWidth_min, max: guiOptions.lineWidth_max },
+        lineLength: { min: guiOptions.lineLength_min, max: guiOptions.lineLength_max },
+      }));
     };
 
     this.gui.add(guiOptions, 'particlesTextureSize', 100, 1000, 10).onChange(updateFlowLayerOptions);
@@ -168,5 +1862,103 @@ export class FlowVisualizationManager {
     lineLengthFolder.add(guiOptions, 'lineLength_max', 0.1, 10, 0.1).onChange(updateFlowLayerOptions);
     
     this.gui.add(guiOptions, 'dynamic').onChange(updateFlowLayerOptions);
+    this.gui.add(guiOptions, 'sampling', ['raster', 'mesh']).onChange(updateFlowLayerOptions);
+
+    const probeOptions = { probe: this.probeMode ?? 'off' };
+    this.gui.add(probeOptions, 'probe', ['off', 'click', 'hover']).onChange((mode: ProbeMode | 'off') => {
+      this.setProbeMode(mode === 'off' ? undefined : mode);
+    });
+
+    // 지점 시계열 차트 (probe click 지점)
+    const timeSeriesOptions = {
+      variable: this.timeSeriesVariable,
+      plot: () => {
+        if (!this.probePoint) {
+          console.warn("Click a point with probe: 'click' first to plot its time series");
+          return;
+        }
+        void this.plotTimeSeries(this.probePoint.lon, this.probePoint.lat, timeSeriesOptions.variable);
+      }
+    };
+    const timeSeriesFolder = this.gui.addFolder('Time Series');
+    timeSeriesFolder.add(timeSeriesOptions, 'variable', [...POINT_TIME_SERIES_VARIABLES]).onChange((variable: PointTimeSeriesVariable) => {
+      this.timeSeriesVariable = variable;
+      if (this.probePoint && this.timeSeriesChart?.visible) void this.plotTimeSeries(this.probePoint.lon, this.probePoint.lat);
+    });
+    timeSeriesFolder.add(timeSeriesOptions, 'plot');
+    timeSeriesFolder.close();
+
+    // 횡단면 (클릭으로 꼭짓점, 오른쪽 클릭으로 완료)
+    const crossSectionOptions = {
+      draw: () => void this.drawCrossSection(),
+      variable: this.crossSectionVariable,
+      discharge: () => void this.plotDischargeTimeSeries(),
+      exportCsv: () => {
+        if (!this.exportCrossSectionCsv('cross-section.csv')) console.warn('No cross section. Draw one first');
+      },
+      clear: () => this.clearCrossSection()
+    };
+    const crossSectionFolder = this.gui.addFolder('Cross Section');
+    crossSectionFolder.add(crossSectionOptions, 'draw');
+    crossSectionFolder.add(crossSectionOptions, 'variable', [...CROSS_SECTION_VARIABLES])
+      .onChange((variable: CrossSectionVariable) => this.setCrossSectionVariable(variable));
+    crossSectionFolder.add(crossSectionOptions, 'discharge');
+    crossSectionFolder.add(crossSectionOptions, 'exportCsv');
+    crossSectionFolder.add(crossSectionOptions, 'clear');
+    crossSectionFolder.close();
+
+    // 유선/유적선 (probe click 지점에서 출발)
+    const flowPathOptions = {
+      kind: 'streamline' as FlowPath['kind'],
+      trace: () => {
+        if (!this.probePoint) {
+          console.warn("Click a point with probe: 'click' first to trace a flow path from it");
+          return;
+        }
+        void this.traceFlowPaths([[this.probePoint.lon, this.probePoint.lat]], flowPathOptions.kind);
+      },
+      exportGeoJson: () => {
+        if (!this.exportFlowPathsGeoJson('flow-paths.geojson')) console.warn('No flow paths. Trace one first');
+      },
+      clear: () => this.clearFlowPaths()
+    };
+    const flowPathFolder = this.gui.addFolder('Flow Paths');
+    flowPathFolder.add(flowPathOptions, 'kind', ['streamline', 'pathline']);
+    flowPathFolder.add(flowPathOptions, 'trace');
+    flowPathFolder.add(flowPathOptions, 'exportGeoJson');
+    flowPathFolder.add(flowPathOptions, 'clear');
+    flowPathFolder.close();
+
+    // 래스터 run만 읽은 경우(메시 없음)는 seeds를 다시 만들 수 없으므로 표시하지 않음
+    if (this.dataManager?.hasMesh) {
+      const seedOptions = { seeding: this.seedStrategy };
+      this.gui.add(seedOptions, 'seeding', ['area', 'velocity', 'poisson', 'inflow']).onChange((strategy: SeedStrategy) => {
+        void this.regenerateSeeds(strategy);
+      });
+    }
+
+    // Scalar surface
+    if (this.scalarLayer) {
+      const scalarLayer = this.scalarLayer;
+      const scalarOptions = {
+        show: scalarLayer.show,
+        field: scalarLayer.options.field,
+        opacity: scalarLayer.options.opacity,
+        maskDry: scalarLayer.options.maskDry,
+      };
+      const scalarFolder = this.gui.addFolder('Scalar Surface');
+      scalarFolder.add(scalarOptions, 'show').onChange((show: boolean) => this.setScalarVisible(show));
+      // ...Delta 필드는 computeFlowDifference 결과에만 있으므로 GUI에서는 제외 (차이 표시는 API로)
+      scalarFolder.add(scalarOptions, 'field', ['waterDepth', 'waterElevation', 'inflowRate', 'speed'])
+        .onChange((field: ScalarFieldName) => this.setScalarField(field));
+      scalarFolder.add(scalarOptions, 'opacity', 0, 1, 0.05).onChange((opacity: number) => {
+        scalarLayer.updateOptions({ opacity });
+        this.compareScalarLayer?.updateOptions({ opacity });
+      });
+      scalarFolder.add(scalarOptions, 'maskDry').onChange((maskDry: boolean) => {
+        scalarLayer.updateOptions({ maskDry });
+        this.compareScalarLayer?.updateOptions({ maskDry });
+      });
+    }
   }
 }
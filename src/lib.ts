@@ -1,8 +1,26 @@
 // 라이브러리 진입점
 export { EarthCube } from './EarthCube'
 export { FlowVisualizationManager } from './flowVisualizationManager'
-export { FlowLayer, DefaultOptions } from './flow'
-export type { FlowLayerOptions, FlowData, FlowLayerEventType, FlowLayerEventCallback } from './flow'
+export type { FlowVisualizationConfig, FlowScenario, ScenarioChangeEvent, PlaybackMode, TimeChangeEvent, ProbeMode, FlowProbeEvent, ScenarioTimeSeriesOptions, ScenarioPointTimeSeries, ScenarioDischargeTimeSeries, ScenarioPathlineOptions, CrossSectionEvent, FlowVisualizationEventMap, FlowVisualizationEventType, FlowVisualizationEventCallback } from './flowVisualizationManager'
+export { loadDatasetManifest, parseDatasetManifest } from './manifest'
+export type { DatasetManifest, ManifestTimesteps, ManifestView, ResolvedDatasetManifest, ResolvedScenario, ResolvedTimestep } from './manifest'
+export type { FlowDataCacheStatus } from './flowDataCache'
+export type { FlowProbeResult } from './flowProbe'
+export { CrossSection, crossSectionToCsv } from './crossSection'
+export type { CrossSectionOptions, CrossSectionProfile, CrossSectionSample, CrossSectionVariable, DischargeTimeSeries } from './crossSection'
+export { FlowPathTracer, flowPathsToGeoJSON } from './flowPaths'
+export type { FlowPath, FlowPathEnd, FlowPathFeature, FlowPathFeatureCollection, FlowPathMask, FlowPathOptions, FlowPathTracerOptions, PathlineOptions, StreamlineOptions } from './flowPaths'
+export type { PointTimeSeries, PointTimeSeriesOptions, PointTimeSeriesVariable, TimeSeriesRange, TimeSeriesSource } from './pointTimeSeries'
+export { computeFlowDifference } from './flowDifference'
+export { RasterRunReader } from './rasterRun'
+export type { RasterRunMetadata, RasterRunStep, RasterRunReaderOptions } from './rasterRun'
+export { generateSeeds } from './seeding'
+export type { SeedStrategy, SeedOptions } from './seeding'
+export { FlowLayer, DefaultOptions, ScalarLayer, DefaultScalarLayerOptions } from './flow'
+export type { FlowLayerOptions, FlowData, FlowLayerEventType, FlowLayerEventCallback, ScalarLayerOptions, ScalarFieldName, Legend, LegendStop, FlowMeshData, FlowMeshGeometry } from './flow'
+export type { CrsDefinition } from './crs'
+export type { MeshFormat } from './meshFormats'
+export type { CsvColumnMapping, TimeSeriesCsvOptions, TimeSeriesValidationReport } from './timeSeriesCsv'
 
 // 타입 정의도 함께 export
 // export type { default as Cesium } from 'cesium'
@@ -112,7 +112,6 @@ async function main() {
 
   const configs = {
     polygonUrl: "/river-data/38.rgo",
-    maskUrl: "/river-data/mask.png",
     csvBaseUrl: "/river-data/20250730",
     initialCsvFile: "/river-data/20250730/1.csv",
     maxTime: 137
@@ -0,0 +1,412 @@
+import type { CrsDefinition } from './crs';
+import type { MeshFormat } from './meshFormats';
+import type { CsvColumnMapping, TimeSeriesCsvOptions, TimeSeriesField } from './timeSeriesCsv';
+import type { ScalarFieldName } from './flow';
+
+/** =========================
+ *  Dataset manifest (JSON)
+ *  - 메시, CRS, 마스크, 타임스텝 파일과 시각, 단위, 기본 뷰를 한 파일에 선언
+ *  - 상대 URL은 manifest URL 기준으로 해석
+ *  ========================= */
+
+/** 타임스텝 파일 목록: 파일 이름만 또는 { url, time } (time은 ISO 8601) */
+export interface ManifestFileList {
+  files: (string | { url: string; time?: string })[];
+}
+
+/**
+ * 파일 이름 패턴: "{index}"를 start..end의 번호로 치환 (예: "20250730/{index}.csv")
+ * - "{index:3}"처럼 자릿수를 주면 0으로 채움 (001.csv)
+ * - startTime + interval(초)을 주면 각 스텝의 시각을 계산
+ */
+export interface ManifestFilePattern {
+  pattern: string;
+  start: number;
+  end: number;
+  /** 번호 간격 (기본값 1) */
+  step?: number;
+  startTime?: string;
+  interval?: number;
+}
+
+export type ManifestTimesteps = ManifestFileList | ManifestFilePattern;
+
+/**
+ * 기본 카메라 뷰: 경계(west/south/east/north) 또는 위치(longitude/latitude/height, 방향은 도 단위)
+ */
+export type ManifestView =
+  | { west: number; south: number; east: number; north: number }
+  | { longitude: number; latitude: number; height: number; heading?: number; pitch?: number; roll?: number };
+
+export interface DatasetManifest {
+  version?: 1;
+  name?: string;
+  mesh: {
+    url: string;
+    /** 생략 시 확장자로 결정 */
+    format?: MeshFormat;
+    crs?: CrsDefinition;
+  };
+  /** 마스크 이미지 URL (생략 시 메시 footprint) */
+  mask?: string;
+  /** 기본 실행의 타임스텝 (scenarios가 있으면 생략 가능, 있으면 'default' 시나리오가 됨) */
+  timesteps?: ManifestTimesteps;
+  /** 같은 메시를 쓰는 여러 실행 (설계안 비교 등) */
+  scenarios?: { name: string; timesteps: ManifestTimesteps }[];
+  csv?: Omit<TimeSeriesCsvOptions, 'knownNodeIds'>;
+  minWaterDepth?: number;
+  /** 필드별 단위 (범례 표시용) */
+  units?: Partial<Record<ScalarFieldName, string>>;
+  view?: ManifestView;
+}
+
+export interface ResolvedTimestep {
+  /** 1부터 시작하는 시간 인덱스 (manager의 time) */
+  index: number;
+  /** 절대 URL */
+  url: string;
+  timestamp?: Date;
+}
+
+export interface ResolvedScenario {
+  name: string;
+  timesteps: ResolvedTimestep[];
+}
+
+/**
+ * 검증과 URL 해석이 끝난 manifest
+ */
+export interface ResolvedDatasetManifest {
+  url: string;
+  name?: string;
+  polygonUrl: string;
+  meshFormat?: MeshFormat;
+  crs?: CrsDefinition;
+  maskUrl?: string;
+  /** 첫 번째 시나리오의 타임스텝 */
+  timesteps: ResolvedTimestep[];
+  /** 기본 실행(timesteps)이 있으면 'default'로 맨 앞, 그 뒤로 scenarios 순서 */
+  scenarios: ResolvedScenario[];
+  csvOptions?: Omit<TimeSeriesCsvOptions, 'knownNodeIds'>;
+  minWaterDepth?: number;
+  units: Partial<Record<ScalarFieldName, string>>;
+  view?: ManifestView;
+}
+
+const MESH_FORMATS: MeshFormat[] = ['rgo', '2dm'];
+const SCALAR_FIELDS: ScalarFieldName[] = ['speed', 'waterDepth', 'waterElevation', 'inflowRate'];
+const CSV_FIELDS: TimeSeriesField[] = [
+  'nodeId', 'timestamp', 'velocityX', 'velocityY', 'waterDepth', 'velocityMagnitude', 'waterElevation', 'inflowRate'
+];
+const MAX_TIMESTEPS = 100000;
+
+/**
+ * 문제를 모두 모아서 한 번에 보고하기 위한 검증 컨텍스트
+ */
+class ManifestValidator {
+  readonly problems: string[] = [];
+
+  fail(path: string, message: string) {
+    this.problems.push(`${path}: ${message}`);
+  }
+
+  isObject(value: unknown, path: string): value is Record<string, unknown> {
+    if (value && typeof value === 'object' && !Array.isArray(value)) return true;
+    this.fail(path, `expected an object, got ${describe(value)}`);
+    return false;
+  }
+
+  string(value: unknown, path: string, optional = false): string | undefined {
+    if (value === undefined && optional) return undefined;
+    if (typeof value === 'string' && value.trim()) return value;
+    this.fail(path, `expected a non-empty string, got ${describe(value)}`);
+    return undefined;
+  }
+
+  number(value: unknown, path: string, optional = false, integer = false): number | undefined {
+    if (value === undefined && optional) return undefined;
+    if (typeof value === 'number' && Number.isFinite(value) && (!integer || Number.isInteger(value))) return value;
+    this.fail(path, `expected ${integer ? 'an integer' : 'a finite number'}, got ${describe(value)}`);
+    return undefined;
+  }
+
+  date(value: unknown, path: string): Date | undefined {
+    if (value === undefined) return undefined;
+    const text = this.string(value, path);
+    if (text === undefined) return undefined;
+    const date = new Date(text);
+    if (Number.isNaN(date.getTime())) {
+      this.fail(path, `"${text}" is not an ISO 8601 date`);
+      return undefined;
+    }
+    return date;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+}
+
+function resolveUrl(url: string, baseUrl: string): string {
+  const base = typeof location !== 'undefined' ? new URL(baseUrl, location.href) : new URL(baseUrl);
+  return new URL(url, base).href;
+}
+
+/**
+ * "{index}" / "{index:N}"를 번호로 치환
+ */
+export function formatTimestepPattern(pattern: string, index: number): string {
+  return pattern.replace(/\{index(?::(\d+))?\}/g, (_, width?: string) =>
+    width ? String(index).padStart(Number(width), '0') : String(index)
+  );
+}
+
+function validateTimesteps(v: ManifestValidator, value: unknown, baseUrl: string, path = 'timesteps'): ResolvedTimestep[] {
+  if (!v.isObject(value, path)) return [];
+  const problemCount = v.problems.length;
+
+  if ('files' in value) {
+    if (!Array.isArray(value.files) || value.files.length === 0) {
+      v.fail(`${path}.files`, `expected a non-empty array, got ${describe(value.files)}`);
+      return [];
+    }
+    return value.files.flatMap((file: unknown, i: number): ResolvedTimestep[] => {
+      const filePath = `${path}.files[${i}]`;
+      if (typeof file === 'string') {
+        const url = v.string(file, filePath);
+        return url ? [{ index: i + 1, url: resolveUrl(url, baseUrl) }] : [];
+      }
+      if (!v.isObject(file, filePath)) return [];
+      const url = v.string(file.url, `${filePath}.url`);
+      const timestamp = v.date(file.time, `${filePath}.time`);
+      return url ? [{ index: i + 1, url: resolveUrl(url, baseUrl), timestamp }] : [];
+    });
+  }
+
+  if ('pattern' in value) {
+    const pattern = v.string(value.pattern, `${path}.pattern`);
+    const start = v.number(value.start, `${path}.start`, false, true);
+    const end = v.number(value.end, `${path}.end`, false, true);
+    const step = v.number(value.step, `${path}.step`, true, true) ?? 1;
+    const startTime = v.date(value.startTime, `${path}.startTime`);
+    const interval = v.number(value.interval, `${path}.interval`, true);
+
+    if (pattern && !/\{index(?::\d+)?\}/.test(pattern)) {
+      v.fail(`${path}.pattern`, `"${pattern}" must contain {index} (or {index:N} for zero padding)`);
+    }
+    if (step <= 0) v.fail(`${path}.step`, `must be greater than 0, got ${step}`);
+    if (start !== undefined && end !== undefined && end < start) {
+      v.fail(`${path}.end`, `must be >= start (${start}), got ${end}`);
+    }
+    if ((startTime === undefined) !== (interval === undefined)) {
+      v.fail(path, 'startTime and interval must be given together');
+    }
+    if (start !== undefined && end !== undefined && step > 0 && (end - start) / step + 1 > MAX_TIMESTEPS) {
+      v.fail(path, `pattern expands to more than ${MAX_TIMESTEPS} timesteps`);
+    }
+    if (v.problems.length > problemCount || !pattern || start === undefined || end === undefined) return [];
+
+    const timesteps: ResolvedTimestep[] = [];
+    for (let n = start, i = 0; n <= end; n += step, i++) {
+      timesteps.push({
+        index: i + 1,
+        url: resolveUrl(formatTimestepPattern(pattern, n), baseUrl),
+        timestamp: startTime && interval !== undefined ? new Date(startTime.getTime() + i * interval * 1000) : undefined
+      });
+    }
+    return timesteps;
+  }
+
+  v.fail(path, 'expected either "files" (a list) or "pattern" with "start" and "end"');
+  return [];
+}
+
+function isMeshFormat(value: unknown): value is MeshFormat {
+  return MESH_FORMATS.some(format => format === value);
+}
+
+/**
+ * csv: columns(필드 -> 헤더 이름 또는 0부터 시작하는 인덱스), extraColumns(문자열 배열 또는 'all'), delimiter
+ */
+function validateCsvOptions(v: ManifestValidator, value: unknown): Omit<TimeSeriesCsvOptions, 'knownNodeIds'> | undefined {
+  if (value === undefined || !v.isObject(value, 'csv')) return undefined;
+  const options: Omit<TimeSeriesCsvOptions, 'knownNodeIds'> = {};
+
+  const columns = value.columns;
+  if (columns !== undefined && v.isObject(columns, 'csv.columns')) {
+    const mapping: CsvColumnMapping = {};
+    for (const [field, column] of Object.entries(columns)) {
+      const path = `csv.columns.${field}`;
+      const csvField = CSV_FIELDS.find(name => name === field);
+      if (!csvField) {
+        v.fail(path, `unknown field (expected one of ${CSV_FIELDS.join(', ')})`);
+      } else if (typeof column === 'number') {
+        const index = v.number(column, path, false, true);
+        if (index !== undefined && index < 0) v.fail(path, `must be >= 0, got ${index}`);
+        else if (index !== undefined) mapping[csvField] = index;
+      } else {
+        const header = v.string(column, path);
+        if (header) mapping[csvField] = header;
+      }
+    }
+    options.columns = mapping;
+  }
+
+  const extraColumns = value.extraColumns;
+  if (extraColumns === 'all') {
+    options.extraColumns = 'all';
+  } else if (Array.isArray(extraColumns)) {
+    options.extraColumns = extraColumns.flatMap((column: unknown, i: number) => v.string(column, `csv.extraColumns[${i}]`) ?? []);
+  } else if (extraColumns !== undefined) {
+    v.fail('csv.extraColumns', `expected "all" or a list of column names, got ${describe(extraColumns)}`);
+  }
+
+  const delimiter = value.delimiter;
+  // 탭도 구분자이므로 trim하지 않음
+  if (typeof delimiter === 'string' && delimiter.length > 0) options.delimiter = delimiter;
+  else if (delimiter !== undefined) v.fail('csv.delimiter', `expected a non-empty string, got ${describe(delimiter)}`);
+
+  return options;
+}
+
+function validateView(v: ManifestValidator, value: unknown): ManifestView | undefined {
+  if (value === undefined || !v.isObject(value, 'view')) return undefined;
+  if ('west' in value || 'south' in value || 'east' in value || 'north' in value) {
+    const west = v.number(value.west, 'view.west');
+    const south = v.number(value.south, 'view.south');
+    const east = v.number(value.east, 'view.east');
+    const north = v.number(value.north, 'view.north');
+    if (west === undefined || south === undefined || east === undefined || north === undefined) return undefined;
+    if (south >= north) v.fail('view', `south (${south}) must be less than north (${north})`);
+    return { west, south, east, north };
+  }
+  const longitude = v.number(value.longitude, 'view.longitude');
+  const latitude = v.number(value.latitude, 'view.latitude');
+  const height = v.number(value.height, 'view.height');
+  const heading = v.number(value.heading, 'view.heading', true);
+  const pitch = v.number(value.pitch, 'view.pitch', true);
+  const roll = v.number(value.roll, 'view.roll', true);
+  if (longitude === undefined || latitude === undefined || height === undefined) return undefined;
+  return { longitude, latitude, height, heading, pitch, roll };
+}
+
+/**
+ * manifest JSON 검증 + URL 해석
+ * @param json - 파싱된 JSON
+ * @param manifestUrl - 상대 URL의 기준
+ * @throws 문제가 하나라도 있으면 모든 문제를 줄 단위로 나열한 에러
+ */
+export function parseDatasetManifest(json: unknown, manifestUrl: string): ResolvedDatasetManifest {
+  const v = new ManifestValidator();
+  if (!v.isObject(json, 'manifest')) {
+    throw new Error(`Invalid dataset manifest (${manifestUrl}):\n  - ${v.problems.join('\n  - ')}`);
+  }
+
+  if (json.version !== undefined && json.version !== 1) {
+    v.fail('version', `unsupported version ${describe(json.version)} (supported: 1)`);
+  }
+  const name = v.string(json.name, 'name', true);
+
+  let polygonUrl: string | undefined;
+  let meshFormat: MeshFormat | undefined;
+  let crs: CrsDefinition | undefined;
+  const mesh = json.mesh;
+  if (v.isObject(mesh, 'mesh')) {
+    polygonUrl = v.string(mesh.url, 'mesh.url');
+    if (mesh.format !== undefined) {
+      if (isMeshFormat(mesh.format)) meshFormat = mesh.format;
+      else v.fail('mesh.format', `expected one of ${MESH_FORMATS.join(', ')}, got ${describe(mesh.format)}`);
+    }
+    const meshCrs = mesh.crs;
+    if (meshCrs !== undefined) {
+      if (typeof meshCrs === 'string') crs = v.string(meshCrs, 'mesh.crs');
+      else if (v.isObject(meshCrs, 'mesh.crs')) {
+        const code = v.string(meshCrs.code, 'mesh.crs.code');
+        const proj4 = v.string(meshCrs.proj4, 'mesh.crs.proj4');
+        if (code && proj4) crs = { code, proj4 };
+      }
+    }
+  }
+
+  const maskUrl = v.string(json.mask, 'mask', true);
+  const scenarios: ResolvedScenario[] = [];
+  if (json.timesteps !== undefined || json.scenarios === undefined) {
+    scenarios.push({ name: 'default', timesteps: validateTimesteps(v, json.timesteps, manifestUrl) });
+  }
+  if (json.scenarios !== undefined) {
+    if (!Array.isArray(json.scenarios) || json.scenarios.length === 0) {
+      v.fail('scenarios', `expected a non-empty array, got ${describe(json.scenarios)}`);
+    } else {
+      json.scenarios.forEach((scenario: unknown, i: number) => {
+        const path = `scenarios[${i}]`;
+        if (!v.isObject(scenario, path)) return;
+        const scenarioName = v.string(scenario.name, `${path}.name`);
+        const timesteps = validateTimesteps(v, scenario.timesteps, manifestUrl, `${path}.timesteps`);
+        if (scenarioName && scenarios.some(s => s.name === scenarioName)) {
+          v.fail(`${path}.name`, `duplicate scenario name "${scenarioName}"`);
+        } else if (scenarioName) {
+          scenarios.push({ name: scenarioName, timesteps });
+        }
+      });
+    }
+  }
+
+  const csvOptions = validateCsvOptions(v, json.csv);
+  const minWaterDepth = v.number(json.minWaterDepth, 'minWaterDepth', true);
+  if (minWaterDepth !== undefined && minWaterDepth < 0) {
+    v.fail('minWaterDepth', `must be >= 0, got ${minWaterDepth}`);
+  }
+
+  const units: Partial<Record<ScalarFieldName, string>> = {};
+  const jsonUnits = json.units;
+  if (jsonUnits !== undefined && v.isObject(jsonUnits, 'units')) {
+    for (const [field, unit] of Object.entries(jsonUnits)) {
+      if (!SCALAR_FIELDS.includes(field as ScalarFieldName)) {
+        v.fail(`units.${field}`, `unknown field (expected one of ${SCALAR_FIELDS.join(', ')})`);
+        continue;
+      }
+      const value = v.string(unit, `units.${field}`);
+      if (value) units[field as ScalarFieldName] = value;
+    }
+  }
+
+  const view = validateView(v, json.view);
+
+  if (v.problems.length > 0) {
+    throw new Error(`Invalid dataset manifest (${manifestUrl}):\n  - ${v.problems.join('\n  - ')}`);
+  }
+
+  return {
+    url: manifestUrl,
+    name,
+    polygonUrl: resolveUrl(polygonUrl!, manifestUrl),
+    meshFormat,
+    crs,
+    maskUrl: maskUrl ? resolveUrl(maskUrl, manifestUrl) : undefined,
+    timesteps: scenarios[0].timesteps,
+    scenarios,
+    csvOptions,
+    minWaterDepth,
+    units,
+    view
+  };
+}
+
+/**
+ * manifest URL을 읽어서 검증
+ */
+export async function loadDatasetManifest(url: string, signal?: AbortSignal): Promise<ResolvedDatasetManifest> {
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Failed to fetch dataset manifest ${url}: ${res.status} ${res.statusText}`);
+  let json: unknown;
+  try {
+    json = JSON.parse(await res.text());
+  } catch (e) {
+    throw new Error(`Dataset manifest ${url} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return parseDatasetManifest(json, url);
+}
@@ -0,0 +1,235 @@
+import type { MeshElement, PolygonData, ProjectedBounds, Triangle, Vertex, VertexId } from './dataLoad';
+import type { CoordinateTransform } from './crs';
+
+/** =========================
+ *  Mesh file formats
+ *  - rgo: `GN`/`GE` 카드 (RMA 계열)
+ *  - 2dm: `ND`/`E3T`/`E4Q` 카드 (SMS/TUFLOW/HEC-RAS)
+ *  ========================= */
+export type MeshFormat = 'rgo' | '2dm';
+
+/**
+ * 메시 포맷 결정: 파일 확장자 -> 내용(MESH2D 헤더) 순. 둘 다 아니면 rgo
+ */
+export function detectMeshFormat(url: string, text?: string): MeshFormat {
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.2dm')) return '2dm';
+  if (path.endsWith('.rgo')) return 'rgo';
+  if (text !== undefined && /^\s*MESH2D\b/.test(text)) return '2dm';
+  return 'rgo';
+}
+
+export function parseMeshText(text: string, format: MeshFormat, toLonLat: CoordinateTransform): PolygonData {
+  switch (format) {
+    case 'rgo': return parsePolygonText(text, toLonLat);
+    case '2dm': return parse2dmText(text, toLonLat);
+    default: throw new Error(`Unsupported mesh format: ${format}`);
+  }
+}
+
+/** =========================
+ *  Helpers
+ *  ========================= */
+export function calculateSpatialBounds(vertices: Vertex[]): ProjectedBounds {
+  return vertices.reduce((acc, v) => ({
+    minLon: Math.min(acc.minLon, v.lon),
+    maxLon: Math.max(acc.maxLon, v.lon),
+    minLat: Math.min(acc.minLat, v.lat),
+    maxLat: Math.max(acc.maxLat, v.lat),
+    minZ: Math.min(acc.minZ, v.z),
+    maxZ: Math.max(acc.maxZ, v.z)
+  }), {
+    minLon: Infinity, maxLon: -Infinity,
+    minLat: Infinity, maxLat: -Infinity,
+    minZ: Infinity, maxZ: -Infinity
+  });
+}
+
+function parseNode(idStr: string, xStr: string, yStr: string, zStr: string, line: string, toLonLat: CoordinateTransform): Vertex {
+  const x = Number(xStr), y = Number(yStr);
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new Error(`Malformed node line (non-numeric coordinates): "${line.trim()}"`);
+  }
+  const [lon, lat] = toLonLat(x, y);
+  return { id: Number(idStr), lon, lat, z: Number(zStr) };
+}
+
+// 노드 슬롯 수 (삼각형/사각형, 6/8 노드 2차 요소)
+const GE_NODE_SLOTS = [3, 4, 6, 8];
+// 한 노드를 공유하는 요소 수의 현실적인 상한. 4번째 컬럼 값이 이보다 많이 반복되면 노드가 아니라 재질 ID
+const MAX_ELEMENTS_PER_NODE = 16;
+
+/**
+ * GE 라인(`GE id n1 n2 n3 [n4 ...] [mat]`)에 재질(material) 컬럼이 있는지 파일 단위로 결정
+ * - .rgo에는 요소 종류 키워드가 없으므로 모든 GE 라인에 공통인 컬럼 수로 판단
+ *   - 5/7/9개: 노드 슬롯(4/6/8) + 재질, 3/6/8개: 노드 슬롯만
+ *   - 4개는 "삼각형 + 재질"과 "사각형" 둘 다 가능: 마지막 컬럼에 0(빈 슬롯)이 있으면 노드 슬롯,
+ *     메시에 없는 노드 ID가 있거나 한 값이 MAX_ELEMENTS_PER_NODE보다 많이 반복되면 재질, 그 외에는 노드 슬롯
+ * - 라인마다 컬럼 수가 다르면 가장 짧은 라인이 4개 이상일 때 재질 컬럼이 있다고 봄 (재질 없는 삼각형은 3개)
+ * @param elementLines - GE 다음의 컬럼 (요소 ID 포함)
+ */
+function hasMaterialColumn(elementLines: string[][], vertices: Map<VertexId, Vertex>): boolean {
+  const counts = new Set(elementLines.map(columns => columns.length - 1));
+  if (counts.size !== 1) return Math.min(...counts) >= 4;
+  const [count] = counts;
+  if (count !== 4) return !GE_NODE_SLOTS.includes(count) && GE_NODE_SLOTS.includes(count - 1);
+
+  const lastColumn = elementLines.map(columns => Number(columns[columns.length - 1]));
+  if (lastColumn.includes(0)) return false;
+  if (lastColumn.some(id => !vertices.has(id))) return true;
+  const uses = new Map<number, number>();
+  for (const id of lastColumn) uses.set(id, (uses.get(id) ?? 0) + 1);
+  return Math.max(...uses.values()) > MAX_ELEMENTS_PER_NODE;
+}
+
+/**
+ * GE 라인의 노드 컬럼 -> 코너 노드 ID
+ * - 0인 노드 ID는 빈 슬롯(삼각형의 4번째 노드 등)
+ * - 6/8 노드(2차 요소)는 코너 노드만 사용
+ * - 사각형은 볼록 여부와 관계없이 그대로 (triangulateElements가 짧은 대각선으로 분할)
+ * @returns 코너 노드 ID, 또는 요소를 건너뛰는 이유
+ */
+function parseElementNodeIds(columns: string[], vertices: Map<VertexId, Vertex>): VertexId[] | string {
+  const nodeIds = columns.map(Number).filter(id => id !== 0);
+  if (!GE_NODE_SLOTS.includes(nodeIds.length)) {
+    return `${nodeIds.length} nodes (only triangles and quads are supported)`;
+  }
+  const unknown = nodeIds.filter(id => !vertices.has(id));
+  if (unknown.length > 0) return `unknown node IDs ${unknown.join(', ')}`;
+  if (new Set(nodeIds).size !== nodeIds.length) return `duplicate node IDs in ${nodeIds.join(' ')}`;
+  return nodeIds.length > 4 ? nodeIds.filter((_, i) => i % 2 === 0) : nodeIds;
+}
+
+/**
+ * 요소를 삼각형으로 분할
+ * - 삼각형: 그대로
+ * - 사각형: 짧은 대각선 기준으로 2개로 분할 (찌그러진 삼각형 방지)
+ */
+export function triangulateElements(elements: MeshElement[], vertices: Vertex[]): Triangle[] {
+  const vertexMap = new Map(vertices.map(v => [v.id, v]));
+  const distanceSq = (a: VertexId, b: VertexId) => {
+    const va = vertexMap.get(a), vb = vertexMap.get(b);
+    if (!va || !vb) return Infinity;
+    return (va.lon - vb.lon) ** 2 + (va.lat - vb.lat) ** 2;
+  };
+
+  const triangles: Triangle[] = [];
+  const push = (elementId: number, a: VertexId, b: VertexId, c: VertexId) => {
+    triangles.push({ id: triangles.length + 1, elementId, vertexIds: [a, b, c] });
+  };
+
+  for (const element of elements) {
+    const ids = element.vertexIds;
+    if (ids.length === 3) {
+      push(element.id, ids[0], ids[1], ids[2]);
+    } else if (ids.length === 4) {
+      const [a, b, c, d] = ids;
+      if (distanceSq(a, c) <= distanceSq(b, d)) {
+        push(element.id, a, b, c);
+        push(element.id, a, c, d);
+      } else {
+        push(element.id, a, b, d);
+        push(element.id, b, c, d);
+      }
+    }
+  }
+  return triangles;
+}
+
+/** =========================
+ *  .rgo
+ *  ========================= */
+export function parsePolygonText(text: string, toLonLat: CoordinateTransform): PolygonData {
+  const lines = text.trim().split(/\r?\n/);
+  const header = lines[0].trim().split(/\s+/);
+  if (header.length < 3) throw new Error("Malformed polygon header");
+
+  const vertexCount = Number(header[1]);
+  const elementCount = Number(header[2]);
+  const vertices: Vertex[] = [];
+  const elementLines: string[][] = [];
+
+  // 재질 컬럼 판별과 노드 ID 확인을 위해 요소는 노드와 모든 GE 라인을 읽은 뒤에 처리
+  for (const line of lines.slice(1)) {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 2) continue;
+    const [type, ...rest] = parts;
+
+    if (type === "GN" && rest.length >= 4) {
+      const [idStr, xStr, yStr, zStr] = rest;
+      vertices.push(parseNode(idStr, xStr, yStr, zStr, line, toLonLat));
+    } else if (type === "GE" && rest.length >= 4) {
+      elementLines.push(rest);
+    }
+  }
+
+  const vertexMap = new Map(vertices.map(v => [v.id, v]));
+  const material = elementLines.length > 0 && hasMaterialColumn(elementLines, vertexMap);
+  const elements: MeshElement[] = [];
+  for (const [idStr, ...columns] of elementLines) {
+    const vertexIds = parseElementNodeIds(material ? columns.slice(0, -1) : columns, vertexMap);
+    if (typeof vertexIds === 'string') {
+      console.warn(`Skipping GE element ${idStr}: ${vertexIds}`);
+      continue;
+    }
+    elements.push({ id: Number(idStr), vertexIds });
+  }
+
+  const triangles = triangulateElements(elements, vertices);
+  const bounds = calculateSpatialBounds(vertices);
+  return { vertexCount, elementCount, triangleCount: triangles.length, vertices, elements, triangles, bounds };
+}
+
+/** =========================
+ *  .2dm
+ *  ========================= */
+
+// 카드별 코너 노드 수와 전체 노드 컬럼 수 (2차 요소는 코너/중간 노드가 번갈아 나옴)
+const ELEMENT_CARDS_2DM: Record<string, { corners: number; nodeColumns: number }> = {
+  E3T: { corners: 3, nodeColumns: 3 },
+  E4Q: { corners: 4, nodeColumns: 4 },
+  E6T: { corners: 3, nodeColumns: 6 },
+  E8Q: { corners: 4, nodeColumns: 8 },
+};
+
+export function parse2dmText(text: string, toLonLat: CoordinateTransform): PolygonData {
+  const lines = text.trim().split(/\r?\n/);
+  if (!/^\s*MESH2D\b/.test(lines[0] ?? '')) throw new Error("Malformed 2dm file: missing MESH2D header");
+
+  const vertices: Vertex[] = [];
+  const elements: MeshElement[] = [];
+
+  for (const line of lines.slice(1)) {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 2) continue;
+    const [card, ...rest] = parts;
+
+    if (card === "ND") {
+      if (rest.length < 4) throw new Error(`Malformed ND line: "${line.trim()}"`);
+      const [idStr, xStr, yStr, zStr] = rest;
+      vertices.push(parseNode(idStr, xStr, yStr, zStr, line, toLonLat));
+    } else if (card in ELEMENT_CARDS_2DM) {
+      const { corners, nodeColumns } = ELEMENT_CARDS_2DM[card];
+      if (rest.length < 1 + nodeColumns) throw new Error(`Malformed ${card} line: "${line.trim()}"`);
+      const nodeIds = rest.slice(1, 1 + nodeColumns).map(Number);
+      const step = nodeColumns / corners;
+      elements.push({
+        id: Number(rest[0]),
+        vertexIds: nodeIds.filter((_, i) => i % step === 0)
+      });
+    }
+    // NS(nodestring), MESHNAME, MAT 등 나머지 카드는 무시
+  }
+
+  const triangles = triangulateElements(elements, vertices);
+  const bounds = calculateSpatialBounds(vertices);
+  return {
+    vertexCount: vertices.length,
+    elementCount: elements.length,
+    triangleCount: triangles.length,
+    vertices,
+    elements,
+    triangles,
+    bounds
+  };
+}
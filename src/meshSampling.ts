@@ -0,0 +1,74 @@
+import type { PolygonData } from './dataLoad';
+import type { FlowMeshData, FlowMeshGeometry, ScalarFieldName } from './flow/types';
+import { MESH_MAX_CELL_TRIANGLES } from './flow/shaders/calculateSpeed';
+import { SpatialGrid } from './spatialGrid';
+
+/** =========================
+ *  Mesh-native GPU sampling (FlowLayerOptions.sampling: 'mesh')
+ *  - 노드/삼각형/공간 격자를 한 번 만들어 모든 타임스텝이 공유하고, 스텝마다 노드 u/v만 바꿈
+ *  - DOM/Cesium 없이 동작
+ *  ========================= */
+
+const MAX_GRID_RESOLUTION = 1024;
+
+/**
+ * 메시를 GPU 업로드용 배열로 변환
+ * - 노드 좌표는 bounds 기준 0-1 정규화 (파티클 위치와 같은 공간, Float32 정밀도 확보)
+ * - 공간 격자는 셀당 삼각형 수가 셰이더의 MESH_MAX_CELL_TRIANGLES 이하가 되도록 해상도를 올림
+ */
+export function buildFlowMeshGeometry(polygon: PolygonData): FlowMeshGeometry {
+  const { vertices, triangles, bounds } = polygon;
+  const lonRange = bounds.maxLon - bounds.minLon;
+  const latRange = bounds.maxLat - bounds.minLat;
+
+  const nodes = new Float32Array(vertices.length * 2);
+  vertices.forEach((v, i) => {
+    nodes[i * 2] = lonRange > 0 ? (v.lon - bounds.minLon) / lonRange : 0;
+    nodes[i * 2 + 1] = latRange > 0 ? (v.lat - bounds.minLat) / latRange : 0;
+  });
+
+  const vertexIndex = new Map(vertices.map((v, i) => [v.id, i]));
+  const triangleNodes = new Uint32Array(triangles.length * 3);
+  triangles.forEach((tri, t) => {
+    const indices = tri.vertexIds.map(id => vertexIndex.get(id));
+    // 노드가 없는 삼각형은 퇴화 삼각형(0, 0, 0)으로 두어 셰이더에서 건너뜀
+    if (indices.some(index => index === undefined)) return;
+    triangleNodes.set(indices as number[], t * 3);
+  });
+
+  let resolution = Math.max(16, Math.ceil(Math.sqrt(triangles.length)));
+  let grid = new SpatialGrid(polygon, resolution).flatten();
+  while (grid.maxCellCount > MESH_MAX_CELL_TRIANGLES && resolution < MAX_GRID_RESOLUTION) {
+    resolution = Math.min(resolution * 2, MAX_GRID_RESOLUTION);
+    grid = new SpatialGrid(polygon, resolution).flatten();
+  }
+  if (grid.maxCellCount > MESH_MAX_CELL_TRIANGLES) {
+    console.warn(
+      `A mesh grid cell overlaps ${grid.maxCellCount} triangles (GPU limit ${MESH_MAX_CELL_TRIANGLES}). ` +
+      'Particles in that cell may miss their triangle and stop.'
+    );
+  }
+  const { columns, rows, cellStart, cellCount, triangleIndices } = grid;
+  return { nodes, triangles: triangleNodes, grid: { columns, rows, cellStart, cellCount, triangleIndices } };
+}
+
+/**
+ * 한 타임스텝의 노드 유속/스칼라 (polygon.vertices 순서, NaN = 값 없음)
+ */
+export function createFlowMeshData(
+  geometry: FlowMeshGeometry,
+  u: Float32Array,
+  v: Float32Array,
+  scalars?: Partial<Record<ScalarFieldName, Float32Array>>
+): FlowMeshData {
+  const nodeCount = geometry.nodes.length / 2;
+  if (u.length !== nodeCount || v.length !== nodeCount) {
+    throw new Error(`Mesh velocity needs ${nodeCount} values per component, got u: ${u.length}, v: ${v.length}`);
+  }
+  for (const [field, values] of Object.entries(scalars ?? {})) {
+    if (values.length !== nodeCount) {
+      throw new Error(`Mesh scalar ${field} needs ${nodeCount} values, got ${values.length}`);
+    }
+  }
+  return { geometry, u, v, scalars };
+}
@@ -0,0 +1,100 @@
+import type { NodeChannel } from './rasterize';
+
+/** =========================
+ *  Point time series (hydrograph)
+ *  - 한 지점의 값을 run 전체(또는 구간)에 대해 추출
+ *  - 스텝마다 노드 값만 읽어 포함 삼각형에서 보간 (래스터화 없음)
+ *  ========================= */
+
+export type PointTimeSeriesVariable = 'u' | 'v' | 'speed' | 'direction' | 'waterDepth' | 'waterElevation' | 'inflowRate';
+
+export const POINT_TIME_SERIES_VARIABLES: readonly PointTimeSeriesVariable[] = [
+  'speed', 'direction', 'u', 'v', 'waterDepth', 'waterElevation', 'inflowRate'
+];
+
+/**
+ * 스텝 위치 (노드 값이 있는 CSV/.mfts만 가능, 전처리 래스터 run은 메시 보간을 할 수 없음)
+ * - binaryUrl: .mfts의 스텝 번호 그대로
+ * - csvUrls: 스텝 n = csvUrls[n - 1]
+ */
+export type TimeSeriesSource =
+  | { binaryUrl: string }
+  | { csvUrls: string[] };
+
+export interface TimeSeriesRange {
+  source: TimeSeriesSource;
+  /** 첫 스텝 번호 (생략 시 run의 첫 스텝) */
+  start?: number;
+  /** 마지막 스텝 번호, 포함 (생략 시 run의 마지막 스텝) */
+  end?: number;
+}
+
+export interface PointTimeSeriesOptions {
+  /** 스텝을 하나 읽을 때마다 호출 (처음에 0 한 번) */
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface PointTimeSeries {
+  lon: number;
+  lat: number;
+  /** 포함 삼각형 (polygon.triangles 인덱스)과 원본 요소 ID */
+  triangleIndex: number;
+  elementId: number;
+  /** 하상고 (m, 시간에 따라 변하지 않음) */
+  bedElevation: number;
+  /** 스텝 번호 (values의 인덱스 순서) */
+  steps: number[];
+  /** 변수별 값 (읽지 못한 스텝, 값이 없는 노드가 섞인 스텝은 NaN) */
+  values: Partial<Record<PointTimeSeriesVariable, Float32Array>>;
+}
+
+/**
+ * 스텝별 노드 채널 LRU 캐시 (다른 지점을 다시 조회할 때 파일을 다시 읽지 않음)
+ * - key: .mfts URL + 스텝 번호 또는 CSV URL
+ * - 실패한 로드는 캐시하지 않음
+ */
+export class NodeChannelCache {
+  private readonly maxBytes: number;
+  /** Map 순서 = 사용 순서 (앞쪽이 가장 오래 전에 사용) */
+  private entries = new Map<string, { channels: Promise<NodeChannel[]>; bytes: number }>();
+  private bytes = 0;
+
+  constructor(maxBytes: number) {
+    this.maxBytes = maxBytes;
+  }
+
+  public get(key: string, load: () => Promise<NodeChannel[]>): Promise<NodeChannel[]> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached.channels;
+    }
+
+    const entry = { channels: load(), bytes: 0 };
+    this.entries.set(key, entry);
+    entry.channels.then(channels => {
+      if (this.entries.get(key) !== entry) return;
+      entry.bytes = channels.reduce((sum, channel) => sum + channel.byteLength, 0);
+      this.bytes += entry.bytes;
+      this.evict();
+    }, () => {
+      if (this.entries.get(key) === entry) this.entries.delete(key);
+    });
+    return entry.channels;
+  }
+
+  public clear() {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  private evict() {
+    for (const [key, entry] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      this.entries.delete(key);
+      this.bytes -= entry.bytes;
+    }
+  }
+}
@@ -0,0 +1,296 @@
+import type { FlowData, SeedPoint } from './flow';
+import { FLOW_SCALAR_CHANNELS, wetMaskFromDepth, type FlowRasterStats, type RasterizedFlowField } from './rasterize';
+
+/** =========================
+ *  Preprocessed raster run (CLI preprocessRun 출력)
+ *
+ *  메시 재투영/공간 인덱스/래스터화를 미리 끝낸 결과. 브라우저는 메시와 CSV 없이 바로 FlowData로 읽음.
+ *  (Float32 little-endian, row 0 = 남쪽(minLat), rasterize와 같은 격자)
+ *
+ *  <out>/run.json     RasterRunMetadata
+ *  <out>/mask.f32     mask[width * height] (메시 footprint, 1 = 유효)
+ *  <out>/seeds.f32    [lon0, lat0, lon1, lat1, ...] (bounds 기준 0-1 정규화)
+ *  <out>/<index>.f32  channel[0][width * height], channel[1][...], ... (RASTER_RUN_CHANNELS 순서)
+ *
+ *  u/v/speed의 메시 밖 픽셀은 0, 스칼라 채널은 NaN
+ *  ========================= */
+const VERSION = 1;
+
+export const RASTER_RUN_CHANNELS = ['u', 'v', 'speed', ...FLOW_SCALAR_CHANNELS] as const;
+
+type ScalarChannel = typeof FLOW_SCALAR_CHANNELS[number];
+
+export interface RasterRunStep {
+  /** 스텝 번호 (CSV 파일 이름의 숫자, 예: 12.csv -> 12) */
+  index: number;
+  /** 원본 파일 이름 등 */
+  label?: string;
+  /** run.json 기준 상대 경로 */
+  file: string;
+  /** u/v/speed min/max와 speed quantiles */
+  stats: FlowRasterStats;
+  /** 스칼라 채널 min/max (값이 하나도 없는 채널은 생략) */
+  scalars: Partial<Record<ScalarChannel, { min: number; max: number }>>;
+}
+
+export interface RasterRunMetadata {
+  version: number;
+  width: number;
+  height: number;
+  bounds: { west: number; south: number; east: number; north: number };
+  /** 스텝 파일의 채널 순서 */
+  channels: string[];
+  /** run.json 기준 상대 경로 */
+  mask: string;
+  seeds?: string;
+  steps: RasterRunStep[];
+}
+
+export interface RasterRunReaderOptions {
+  /** 젖은 셀로 보는 최소 수심 (m, 기본값 0.01). wetMask는 읽을 때 수심으로 생성 */
+  minWaterDepth?: number;
+}
+
+function resolveUrl(url: string, baseUrl: string): string {
+  const base = typeof location !== 'undefined' ? new URL(baseUrl, location.href) : new URL(baseUrl);
+  return new URL(url, base).href;
+}
+
+function scalarMinMax(array: Float32Array): { min: number; max: number } | undefined {
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < array.length; i++) {
+    const value = array[i];
+    if (Number.isNaN(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min === Infinity ? undefined : { min, max };
+}
+
+/**
+ * 래스터화 결과를 스텝 파일 바이트와 메타데이터로 변환
+ * @param raster - flowNodeChannels 채널로 rasterizeFlowField한 결과 (extras = FLOW_SCALAR_CHANNELS)
+ */
+export function encodeRasterRunStep(
+  raster: RasterizedFlowField,
+  index: number,
+  file: string,
+  label?: string
+): { step: RasterRunStep; bytes: Uint8Array } {
+  const size = raster.width * raster.height;
+  const channels = [raster.u, raster.v, raster.speed, ...raster.extras];
+  if (channels.length !== RASTER_RUN_CHANNELS.length) {
+    throw new Error(`Expected ${RASTER_RUN_CHANNELS.length} raster channels, got ${channels.length}`);
+  }
+  const data = new Float32Array(channels.length * size);
+  channels.forEach((channel, c) => data.set(channel, c * size));
+
+  const scalars: RasterRunStep['scalars'] = {};
+  FLOW_SCALAR_CHANNELS.forEach((name, i) => {
+    const range = scalarMinMax(raster.extras[i]);
+    if (range) scalars[name] = range;
+  });
+
+  return {
+    step: { index, ...(label !== undefined ? { label } : {}), file, stats: raster.stats, scalars },
+    bytes: new Uint8Array(data.buffer)
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 객체에서 유한한 숫자 필드만 골라냄 (하나라도 없으면 undefined)
+ */
+function finiteFields<K extends string>(value: unknown, keys: readonly K[]): Record<K, number> | undefined {
+  if (!isObject(value)) return undefined;
+  const result = {} as Record<K, number>;
+  for (const key of keys) {
+    const field = value[key];
+    if (typeof field !== 'number' || !Number.isFinite(field)) return undefined;
+    result[key] = field;
+  }
+  return result;
+}
+
+const STATS_KEYS = ['uMin', 'uMax', 'vMin', 'vMax', 'speedMin', 'speedMax'] as const;
+const QUANTILE_KEYS = ['q25', 'q50', 'q75', 'q90'] as const;
+
+/**
+ * run.json 검증 (unknown에서 필드마다 좁혀서 새 객체로 반환)
+ * @throws 버전/크기/채널/스텝 목록이 올바르지 않으면 에러
+ */
+export function parseRasterRunMetadata(json: unknown, url: string): RasterRunMetadata {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid raster run metadata (${url}): ${message}`);
+  };
+  if (!isObject(json)) return fail('expected a JSON object');
+  const { version, width, height, bounds, channels, mask, seeds, steps } = json;
+  if (version !== VERSION) fail(`unsupported version ${String(version)} (expected ${VERSION})`);
+  if (typeof width !== 'number' || !Number.isInteger(width) || width < 2
+    || typeof height !== 'number' || !Number.isInteger(height) || height < 2) {
+    return fail(`width and height must be integers >= 2, got ${String(width)}x${String(height)}`);
+  }
+  const parsedBounds = finiteFields(bounds, ['west', 'south', 'east', 'north'] as const)
+    ?? fail('bounds must have finite west, south, east and north');
+  if (!Array.isArray(channels) || channels.join() !== RASTER_RUN_CHANNELS.join()) {
+    fail(`channels must be [${RASTER_RUN_CHANNELS.join(', ')}]`);
+  }
+  if (typeof mask !== 'string') return fail('mask must be a file path');
+  if (seeds !== undefined && typeof seeds !== 'string') fail('seeds must be a file path');
+  if (!Array.isArray(steps) || steps.length === 0) return fail('steps must be a non-empty array');
+
+  const parsedSteps = steps.map((step: unknown, i: number): RasterRunStep => {
+    const invalid = () => fail(`steps[${i}] must have an integer index, a file and stats`);
+    if (!isObject(step)) return invalid();
+    const { index, label, file, stats, scalars } = step;
+    if (typeof index !== 'number' || !Number.isInteger(index) || typeof file !== 'string') return invalid();
+    const minMax = finiteFields(stats, STATS_KEYS);
+    const quantiles = isObject(stats) ? finiteFields(stats.quantiles, QUANTILE_KEYS) : undefined;
+    if (!minMax || !quantiles) return invalid();
+
+    const parsedScalars: RasterRunStep['scalars'] = {};
+    if (scalars !== undefined && !isObject(scalars)) fail(`steps[${i}].scalars must be an object`);
+    for (const name of FLOW_SCALAR_CHANNELS) {
+      if (!isObject(scalars) || scalars[name] === undefined) continue;
+      parsedScalars[name] = finiteFields(scalars[name], ['min', 'max'] as const)
+        ?? fail(`steps[${i}].scalars.${name} must have finite min and max`);
+    }
+    return {
+      index,
+      ...(typeof label === 'string' ? { label } : {}),
+      file,
+      stats: { ...minMax, quantiles },
+      scalars: parsedScalars
+    };
+  });
+
+  return {
+    version: VERSION,
+    width,
+    height,
+    bounds: parsedBounds,
+    channels: [...RASTER_RUN_CHANNELS],
+    mask,
+    ...(typeof seeds === 'string' ? { seeds } : {}),
+    steps: parsedSteps
+  };
+}
+
+/**
+ * 스텝 파일을 FlowData로 변환 (mask, seeds는 호출 측에서 공유 배열을 넣음)
+ */
+export function decodeRasterRunStep(
+  metadata: RasterRunMetadata,
+  step: RasterRunStep,
+  buffer: ArrayBuffer,
+  minWaterDepth: number
+): Omit<FlowData, 'mask' | 'seeds'> {
+  const size = metadata.width * metadata.height;
+  const expected = RASTER_RUN_CHANNELS.length * size * 4;
+  if (buffer.byteLength !== expected) {
+    throw new Error(`Raster step ${step.index} has ${buffer.byteLength} bytes, expected ${expected}`);
+  }
+  const channel = (c: number) => new Float32Array(buffer, c * size * 4, size);
+  const { stats } = step;
+  const [u, v, speed, depth, waterElevation, inflowRate] = RASTER_RUN_CHANNELS.map((_, c) => channel(c));
+  const scalar = (array: Float32Array, name: ScalarChannel) => ({ array, ...step.scalars[name] });
+
+  return {
+    u: { array: u, min: stats.uMin, max: stats.uMax },
+    v: { array: v, min: stats.vMin, max: stats.vMax },
+    speed: { array: speed, min: stats.speedMin, max: stats.speedMax, quantiles: stats.quantiles },
+    width: metadata.width,
+    height: metadata.height,
+    bounds: { ...metadata.bounds },
+    wetMask: wetMaskFromDepth(depth, minWaterDepth),
+    scalars: {
+      waterDepth: scalar(depth, 'waterDepth'),
+      waterElevation: scalar(waterElevation, 'waterElevation'),
+      inflowRate: scalar(inflowRate, 'inflowRate')
+    }
+  };
+}
+
+async function fetchArrayBuffer(url: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Failed to fetch raster run file ${url}: ${res.statusText}`);
+  return res.arrayBuffer();
+}
+
+/**
+ * 전처리된 래스터 run 리더 (run.json + mask/seeds는 open 때 1회, 스텝 파일은 readStep마다)
+ */
+export class RasterRunReader {
+  readonly url: string;
+  readonly metadata: RasterRunMetadata;
+  readonly mask: { array: Float32Array; min: number; max: number };
+  readonly seeds?: SeedPoint[];
+  private readonly minWaterDepth: number;
+  private readonly stepsByIndex: Map<number, RasterRunStep>;
+
+  private constructor(
+    url: string,
+    metadata: RasterRunMetadata,
+    mask: Float32Array,
+    seeds: SeedPoint[] | undefined,
+    options: RasterRunReaderOptions
+  ) {
+    this.url = url;
+    this.metadata = metadata;
+    this.mask = { array: mask, min: 0, max: 1 };
+    this.seeds = seeds;
+    this.minWaterDepth = options.minWaterDepth ?? 0.01;
+    this.stepsByIndex = new Map(metadata.steps.map(step => [step.index, step]));
+  }
+
+  /**
+   * Static factory method
+   * @param url - run.json URL
+   */
+  public static async open(url: string, options: RasterRunReaderOptions = {}, signal?: AbortSignal): Promise<RasterRunReader> {
+    const res = await fetch(url, { signal });
+    if (!res.ok) throw new Error(`Failed to fetch raster run metadata: ${res.statusText}`);
+    const metadata = parseRasterRunMetadata(await res.json(), url);
+
+    const [maskBuffer, seedsBuffer] = await Promise.all([
+      fetchArrayBuffer(resolveUrl(metadata.mask, url), signal),
+      metadata.seeds ? fetchArrayBuffer(resolveUrl(metadata.seeds, url), signal) : undefined
+    ]);
+    const mask = new Float32Array(maskBuffer);
+    if (mask.length !== metadata.width * metadata.height) {
+      throw new Error(`Raster run mask has ${mask.length} values, expected ${metadata.width * metadata.height}`);
+    }
+    let seeds: SeedPoint[] | undefined;
+    if (seedsBuffer) {
+      const coords = new Float32Array(seedsBuffer);
+      seeds = [];
+      for (let i = 0; i + 1 < coords.length; i += 2) seeds.push({ lon: coords[i], lat: coords[i + 1] });
+    }
+    return new RasterRunReader(url, metadata, mask, seeds, options);
+  }
+
+  public get steps(): RasterRunStep[] {
+    return this.metadata.steps;
+  }
+
+  public hasStep(stepIndex: number): boolean {
+    return this.stepsByIndex.has(stepIndex);
+  }
+
+  /**
+   * 스텝 번호(파일 이름 숫자)로 한 스텝 읽기. mask/seeds는 모든 스텝이 같은 배열을 공유
+   */
+  public async readStep(stepIndex: number, signal?: AbortSignal): Promise<FlowData> {
+    const step = this.stepsByIndex.get(stepIndex);
+    if (!step) throw new Error(`Step ${stepIndex} not found in ${this.url}`);
+    const buffer = await fetchArrayBuffer(resolveUrl(step.file, this.url), signal);
+    return {
+      ...decodeRasterRunStep(this.metadata, step, buffer, this.minWaterDepth),
+      mask: this.mask,
+      seeds: this.seeds
+    };
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Web Worker entry: 메시 -> 래스터 보간 (RasterWorkerPool에서 사용)
+ */
+import type { PolygonData } from './dataLoad';
+import { MeshRasterizer, rasterizeFlowField, type RasterizedFlowField } from './rasterize';
+
+export type RasterWorkerRequest =
+  | { type: 'init'; polygon: PolygonData; gridResolution: number }
+  | { type: 'rasterize'; id: number; channels: Float32Array[]; width: number; height: number };
+
+export type RasterWorkerResponse =
+  | { id: number; result: RasterizedFlowField }
+  | { id: number; error: string };
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<RasterWorkerRequest>) => void) | null;
+  postMessage(message: RasterWorkerResponse, transfer: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+let rasterizer: MeshRasterizer | undefined;
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    rasterizer = new MeshRasterizer(message.polygon, message.gridResolution);
+    return;
+  }
+
+  try {
+    if (!rasterizer) throw new Error('Raster worker used before init');
+    const result = rasterizeFlowField(rasterizer, message.channels, message.width, message.height);
+    const transfer = [result.u.buffer, result.v.buffer, result.speed.buffer, ...result.extras.map(e => e.buffer)];
+    scope.postMessage({ id: message.id, result }, transfer);
+  } catch (e) {
+    scope.postMessage({ id: message.id, error: e instanceof Error ? e.message : String(e) }, []);
+  }
+};
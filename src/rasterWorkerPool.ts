@@ -0,0 +1,142 @@
+import type { PolygonData } from './dataLoad';
+import type { NodeChannel, RasterizedFlowField } from './rasterize';
+import type { RasterWorkerRequest, RasterWorkerResponse } from './rasterWorker';
+import RasterWorker from './rasterWorker?worker&inline';
+
+interface PendingJob {
+  id: number;
+  channels: NodeChannel[];
+  width: number;
+  height: number;
+  resolve: (result: RasterizedFlowField) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 래스터 보간용 Web Worker 풀
+ * - 각 워커는 init 시 polygon을 받아 SpatialGrid를 1회 생성
+ * - 작업은 대기열에 쌓이고 쉬는 워커가 하나씩 가져감
+ * - 입력 채널과 결과 래스터는 transferable로 주고받음 (복사 없음)
+ * - onerror(스크립트 로드 실패, 크래시)가 난 워커는 종료하고 풀에서 뺌. 워커가 하나도 남지 않으면 이후 작업은 reject
+ */
+export class RasterWorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private running = new Map<Worker, PendingJob>();
+  private queue: PendingJob[] = [];
+  private nextId = 1;
+  private destroyed = false;
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /** 워커 수 (동시에 래스터화할 수 있는 스텝 수) */
+  public get size(): number {
+    return this.workers.length;
+  }
+
+  static defaultSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency ?? 2 : 2;
+    return Math.max(1, Math.min(4, cores - 1));
+  }
+
+  /**
+   * @throws 워커를 만들 수 없는 환경(CSP, sandbox 등)이면 에러
+   */
+  constructor(polygon: PolygonData, gridResolution: number, size: number = RasterWorkerPool.defaultSize()) {
+    for (let i = 0; i < size; i++) {
+      const worker = new RasterWorker({ name: `magflow-raster-${i}` });
+      worker.onmessage = (event: MessageEvent<RasterWorkerResponse>) => this.handleMessage(worker, event.data);
+      worker.onerror = (event: ErrorEvent) => this.handleError(worker, new Error(event.message || 'Raster worker failed'));
+      const init: RasterWorkerRequest = { type: 'init', polygon, gridResolution };
+      worker.postMessage(init);
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  /**
+   * @param signal - abort되면 대기열에서 빼고 reject. 이미 워커에서 실행 중이면 결과만 버림
+   */
+  public rasterize(channels: NodeChannel[], width: number, height: number, signal?: AbortSignal): Promise<RasterizedFlowField> {
+    if (this.destroyed) return Promise.reject(new Error('RasterWorkerPool is destroyed'));
+    if (this.workers.length === 0) return Promise.reject(new Error('RasterWorkerPool has no workers left'));
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+      const job: PendingJob = { id: this.nextId++, channels, width, height, resolve, reject };
+      if (signal) {
+        const onAbort = () => {
+          this.queue = this.queue.filter(j => j !== job);
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        job.resolve = result => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        };
+        job.reject = error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        };
+      }
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  private dispatch() {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const job = this.queue.shift()!;
+      this.running.set(worker, job);
+      const request: RasterWorkerRequest = {
+        type: 'rasterize', id: job.id, channels: job.channels, width: job.width, height: job.height
+      };
+      worker.postMessage(request, job.channels.map(c => c.buffer));
+    }
+  }
+
+  private handleMessage(worker: Worker, response: RasterWorkerResponse) {
+    const job = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+    if (job && job.id === response.id) {
+      if ('error' in response) job.reject(new Error(response.error));
+      else job.resolve(response.result);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * 워커 자체의 에러: 같은 워커는 이후 작업에도 응답하지 않을 수 있으므로 종료하고 풀에서 뺌
+   * - 남은 워커가 없으면 대기 중인 작업을 reject (호출한 쪽이 메인 스레드로 처리)
+   */
+  private handleError(worker: Worker, error: Error) {
+    const job = this.running.get(worker);
+    this.running.delete(worker);
+    worker.terminate();
+    this.workers = this.workers.filter(w => w !== worker);
+    this.idle = this.idle.filter(w => w !== worker);
+    job?.reject(error);
+    if (this.workers.length === 0) {
+      const queued = this.queue;
+      this.queue = [];
+      queued.forEach(j => j.reject(new Error(`RasterWorkerPool has no workers left: ${error.message}`)));
+      return;
+    }
+    this.dispatch();
+  }
+
+  public destroy() {
+    this.destroyed = true;
+    this.workers.forEach(w => w.terminate());
+    const error = new Error('RasterWorkerPool is destroyed');
+    this.running.forEach(job => job.reject(error));
+    this.queue.forEach(job => job.reject(error));
+    this.workers = [];
+    this.idle = [];
+    this.running.clear();
+    this.queue = [];
+  }
+}
@@ -0,0 +1,280 @@
+import type { MaskData, PolygonData, Quantiles, TimeSeriesData, TimeSeriesRecord, VertexId } from './dataLoad';
+import { SpatialGrid, isPointInTriangle, type PointLocation } from './spatialGrid';
+import { getQuantile } from './flow/utils';
+
+/** =========================
+ *  Mesh -> raster interpolation
+ *  - DOM/Cesium 없이 동작 (메인 스레드, Web Worker, Node CLI 공용)
+ *  ========================= */
+
+/** 노드별 값 배열 (polygon.vertices 순서, 값이 없는 노드는 NaN) */
+export type NodeChannel = Float32Array;
+
+export interface FlowRasterStats {
+  uMin: number; uMax: number;
+  vMin: number; vMax: number;
+  speedMin: number; speedMax: number;
+  quantiles: Quantiles;
+}
+
+export interface RasterizedFlowField {
+  width: number;
+  height: number;
+  u: Float32Array;
+  v: Float32Array;
+  speed: Float32Array;
+  /** u/v 뒤에 함께 넘긴 추가 채널의 래스터 (같은 순서) */
+  extras: Float32Array[];
+  stats: FlowRasterStats;
+}
+
+export class MeshRasterizer {
+  readonly polygon: PolygonData;
+  readonly grid: SpatialGrid;
+  private readonly vertexIndex: Map<VertexId, number>;
+  private readonly triangleVertexIndices: Int32Array;
+
+  constructor(polygon: PolygonData, gridResolution: number = 64) {
+    this.polygon = polygon;
+    this.grid = new SpatialGrid(polygon, gridResolution);
+    this.vertexIndex = new Map(polygon.vertices.map((v, i) => [v.id, i]));
+
+    this.triangleVertexIndices = new Int32Array(polygon.triangles.length * 3);
+    polygon.triangles.forEach((tri, t) => {
+      for (let k = 0; k < 3; k++) {
+        this.triangleVertexIndices[t * 3 + k] = this.vertexIndex.get(tri.vertexIds[k]) ?? -1;
+      }
+    });
+  }
+
+  /**
+   * TimeSeriesData를 노드 채널로 변환 (레코드가 없는 노드는 NaN)
+   */
+  public nodeChannels(timeSeries: TimeSeriesData, fields: ((record: TimeSeriesRecord) => number)[]): NodeChannel[] {
+    const channels = fields.map(() => new Float32Array(this.polygon.vertices.length).fill(NaN));
+    for (const record of timeSeries) {
+      const index = this.vertexIndex.get(record.nodeId);
+      if (index === undefined) continue;
+      fields.forEach((field, c) => { channels[c][index] = field(record); });
+    }
+    return channels;
+  }
+
+  /**
+   * locate 결과에 대해 채널별 값을 barycentric 보간
+   * - 세 노드 중 하나라도 NaN이면 해당 채널은 NaN
+   */
+  public interpolate(location: PointLocation, channels: NodeChannel[]): number[] {
+    const { triangleIndex, weights } = location;
+    if (!weights) return channels.map(() => NaN);
+    const i1 = this.triangleVertexIndices[triangleIndex * 3];
+    const i2 = this.triangleVertexIndices[triangleIndex * 3 + 1];
+    const i3 = this.triangleVertexIndices[triangleIndex * 3 + 2];
+    if (i1 < 0 || i2 < 0 || i3 < 0) return channels.map(() => NaN);
+    return channels.map(channel => weights[0] * channel[i1] + weights[1] * channel[i2] + weights[2] * channel[i3]);
+  }
+
+  /**
+   * 메시 bounds를 width x height 격자로 샘플링
+   * - 격자점을 포함하는 첫 번째 삼각형으로 보간, 메시 밖이나 값이 없는 노드가 있으면 fillValue
+   */
+  public rasterize(channels: NodeChannel[], width: number, height: number, fillValue = 0): Float32Array[] {
+    const { bounds } = this.polygon;
+    const rasters = channels.map(() => new Float32Array(width * height));
+
+    for (let j = 0; j < height; j++) {
+      for (let i = 0; i < width; i++) {
+        const lon = bounds.minLon + (i / (width - 1)) * (bounds.maxLon - bounds.minLon);
+        const lat = bounds.minLat + (j / (height - 1)) * (bounds.maxLat - bounds.minLat);
+        const arrayIndex = j * width + i;
+
+        const location = this.grid.locate(lon, lat);
+        const values = location ? this.interpolate(location, channels) : undefined;
+        for (let c = 0; c < rasters.length; c++) {
+          const value = values ? values[c] : NaN;
+          rasters[c][arrayIndex] = Number.isNaN(value) ? fillValue : value;
+        }
+      }
+    }
+    return rasters;
+  }
+
+  /**
+   * 메시 footprint 마스크 (삼각형이 덮는 격자점 = 1, 나머지 = 0)
+   * - rasterize와 같은 격자점/행 순서 (row 0 = minLat)
+   * - 격자점마다 locate하는 대신 삼각형별 bbox 안의 격자점만 검사
+   */
+  public coverage(width: number, height: number): Float32Array {
+    const { bounds, triangles, vertices } = this.polygon;
+    const mask = new Float32Array(width * height);
+    const lonStep = (bounds.maxLon - bounds.minLon) / (width - 1);
+    const latStep = (bounds.maxLat - bounds.minLat) / (height - 1);
+
+    for (let t = 0; t < triangles.length; t++) {
+      const i1 = this.triangleVertexIndices[t * 3];
+      const i2 = this.triangleVertexIndices[t * 3 + 1];
+      const i3 = this.triangleVertexIndices[t * 3 + 2];
+      if (i1 < 0 || i2 < 0 || i3 < 0) continue;
+      const v1 = vertices[i1], v2 = vertices[i2], v3 = vertices[i3];
+
+      const colStart = Math.max(0, Math.floor((Math.min(v1.lon, v2.lon, v3.lon) - bounds.minLon) / lonStep));
+      const colEnd = Math.min(width - 1, Math.ceil((Math.max(v1.lon, v2.lon, v3.lon) - bounds.minLon) / lonStep));
+      const rowStart = Math.max(0, Math.floor((Math.min(v1.lat, v2.lat, v3.lat) - bounds.minLat) / latStep));
+      const rowEnd = Math.min(height - 1, Math.ceil((Math.max(v1.lat, v2.lat, v3.lat) - bounds.minLat) / latStep));
+
+      for (let j = rowStart; j <= rowEnd; j++) {
+        const lat = bounds.minLat + (j / (height - 1)) * (bounds.maxLat - bounds.minLat);
+        for (let i = colStart; i <= colEnd; i++) {
+          const arrayIndex = j * width + i;
+          if (mask[arrayIndex] === 1) continue;
+          const lon = bounds.minLon + (i / (width - 1)) * (bounds.maxLon - bounds.minLon);
+          if (isPointInTriangle(lon, lat, v1, v2, v3)) mask[arrayIndex] = 1;
+        }
+      }
+    }
+    return mask;
+  }
+}
+
+/**
+ * u/v 래스터로부터 speed와 min/max/quantiles 계산
+ * - NaN(메시 밖/값 없음) 픽셀은 통계에서 제외하고 0으로 바꿈
+ * - speed 0인 픽셀은 quantiles에서 제외
+ */
+export function summarizeFlowRaster(u: Float32Array, v: Float32Array): { speed: Float32Array; stats: FlowRasterStats } {
+  const speed = new Float32Array(u.length);
+  const nonZeroSpeeds: number[] = [];
+
+  let uMin = Infinity, uMax = -Infinity;
+  let vMin = Infinity, vMax = -Infinity;
+  let speedMin = Infinity, speedMax = -Infinity;
+
+  for (let i = 0; i < u.length; i++) {
+    const vx = u[i], vy = v[i];
+    if (Number.isNaN(vx) || Number.isNaN(vy)) {
+      u[i] = 0;
+      v[i] = 0;
+      continue;
+    }
+    const s = Math.sqrt(vx * vx + vy * vy);
+    speed[i] = s;
+    if (s > 0) nonZeroSpeeds.push(s);
+
+    uMin = Math.min(uMin, vx);
+    uMax = Math.max(uMax, vx);
+    vMin = Math.min(vMin, vy);
+    vMax = Math.max(vMax, vy);
+    speedMin = Math.min(speedMin, s);
+    speedMax = Math.max(speedMax, s);
+  }
+
+  if (uMin === Infinity) {
+    uMin = uMax = vMin = vMax = speedMin = speedMax = 0;
+  }
+
+  let quantiles: Quantiles;
+  if (nonZeroSpeeds.length === 0) {
+    quantiles = { q25: 0, q50: 0, q75: 0, q90: 0 };
+  } else {
+    const sortedSpeeds = nonZeroSpeeds.sort((a, b) => a - b);
+    quantiles = {
+      q25: getQuantile(sortedSpeeds, 0.25),
+      q50: getQuantile(sortedSpeeds, 0.5),
+      q75: getQuantile(sortedSpeeds, 0.75),
+      q90: getQuantile(sortedSpeeds, 0.9),
+    };
+  }
+
+  return { speed, stats: { uMin, uMax, vMin, vMax, speedMin, speedMax, quantiles } };
+}
+
+const METERS_PER_DEGREE = 111320;
+
+/** 래스터 한 변의 최대 픽셀 수 (WebGL 텍스처 크기 제한) */
+export const MAX_RASTER_SIZE = 4096;
+
+export interface RasterSizeOptions {
+  /** 긴 변의 픽셀 수 (기본값 1024). 짧은 변은 bounds의 미터 단위 가로/세로 비율로 결정 */
+  size?: number;
+  /** 목표 셀 크기 (m). 지정하면 size 대신 사용 (긴 변이 MAX_RASTER_SIZE를 넘으면 비율을 유지해 줄임) */
+  cellSize?: number;
+}
+
+/**
+ * 메시 bounds에 맞는 래스터 가로/세로 픽셀 수
+ * - 가로/세로 길이는 중심 위도 기준의 근사 미터로 계산 (격자점 간격이 두 방향에서 거의 같아짐)
+ * - 격자점은 bounds 양 끝을 포함하므로 셀 수 + 1, 각 변은 최소 2
+ */
+export function rasterDimensions(bounds: PolygonData['bounds'], options: RasterSizeOptions = {}): { width: number; height: number } {
+  const cosLat = Math.cos(((bounds.minLat + bounds.maxLat) / 2) * Math.PI / 180);
+  const widthMeters = (bounds.maxLon - bounds.minLon) * cosLat * METERS_PER_DEGREE;
+  const heightMeters = (bounds.maxLat - bounds.minLat) * METERS_PER_DEGREE;
+  const longest = Math.max(widthMeters, heightMeters);
+  if (!(longest > 0)) {
+    const size = Math.max(2, Math.round(options.size ?? 1024));
+    return { width: size, height: size };
+  }
+
+  let cells: number;
+  if (options.cellSize !== undefined) {
+    if (!(options.cellSize > 0)) throw new Error(`cellSize must be a positive number of meters: ${options.cellSize}`);
+    cells = Math.round(longest / options.cellSize);
+    if (cells + 1 > MAX_RASTER_SIZE) {
+      console.warn(
+        `A cell size of ${options.cellSize} m needs ${cells + 1} pixels along the longer side. ` +
+        `Limiting the raster to ${MAX_RASTER_SIZE} pixels (${(longest / (MAX_RASTER_SIZE - 1)).toFixed(2)} m cells).`
+      );
+      cells = MAX_RASTER_SIZE - 1;
+    }
+  } else {
+    cells = Math.min(Math.max(2, Math.round(options.size ?? 1024)), MAX_RASTER_SIZE) - 1;
+  }
+  const side = (meters: number) => Math.max(2, Math.round((meters / longest) * cells) + 1);
+  return { width: side(widthMeters), height: side(heightMeters) };
+}
+
+/**
+ * 노드 채널(u, v, ...extras)을 래스터화하고 유속 통계까지 계산
+ * - u/v/speed의 메시 밖 픽셀은 0, extras는 NaN
+ */
+export function rasterizeFlowField(
+  rasterizer: MeshRasterizer,
+  channels: NodeChannel[],
+  width: number,
+  height: number
+): RasterizedFlowField {
+  const [u, v, ...extras] = rasterizer.rasterize(channels, width, height, NaN);
+  const { speed, stats } = summarizeFlowRaster(u, v);
+  return { width, height, u, v, speed, extras, stats };
+}
+
+/** FlowData.scalars로 들어가는 채널 (flowNodeChannels에서 u, v 뒤의 순서) */
+export const FLOW_SCALAR_CHANNELS = ['waterDepth', 'waterElevation', 'inflowRate'] as const;
+
+/**
+ * FlowData 생성용 노드 채널 (u, v, ...FLOW_SCALAR_CHANNELS)
+ */
+export function flowNodeChannels(rasterizer: MeshRasterizer, timeSeries: TimeSeriesData): NodeChannel[] {
+  return rasterizer.nodeChannels(timeSeries, [
+    r => r.velocityX,
+    r => r.velocityY,
+    r => r.waterDepth,
+    r => r.waterElevation,
+    r => r.inflowRate
+  ]);
+}
+
+/**
+ * 수심 래스터 -> wet/dry 마스크 (수심 < minWaterDepth 이면 0, NaN이면 1)
+ */
+export function wetMaskFromDepth(depth: Float32Array, minWaterDepth: number): MaskData {
+  const array = new Float32Array(depth.length);
+  let min = 1, max = 0;
+  for (let i = 0; i < depth.length; i++) {
+    const wet = depth[i] < minWaterDepth ? 0 : 1;
+    array[i] = wet;
+    min = Math.min(min, wet);
+    max = Math.max(max, wet);
+  }
+  return { array, min, max };
+}
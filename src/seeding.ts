@@ -0,0 +1,335 @@
+import type { PolygonData, VertexId } from './dataLoad';
+import type { SeedPoint } from './flow';
+
+/** =========================
+ *  Seed generation
+ *  - 파티클이 다시 생성되는 위치 (bounds 기준 0-1 정규화 좌표)
+ *  - 거리/면적은 메시 중심 위도 기준의 근사 미터 좌표로 계산 (작은 유역에서는 충분히 정확)
+ *  - DOM/Cesium 없이 동작 (Node CLI 공용)
+ *  ========================= */
+
+/**
+ * - area: 삼각형 면적에 비례 (기본값, 메시 밀도와 무관하게 균등)
+ * - velocity: 면적 x 평균 유속에 비례 (흐름이 빠른 곳에 집중)
+ * - poisson: Poisson-disk (seed 간 최소 거리를 지켜 뭉치지 않게)
+ * - inflow: 유입 경계를 따라 (유입부에서 흘러 들어가는 모습)
+ */
+export type SeedStrategy = 'area' | 'velocity' | 'poisson' | 'inflow';
+
+export interface SeedOptions {
+  /** 노드별 유속 성분 (polygon.vertices 순서, NaN = 값 없음). velocity 전략과 inflow 경계 판정에 사용 */
+  nodeVelocities?: { u: ArrayLike<number>; v: ArrayLike<number> };
+  /**
+   * 노드별 유입량 (inflowRate 열, polygon.vertices 순서, NaN = 값 없음)
+   * - inflow 전략에서 0이 아닌 노드를 유입 노드로 사용. 없거나 모두 0이면 유속 방향으로 판정
+   */
+  nodeInflowRates?: ArrayLike<number>;
+  /** 유입 경계 노드 ID. 지정하면 inflow 전략에서 nodeInflowRates와 유속 대신 사용 */
+  inflowNodeIds?: Iterable<VertexId>;
+  /** poisson: seed 간 최소 거리 (m, 생략 시 면적과 개수로 계산) */
+  minDistance?: number;
+  /** 난수 생성기 (기본값 Math.random). createRandom(seed)를 넘기면 같은 seed에서 항상 같은 seeds */
+  random?: () => number;
+}
+
+const METERS_PER_DEGREE = 111320;
+
+interface MeshGeometry {
+  /** 노드별 근사 미터 좌표 (polygon.vertices 순서) */
+  x: Float64Array;
+  y: Float64Array;
+  /** 삼각형별 노드 인덱스 (-1 = 메시에 없는 노드) */
+  triangles: Int32Array;
+  areas: Float64Array;
+}
+
+function buildGeometry(polygon: PolygonData): MeshGeometry {
+  const { vertices, bounds } = polygon;
+  const cosLat = Math.cos(((bounds.minLat + bounds.maxLat) / 2) * Math.PI / 180);
+  const x = new Float64Array(vertices.length);
+  const y = new Float64Array(vertices.length);
+  vertices.forEach((v, i) => {
+    x[i] = (v.lon - bounds.minLon) * cosLat * METERS_PER_DEGREE;
+    y[i] = (v.lat - bounds.minLat) * METERS_PER_DEGREE;
+  });
+
+  const vertexIndex = new Map(vertices.map((v, i) => [v.id, i]));
+  const triangles = new Int32Array(polygon.triangles.length * 3);
+  const areas = new Float64Array(polygon.triangles.length);
+  polygon.triangles.forEach((tri, t) => {
+    const [a, b, c] = tri.vertexIds.map(id => vertexIndex.get(id) ?? -1);
+    triangles.set([a, b, c], t * 3);
+    if (a < 0 || b < 0 || c < 0) return;
+    areas[t] = Math.abs((x[b] - x[a]) * (y[c] - y[a]) - (x[c] - x[a]) * (y[b] - y[a])) / 2;
+  });
+  return { x, y, triangles, areas };
+}
+
+/**
+ * 가중치에 비례해 인덱스를 고르는 샘플러 (누적합 + 이진 탐색). 가중치 합이 0이면 undefined
+ */
+function createWeightedSampler(weights: ArrayLike<number>, random: () => number): (() => number) | undefined {
+  const cumulative = new Float64Array(weights.length);
+  let total = 0;
+  for (let i = 0; i < weights.length; i++) {
+    const w = weights[i];
+    total += Number.isFinite(w) && w > 0 ? w : 0;
+    cumulative[i] = total;
+  }
+  if (total <= 0) return undefined;
+  return () => {
+    const target = random() * total;
+    let lo = 0, hi = cumulative.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] > target) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  };
+}
+
+/**
+ * 삼각형 t 안의 균등 분포 점 (노드 인덱스 기준 barycentric)
+ */
+function samplePointInTriangle(geometry: MeshGeometry, t: number, random: () => number): [number, number] {
+  const { x, y, triangles } = geometry;
+  const a = triangles[t * 3], b = triangles[t * 3 + 1], c = triangles[t * 3 + 2];
+  let r1 = random();
+  let r2 = random();
+  // This ensures the point is uniformly distributed within the triangle
+  if (r1 + r2 > 1) {
+    r1 = 1 - r1;
+    r2 = 1 - r2;
+  }
+  const r3 = 1 - r1 - r2;
+  return [r1 * x[a] + r2 * x[b] + r3 * x[c], r1 * y[a] + r2 * y[b] + r3 * y[c]];
+}
+
+/**
+ * 근사 미터 좌표 -> bounds 기준 0-1 정규화 좌표
+ */
+function toSeedPoint(polygon: PolygonData, px: number, py: number): SeedPoint {
+  const { bounds } = polygon;
+  const cosLat = Math.cos(((bounds.minLat + bounds.maxLat) / 2) * Math.PI / 180);
+  const lon = bounds.minLon + px / (cosLat * METERS_PER_DEGREE);
+  const lat = bounds.minLat + py / METERS_PER_DEGREE;
+  return {
+    lon: (lon - bounds.minLon) / (bounds.maxLon - bounds.minLon),
+    lat: (lat - bounds.minLat) / (bounds.maxLat - bounds.minLat)
+  };
+}
+
+function sampleByWeight(
+  polygon: PolygonData,
+  geometry: MeshGeometry,
+  sampler: () => number,
+  count: number,
+  random: () => number
+): SeedPoint[] {
+  const seeds: SeedPoint[] = [];
+  for (let i = 0; i < count; i++) {
+    seeds.push(toSeedPoint(polygon, ...samplePointInTriangle(geometry, sampler(), random)));
+  }
+  return seeds;
+}
+
+function velocityWeights(geometry: MeshGeometry, velocities: { u: ArrayLike<number>; v: ArrayLike<number> }): Float64Array {
+  const { triangles, areas } = geometry;
+  const weights = new Float64Array(areas.length);
+  const speed = (i: number) => {
+    const s = Math.hypot(velocities.u[i], velocities.v[i]);
+    return Number.isFinite(s) ? s : 0;
+  };
+  for (let t = 0; t < areas.length; t++) {
+    const a = triangles[t * 3], b = triangles[t * 3 + 1], c = triangles[t * 3 + 2];
+    if (a < 0 || b < 0 || c < 0) continue;
+    weights[t] = areas[t] * (speed(a) + speed(b) + speed(c)) / 3;
+  }
+  return weights;
+}
+
+/**
+ * Poisson-disk (dart throwing): 면적 비례 후보 중 기존 seed와 minDistance 이상 떨어진 것만 채택
+ * - 공간 해시 격자(셀 크기 minDistance/√2, 셀당 최대 1개)로 주변 셀만 검사
+ * - 시도 횟수(count x 30) 안에 다 채우지 못하면 그보다 적게 반환
+ */
+function samplePoissonDisk(
+  polygon: PolygonData,
+  geometry: MeshGeometry,
+  sampler: () => number,
+  count: number,
+  random: () => number,
+  minDistance?: number
+): SeedPoint[] {
+  let totalArea = 0;
+  for (let t = 0; t < geometry.areas.length; t++) totalArea += geometry.areas[t];
+  // 육각 배치 최대 밀도의 약 65% (dart throwing이 count에 가깝게 채울 수 있는 간격)
+  const radius = minDistance ?? 0.7 * Math.sqrt(totalArea / count);
+  const cellSize = radius / Math.SQRT2;
+  const cells = new Map<string, [number, number]>();
+  const points: [number, number][] = [];
+
+  const maxAttempts = count * 30;
+  for (let attempt = 0; attempt < maxAttempts && points.length < count; attempt++) {
+    const [px, py] = samplePointInTriangle(geometry, sampler(), random);
+    const gx = Math.floor(px / cellSize), gy = Math.floor(py / cellSize);
+    let accepted = true;
+    for (let dy = -2; dy <= 2 && accepted; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        const other = cells.get(`${gx + dx},${gy + dy}`);
+        if (other && (other[0] - px) ** 2 + (other[1] - py) ** 2 < radius * radius) {
+          accepted = false;
+          break;
+        }
+      }
+    }
+    if (!accepted) continue;
+    cells.set(`${gx},${gy}`, [px, py]);
+    points.push([px, py]);
+  }
+  if (points.length < count) {
+    console.warn(`Poisson-disk seeding placed ${points.length} of ${count} seeds (min distance ${radius.toFixed(1)} m)`);
+  }
+  return points.map(([px, py]) => toSeedPoint(polygon, px, py));
+}
+
+/**
+ * 유입 경계를 따라 seed 생성
+ * - 경계 변(한 삼각형에만 속한 변) 중 유입 변을 고름
+ *   - inflowNodes(지정한 노드 또는 inflowRate가 0이 아닌 노드)가 있으면 두 끝 노드가 모두 유입 노드인 변 (길이에 비례)
+ *   - 없으면 평균 유속이 메시 안쪽을 향하는 변 (길이 x 유입 유속에 비례)
+ * - 변 위의 점을 메시 안쪽(반대편 노드 쪽)으로 살짝 이동
+ * - 지정한 유입 노드가 경계 변을 이루지 않으면 그 노드에 붙은 삼각형 안의 노드 근처 점
+ */
+function sampleInflowBoundary(
+  polygon: PolygonData,
+  geometry: MeshGeometry,
+  count: number,
+  random: () => number,
+  inflowNodes?: Set<number>,
+  velocities?: { u: ArrayLike<number>; v: ArrayLike<number> }
+): SeedPoint[] | undefined {
+  const { x, y, triangles } = geometry;
+  const vertexCount = x.length;
+  // 변 -> [변을 가진 삼각형 수, 반대편 노드]
+  const edges = new Map<number, [number, number]>();
+  const nodeTriangles: [number, number, number][] = []; // [유입 노드, 다른 노드, 다른 노드]
+  for (let t = 0; t < triangles.length / 3; t++) {
+    const tri = [triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]];
+    if (tri.some(i => i < 0)) continue;
+    for (let k = 0; k < 3; k++) {
+      const a = tri[k], b = tri[(k + 1) % 3], opposite = tri[(k + 2) % 3];
+      const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+      const edge = edges.get(key);
+      if (edge) edge[0]++;
+      else edges.set(key, [1, opposite]);
+      if (inflowNodes?.has(a)) nodeTriangles.push([a, b, opposite]);
+    }
+  }
+
+  const boundary: [number, number, number][] = []; // [a, b, opposite]
+  const weights: number[] = [];
+  for (const [key, [uses, opposite]] of edges) {
+    if (uses !== 1) continue;
+    const a = Math.floor(key / vertexCount), b = key % vertexCount;
+    const length = Math.hypot(x[b] - x[a], y[b] - y[a]);
+    let weight = 0;
+    if (inflowNodes) {
+      weight = inflowNodes.has(a) && inflowNodes.has(b) ? length : 0;
+    } else if (velocities && length > 0) {
+      // 바깥 방향 법선 (반대편 노드에서 멀어지는 쪽)
+      let nx = (y[b] - y[a]) / length, ny = -(x[b] - x[a]) / length;
+      if (nx * (x[opposite] - x[a]) + ny * (y[opposite] - y[a]) > 0) {
+        nx = -nx;
+        ny = -ny;
+      }
+      const vx = (velocities.u[a] + velocities.u[b]) / 2;
+      const vy = (velocities.v[a] + velocities.v[b]) / 2;
+      const inflow = -(vx * nx + vy * ny);
+      weight = Number.isFinite(inflow) && inflow > 0 ? length * inflow : 0;
+    }
+    if (weight > 0) {
+      boundary.push([a, b, opposite]);
+      weights.push(weight);
+    }
+  }
+
+  const seeds: SeedPoint[] = [];
+  const sampler = createWeightedSampler(weights, random);
+  if (sampler) {
+    for (let i = 0; i < count; i++) {
+      const [a, b, opposite] = boundary[sampler()];
+      const s = random();
+      // 경계 위의 점은 메시 밖으로 판정될 수 있으므로 반대편 노드 쪽으로 최대 5% 이동
+      const inward = 0.01 + random() * 0.04;
+      const ex = x[a] + s * (x[b] - x[a]), ey = y[a] + s * (y[b] - y[a]);
+      seeds.push(toSeedPoint(polygon, ex + inward * (x[opposite] - ex), ey + inward * (y[opposite] - ey)));
+    }
+    return seeds;
+  }
+  if (nodeTriangles.length === 0) return undefined;
+  for (let i = 0; i < count; i++) {
+    const [node, b, c] = nodeTriangles[Math.floor(random() * nodeTriangles.length)];
+    const w = 0.8 + random() * 0.2;
+    const r = random() * (1 - w);
+    seeds.push(toSeedPoint(polygon, w * x[node] + r * x[b] + (1 - w - r) * x[c], w * y[node] + r * y[b] + (1 - w - r) * y[c]));
+  }
+  return seeds;
+}
+
+/**
+ * inflowRate가 0이 아닌 노드 인덱스 (없으면 undefined → 유속 방향으로 판정)
+ */
+function inflowRateNodes(rates: ArrayLike<number>): Set<number> | undefined {
+  const nodes = new Set<number>();
+  for (let i = 0; i < rates.length; i++) {
+    if (Number.isFinite(rates[i]) && rates[i] !== 0) nodes.add(i);
+  }
+  return nodes.size > 0 ? nodes : undefined;
+}
+
+/**
+ * 전략에 따라 seeds 생성
+ * - velocity/inflow에 필요한 값이 없거나 모두 0이면 경고 후 area로 대체
+ */
+export function generateSeeds(
+  polygon: PolygonData,
+  count: number,
+  strategy: SeedStrategy = 'area',
+  options: SeedOptions = {}
+): SeedPoint[] {
+  const geometry = buildGeometry(polygon);
+  const random = options.random ?? Math.random;
+  const areaSampler = createWeightedSampler(geometry.areas, random);
+  if (!areaSampler || count <= 0) return [];
+
+  switch (strategy) {
+    case 'velocity': {
+      const sampler = options.nodeVelocities && createWeightedSampler(velocityWeights(geometry, options.nodeVelocities), random);
+      if (sampler) return sampleByWeight(polygon, geometry, sampler, count, random);
+      console.warn('Velocity-weighted seeding needs node velocities of a loaded time step. Using area-weighted seeds.');
+      break;
+    }
+    case 'poisson':
+      return samplePoissonDisk(polygon, geometry, areaSampler, count, random, options.minDistance);
+    case 'inflow': {
+      let inflowNodes: Set<number> | undefined;
+      if (options.inflowNodeIds) {
+        const vertexIndex = new Map(polygon.vertices.map((v, i) => [v.id, i]));
+        inflowNodes = new Set();
+        for (const id of options.inflowNodeIds) {
+          const index = vertexIndex.get(id);
+          if (index !== undefined) inflowNodes.add(index);
+        }
+      } else if (options.nodeInflowRates) {
+        inflowNodes = inflowRateNodes(options.nodeInflowRates);
+      }
+      const seeds = sampleInflowBoundary(polygon, geometry, count, random, inflowNodes, options.nodeVelocities);
+      if (seeds) return seeds;
+      console.warn('Inflow seeding found no inflow boundary (needs inflowNodeIds, inflowRate or node velocities of a loaded time step). Using area-weighted seeds.');
+      break;
+    }
+  }
+  return sampleByWeight(polygon, geometry, areaSampler, count, random);
+}
@@ -0,0 +1,153 @@
+import type { PolygonData, ProjectedBounds, Triangle, Vertex } from './dataLoad';
+
+export interface PointLocation {
+  /** polygon.triangles 인덱스 */
+  triangleIndex: number;
+  /** tri.vertexIds 순서의 barycentric 가중치 (퇴화 삼각형이면 없음) */
+  weights?: [number, number, number];
+}
+
+/** =========================
+ *  Spatial acceleration grid
+ *  ========================= */
+export class SpatialGrid {
+  private grid: number[][][];
+  private bounds: ProjectedBounds;
+  private gridResolution: number;
+  private cellWidth: number;
+  private cellHeight: number;
+  private triangles: Triangle[];
+  private vertexMap: Map<number, Vertex>;
+
+  constructor(polygon: PolygonData, gridResolution: number = 64) {
+    this.bounds = polygon.bounds;
+    this.triangles = polygon.triangles;
+    this.vertexMap = new Map(polygon.vertices.map(v => [v.id, v]));
+    this.gridResolution = gridResolution;
+
+    this.cellWidth = (this.bounds.maxLon - this.bounds.minLon) / gridResolution;
+    this.cellHeight = (this.bounds.maxLat - this.bounds.minLat) / gridResolution;
+
+    this.grid = Array.from({ length: gridResolution }, () =>
+      Array.from({ length: gridResolution }, () => [])
+    );
+
+    this.buildIndex();
+  }
+
+  private buildIndex() {
+    for (let i = 0; i < this.triangles.length; i++) {
+      const tri = this.triangles[i];
+      const v1 = this.vertexMap.get(tri.vertexIds[0])!;
+      const v2 = this.vertexMap.get(tri.vertexIds[1])!;
+      const v3 = this.vertexMap.get(tri.vertexIds[2])!;
+
+      const triBounds = {
+        minLon: Math.min(v1.lon, v2.lon, v3.lon),
+        maxLon: Math.max(v1.lon, v2.lon, v3.lon),
+        minLat: Math.min(v1.lat, v2.lat, v3.lat),
+        maxLat: Math.max(v1.lat, v2.lat, v3.lat),
+      };
+
+      const startCol = Math.floor((triBounds.minLon - this.bounds.minLon) / this.cellWidth);
+      const endCol = Math.floor((triBounds.maxLon - this.bounds.minLon) / this.cellWidth);
+      const startRow = Math.floor((triBounds.minLat - this.bounds.minLat) / this.cellHeight);
+      const endRow = Math.floor((triBounds.maxLat - this.bounds.minLat) / this.cellHeight);
+
+      for (let row = Math.max(0, startRow); row <= Math.min(this.gridResolution - 1, endRow); row++) {
+        for (let col = Math.max(0, startCol); col <= Math.min(this.gridResolution - 1, endCol); col++) {
+          this.grid[row][col].push(i);
+        }
+      }
+    }
+  }
+
+  public getCandidateTriangles(lon: number, lat: number): number[] {
+    if (lon < this.bounds.minLon || lon > this.bounds.maxLon || lat < this.bounds.minLat || lat > this.bounds.maxLat) {
+      return [];
+    }
+
+    const col = Math.floor((lon - this.bounds.minLon) / this.cellWidth);
+    const row = Math.floor((lat - this.bounds.minLat) / this.cellHeight);
+
+    const safeCol = Math.max(0, Math.min(this.gridResolution - 1, col));
+    const safeRow = Math.max(0, Math.min(this.gridResolution - 1, row));
+
+    return this.grid[safeRow][safeCol];
+  }
+
+  /**
+   * 셀별 삼각형 목록을 하나의 배열로 평탄화 (GPU 업로드용)
+   * - 셀 i = row * columns + col (row 0 = minLat), 삼각형은 triangleIndices[cellStart[i] .. + cellCount[i])
+   */
+  public flatten(): {
+    columns: number;
+    rows: number;
+    cellStart: Uint32Array;
+    cellCount: Uint32Array;
+    triangleIndices: Uint32Array;
+    maxCellCount: number;
+  } {
+    const cellCount = this.gridResolution * this.gridResolution;
+    const cellStart = new Uint32Array(cellCount);
+    const counts = new Uint32Array(cellCount);
+    let total = 0, maxCellCount = 0;
+    for (let row = 0; row < this.gridResolution; row++) {
+      for (let col = 0; col < this.gridResolution; col++) {
+        const i = row * this.gridResolution + col;
+        const cell = this.grid[row][col];
+        cellStart[i] = total;
+        counts[i] = cell.length;
+        total += cell.length;
+        maxCellCount = Math.max(maxCellCount, cell.length);
+      }
+    }
+    const triangleIndices = new Uint32Array(total);
+    for (let row = 0; row < this.gridResolution; row++) {
+      for (let col = 0; col < this.gridResolution; col++) {
+        const i = row * this.gridResolution + col;
+        triangleIndices.set(this.grid[row][col], cellStart[i]);
+      }
+    }
+    return {
+      columns: this.gridResolution,
+      rows: this.gridResolution,
+      cellStart,
+      cellCount: counts,
+      triangleIndices,
+      maxCellCount
+    };
+  }
+
+  /**
+   * 점을 포함하는 첫 번째 삼각형과 barycentric 가중치(tri.vertexIds 순서)를 반환
+   * - 포함하는 삼각형이 없으면 null
+   * - 퇴화 삼각형(면적 ~0)이면 weights 없이 triangleIndex만 반환
+   */
+  public locate(lon: number, lat: number): PointLocation | null {
+    for (const triIndex of this.getCandidateTriangles(lon, lat)) {
+      const tri = this.triangles[triIndex];
+      const v1 = this.vertexMap.get(tri.vertexIds[0])!;
+      const v2 = this.vertexMap.get(tri.vertexIds[1])!;
+      const v3 = this.vertexMap.get(tri.vertexIds[2])!;
+
+      if (isPointInTriangle(lon, lat, v1, v2, v3)) {
+        const denom = (v2.lat - v3.lat) * (v1.lon - v3.lon) + (v3.lon - v2.lon) * (v1.lat - v3.lat);
+        if (Math.abs(denom) <= 1e-10) return { triangleIndex: triIndex };
+        const w1 = ((v2.lat - v3.lat) * (lon - v3.lon) + (v3.lon - v2.lon) * (lat - v3.lat)) / denom;
+        const w2 = ((v3.lat - v1.lat) * (lon - v3.lon) + (v1.lon - v3.lon) * (lat - v3.lat)) / denom;
+        return { triangleIndex: triIndex, weights: [w1, w2, 1 - w1 - w2] };
+      }
+    }
+    return null;
+  }
+}
+
+export function isPointInTriangle(pLon: number, pLat: number, v1: Vertex, v2: Vertex, v3: Vertex): boolean {
+  const d1 = (pLon - v2.lon) * (v1.lat - v2.lat) - (v1.lon - v2.lon) * (pLat - v2.lat);
+  const d2 = (pLon - v3.lon) * (v2.lat - v3.lat) - (v2.lon - v3.lon) * (pLat - v3.lat);
+  const d3 = (pLon - v1.lon) * (v3.lat - v1.lat) - (v3.lon - v1.lon) * (pLat - v1.lat);
+  const has_neg = d1 < 0 || d2 < 0 || d3 < 0;
+  const has_pos = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(has_neg && has_pos);
+}
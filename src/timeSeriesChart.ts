@@ -0,0 +1,191 @@
+/** =========================
+ *  Time series chart panel
+ *  - viewer 컨테이너 아래쪽에 그리는 작은 선 그래프 (외부 차트 라이브러리 없음)
+ *  - 값이 NaN인 스텝은 선을 끊음
+ *  - x축은 스텝 번호 외에 거리 등 임의의 증가하는 값도 가능 (횡단면 분포)
+ *  ========================= */
+
+export interface TimeSeriesChartData {
+  title: string;
+  unit?: string;
+  /** x 값 (오름차순) */
+  steps: ArrayLike<number>;
+  values: ArrayLike<number>;
+  /** x축 단위 (예: 'm') */
+  xUnit?: string;
+}
+
+const WIDTH = 360;
+const HEIGHT = 160;
+const PADDING = { left: 48, right: 12, top: 10, bottom: 22 };
+
+export class TimeSeriesChart {
+  private readonly panel: HTMLElement;
+  private readonly header: HTMLElement;
+  private readonly canvas: HTMLCanvasElement;
+  private data?: TimeSeriesChartData;
+  private currentStep?: number;
+  private closeListener?: () => void;
+
+  /**
+   * @param side - 패널 위치 (왼쪽 아래 / 오른쪽 아래)
+   */
+  constructor(container: HTMLElement, side: 'left' | 'right' = 'left') {
+    this.panel = document.createElement('div');
+    Object.assign(this.panel.style, {
+      position: 'absolute', [side]: '8px', bottom: '32px', zIndex: '11', display: 'none', padding: '6px',
+      borderRadius: '4px', background: 'rgba(40, 40, 40, 0.85)', color: '#fff', font: '12px monospace'
+    });
+
+    const titleBar = document.createElement('div');
+    Object.assign(titleBar.style, { display: 'flex', justifyContent: 'space-between', marginBottom: '4px' });
+    this.header = document.createElement('span');
+    const close = document.createElement('span');
+    close.textContent = '×';
+    close.style.cursor = 'pointer';
+    close.addEventListener('click', () => {
+      this.hide();
+      this.closeListener?.();
+    });
+    titleBar.append(this.header, close);
+
+    this.canvas = document.createElement('canvas');
+    const ratio = window.devicePixelRatio || 1;
+    this.canvas.width = WIDTH * ratio;
+    this.canvas.height = HEIGHT * ratio;
+    Object.assign(this.canvas.style, { width: `${WIDTH}px`, height: `${HEIGHT}px`, display: 'block' });
+
+    this.panel.append(titleBar, this.canvas);
+    container.appendChild(this.panel);
+  }
+
+  public get visible(): boolean {
+    return this.panel.style.display !== 'none';
+  }
+
+  public show() {
+    this.panel.style.display = 'block';
+  }
+
+  public hide() {
+    this.panel.style.display = 'none';
+  }
+
+  /**
+   * × 버튼으로 닫았을 때 호출
+   */
+  public onClose(listener: () => void) {
+    this.closeListener = listener;
+  }
+
+  public setData(data: TimeSeriesChartData) {
+    this.data = data;
+    this.header.textContent = data.unit ? `${data.title} (${data.unit})` : data.title;
+    this.draw();
+  }
+
+  /**
+   * 로드 진행률 표시 (그래프는 이전 데이터 유지)
+   */
+  public setProgress(title: string, loaded: number, total: number) {
+    this.setMessage(`${title} ${loaded}/${total}`);
+  }
+
+  /**
+   * 제목 줄에 메시지 표시 (메시 밖, 로드 실패 등)
+   */
+  public setMessage(message: string) {
+    this.header.textContent = message;
+  }
+
+  /**
+   * 현재 시간 표시선 (소수 time 가능)
+   */
+  public setCurrentStep(step: number) {
+    this.currentStep = step;
+    if (this.visible) this.draw();
+  }
+
+  public destroy() {
+    this.panel.remove();
+  }
+
+  private draw() {
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return;
+    const ratio = this.canvas.width / WIDTH;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    if (!this.data || this.data.steps.length === 0) return;
+
+    const { steps, values } = this.data;
+    let min = Infinity, max = -Infinity;
+    for (let i = 0; i < values.length; i++) {
+      if (Number.isNaN(values[i])) continue;
+      min = Math.min(min, values[i]);
+      max = Math.max(max, values[i]);
+    }
+    if (min === Infinity) {
+      min = 0;
+      max = 1;
+    } else if (min === max) {
+      min -= 0.5;
+      max += 0.5;
+    }
+    const firstStep = steps[0];
+    const lastStep = steps[steps.length - 1];
+    const xLabel = (step: number) => `${Number.isInteger(step) ? step : step.toFixed(1)}${this.data!.xUnit ?? ''}`;
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const x = (step: number) => PADDING.left + (lastStep > firstStep ? (step - firstStep) / (lastStep - firstStep) : 0.5) * plotWidth;
+    const y = (value: number) => PADDING.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+    // axes and labels
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(PADDING.left, PADDING.top, plotWidth, plotHeight);
+    ctx.fillStyle = '#fff';
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'top';
+    ctx.fillText(formatValue(max), PADDING.left - 4, PADDING.top);
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(formatValue(min), PADDING.left - 4, PADDING.top + plotHeight);
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'left';
+    ctx.fillText(xLabel(firstStep), PADDING.left, PADDING.top + plotHeight + 4);
+    ctx.textAlign = 'right';
+    ctx.fillText(xLabel(lastStep), PADDING.left + plotWidth, PADDING.top + plotHeight + 4);
+
+    // series (NaN breaks the line)
+    ctx.strokeStyle = 'cyan';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    let drawing = false;
+    for (let i = 0; i < steps.length; i++) {
+      const value = values[i];
+      if (Number.isNaN(value)) {
+        drawing = false;
+        continue;
+      }
+      if (drawing) ctx.lineTo(x(steps[i]), y(value));
+      else ctx.moveTo(x(steps[i]), y(value));
+      drawing = true;
+    }
+    ctx.stroke();
+
+    // current time
+    if (this.currentStep !== undefined && this.currentStep >= firstStep && this.currentStep <= lastStep) {
+      ctx.strokeStyle = 'rgba(255, 200, 0, 0.9)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x(this.currentStep), PADDING.top);
+      ctx.lineTo(x(this.currentStep), PADDING.top + plotHeight);
+      ctx.stroke();
+    }
+  }
+}
+
+function formatValue(value: number): string {
+  return Math.abs(value) >= 100 ? value.toFixed(1) : value.toPrecision(3);
+}
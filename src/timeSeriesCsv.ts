@@ -0,0 +1,276 @@
+import type { TimeSeriesData, TimeSeriesRecord, VertexId } from './dataLoad';
+
+/** =========================
+ *  Time-series CSV
+ *  - 컬럼은 위치가 아니라 헤더 이름으로 결정
+ *  - 파싱 결과와 함께 검증 리포트 반환
+ *  ========================= */
+export type TimeSeriesField =
+  | 'nodeId'
+  | 'timestamp'
+  | 'velocityX'
+  | 'velocityY'
+  | 'waterDepth'
+  | 'velocityMagnitude'
+  | 'waterElevation'
+  | 'inflowRate';
+
+/** 필드 -> CSV 헤더 이름 또는 0부터 시작하는 컬럼 인덱스 */
+export type CsvColumnMapping = Partial<Record<TimeSeriesField, string | number>>;
+
+export interface TimeSeriesCsvOptions {
+  /** 기본 헤더 이름과 다르게 export된 파일용 컬럼 매핑 */
+  columns?: CsvColumnMapping;
+  /** TimeSeriesRecord.extra로 함께 읽을 추가 숫자 컬럼 ('all'이면 매핑되지 않은 모든 컬럼) */
+  extraColumns?: string[] | 'all';
+  /** 메시에 존재하는 노드 ID. 주어지면 메시에 없는 노드 ID를 리포트 */
+  knownNodeIds?: ReadonlySet<VertexId>;
+  /** 구분자. 생략 시 헤더에서 , ; 탭 중 자동 감지 */
+  delimiter?: string;
+}
+
+export interface CsvRowIssue {
+  /** 1부터 시작하는 파일 내 줄 번호 */
+  line: number;
+  reason: string;
+}
+
+export interface TimeSeriesValidationReport {
+  totalRows: number;
+  validRows: number;
+  /** 찾지 못한 선택 컬럼 (값은 NaN으로 채워짐) */
+  missingColumns: TimeSeriesField[];
+  /** 제외된 행 수와 앞쪽 일부 행의 사유 (최대 MAX_REPORTED_ROWS개) */
+  badRowCount: number;
+  badRows: CsvRowIssue[];
+  /** 컬럼별 NaN 값 개수 (제외되지 않은 행 기준) */
+  nanCounts: Record<string, number>;
+  /** 두 번 이상 나온 노드 ID (첫 번째 행만 사용) */
+  duplicateNodeIds: VertexId[];
+  /** 메시에 없는 노드 ID */
+  unknownNodeIds: VertexId[];
+}
+
+export interface ParsedTimeSeriesCsv {
+  data: TimeSeriesData;
+  report: TimeSeriesValidationReport;
+}
+
+const MAX_REPORTED_ROWS = 100;
+
+const REQUIRED_FIELDS: TimeSeriesField[] = ['nodeId', 'velocityX', 'velocityY'];
+
+// 정규화된(소문자, 영숫자만) 헤더 별칭. 첫 번째 항목이 기본 export 헤더
+const FIELD_ALIASES: Record<TimeSeriesField, string[]> = {
+  nodeId: ['nodeid', 'node', 'id', 'nd'],
+  timestamp: ['time', 'timestamp', 't'],
+  velocityX: ['u', 'vx', 'velocityx', 'xvelocity'],
+  velocityY: ['v', 'vy', 'velocityy', 'yvelocity'],
+  waterDepth: ['waterdepth', 'depth', 'h'],
+  velocityMagnitude: ['velocitymag', 'velocitymagnitude', 'speed', 'vmag'],
+  waterElevation: ['watersurface', 'waterelevation', 'wse', 'wsel'],
+  inflowRate: ['inflow', 'inflowrate', 'q'],
+};
+
+const FIELDS = Object.keys(FIELD_ALIASES) as TimeSeriesField[];
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function unquote(cell: string): string {
+  const trimmed = cell.trim();
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1).trim()
+    : trimmed;
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) =>
+    headerLine.split(d).length > headerLine.split(best).length ? d : best
+  , ',');
+}
+
+function resolveColumns(
+  headers: string[],
+  mapping: CsvColumnMapping = {}
+): Map<TimeSeriesField, number> {
+  const normalized = headers.map(normalizeHeader);
+  const resolved = new Map<TimeSeriesField, number>();
+
+  for (const field of FIELDS) {
+    const mapped = mapping[field];
+    if (typeof mapped === 'number') {
+      if (!Number.isInteger(mapped) || mapped < 0 || mapped >= headers.length) {
+        throw new Error(`Column index ${mapped} for "${field}" is out of range (file has ${headers.length} columns)`);
+      }
+      resolved.set(field, mapped);
+      continue;
+    }
+    if (typeof mapped === 'string') {
+      let index = headers.indexOf(mapped);
+      if (index < 0) index = normalized.indexOf(normalizeHeader(mapped));
+      if (index < 0) {
+        throw new Error(`Column "${mapped}" mapped to "${field}" not found. Available columns: ${headers.join(', ')}`);
+      }
+      resolved.set(field, index);
+      continue;
+    }
+    const index = normalized.findIndex(h => FIELD_ALIASES[field].includes(h));
+    if (index >= 0) resolved.set(field, index);
+  }
+
+  const missingRequired = REQUIRED_FIELDS.filter(f => !resolved.has(f));
+  if (missingRequired.length > 0) {
+    throw new Error(
+      `Time series CSV is missing required column(s) ${missingRequired.join(', ')}. ` +
+      `Available columns: ${headers.join(', ')}. Use the column mapping option for custom exports.`
+    );
+  }
+  return resolved;
+}
+
+function resolveExtraColumns(
+  headers: string[],
+  columns: Map<TimeSeriesField, number>,
+  extraColumns: TimeSeriesCsvOptions['extraColumns']
+): Map<string, number> {
+  const extras = new Map<string, number>();
+  if (!extraColumns) return extras;
+
+  const used = new Set(columns.values());
+  if (extraColumns === 'all') {
+    headers.forEach((h, i) => { if (!used.has(i)) extras.set(h, i); });
+    return extras;
+  }
+  for (const name of extraColumns) {
+    const index = headers.indexOf(name);
+    if (index < 0) throw new Error(`Extra column "${name}" not found. Available columns: ${headers.join(', ')}`);
+    extras.set(name, index);
+  }
+  return extras;
+}
+
+/**
+ * 시계열 CSV 파싱 + 검증
+ * - nodeId/U/V 컬럼은 필수 (없으면 throw)
+ * - 노드 ID나 U/V가 숫자가 아닌 행, 컬럼 수가 부족한 행, 중복 노드 ID 행은 제외하고 리포트
+ */
+export function parseTimeSeriesCsv(text: string, options: TimeSeriesCsvOptions = {}): ParsedTimeSeriesCsv {
+  const lines = text.split(/\r?\n/);
+  const headerLineIndex = lines.findIndex(l => l.trim() !== '');
+  if (headerLineIndex < 0) throw new Error('Time series CSV is empty');
+
+  const delimiter = options.delimiter ?? detectDelimiter(lines[headerLineIndex]);
+  const headers = lines[headerLineIndex].split(delimiter).map(unquote);
+  const columns = resolveColumns(headers, options.columns);
+  const extras = resolveExtraColumns(headers, columns, options.extraColumns);
+  const requiredWidth = Math.max(...columns.values(), ...extras.values()) + 1;
+
+  const report: TimeSeriesValidationReport = {
+    totalRows: 0,
+    validRows: 0,
+    missingColumns: FIELDS.filter(f => !columns.has(f)),
+    badRowCount: 0,
+    badRows: [],
+    nanCounts: {},
+    duplicateNodeIds: [],
+    unknownNodeIds: [],
+  };
+  const reportBadRow = (line: number, reason: string) => {
+    report.badRowCount++;
+    if (report.badRows.length < MAX_REPORTED_ROWS) report.badRows.push({ line, reason });
+  };
+  const countNaN = (column: string) => {
+    report.nanCounts[column] = (report.nanCounts[column] ?? 0) + 1;
+  };
+
+  const data: TimeSeriesData = [];
+  const seen = new Set<VertexId>();
+  const duplicates = new Set<VertexId>();
+  const unknown = new Set<VertexId>();
+
+  for (let i = headerLineIndex + 1; i < lines.length; i++) {
+    const trimmedLine = lines[i].trim();
+    if (!trimmedLine) continue;
+    report.totalRows++;
+    const lineNumber = i + 1;
+
+    const cells = trimmedLine.split(delimiter);
+    if (cells.length < requiredWidth) {
+      reportBadRow(lineNumber, `expected at least ${requiredWidth} columns, got ${cells.length}`);
+      continue;
+    }
+    const cell = (field: TimeSeriesField): number => {
+      const index = columns.get(field);
+      return index === undefined ? NaN : Number(unquote(cells[index]) || NaN);
+    };
+
+    const nodeId = cell('nodeId');
+    if (!Number.isInteger(nodeId)) {
+      reportBadRow(lineNumber, `invalid node ID "${unquote(cells[columns.get('nodeId')!])}"`);
+      continue;
+    }
+    const velocityX = cell('velocityX');
+    const velocityY = cell('velocityY');
+    if (Number.isNaN(velocityX) || Number.isNaN(velocityY)) {
+      reportBadRow(lineNumber, `node ${nodeId}: U/V is not a number`);
+      continue;
+    }
+    if (seen.has(nodeId)) {
+      duplicates.add(nodeId);
+      reportBadRow(lineNumber, `duplicate node ID ${nodeId}`);
+      continue;
+    }
+    seen.add(nodeId);
+    if (options.knownNodeIds && !options.knownNodeIds.has(nodeId)) unknown.add(nodeId);
+
+    const record: TimeSeriesRecord = {
+      nodeId,
+      timestamp: cell('timestamp'),
+      velocityX,
+      velocityY,
+      waterDepth: cell('waterDepth'),
+      velocityMagnitude: cell('velocityMagnitude'),
+      waterElevation: cell('waterElevation'),
+      inflowRate: cell('inflowRate'),
+    };
+    for (const field of FIELDS) {
+      if (columns.has(field) && Number.isNaN(record[field])) countNaN(headers[columns.get(field)!]);
+    }
+
+    if (extras.size > 0) {
+      record.extra = {};
+      for (const [name, index] of extras) {
+        const value = Number(unquote(cells[index]) || NaN);
+        if (Number.isNaN(value)) countNaN(name);
+        record.extra[name] = value;
+      }
+    }
+
+    data.push(record);
+    report.validRows++;
+  }
+
+  report.duplicateNodeIds = [...duplicates];
+  report.unknownNodeIds = [...unknown];
+  return { data, report };
+}
+
+/**
+ * 리포트를 한 줄 요약으로 변환. 문제가 없으면 null
+ */
+export function summarizeValidationReport(report: TimeSeriesValidationReport): string | null {
+  const issues: string[] = [];
+  if (report.badRowCount > 0) issues.push(`${report.badRowCount} bad row(s) skipped`);
+  const nanTotal = Object.values(report.nanCounts).reduce((a, b) => a + b, 0);
+  if (nanTotal > 0) {
+    const columns = Object.entries(report.nanCounts).map(([c, n]) => `${c}: ${n}`).join(', ');
+    issues.push(`${nanTotal} NaN value(s) (${columns})`);
+  }
+  if (report.duplicateNodeIds.length > 0) issues.push(`${report.duplicateNodeIds.length} duplicate node ID(s)`);
+  if (report.unknownNodeIds.length > 0) issues.push(`${report.unknownNodeIds.length} node ID(s) not in the mesh`);
+  if (report.missingColumns.length > 0) issues.push(`missing column(s): ${report.missingColumns.join(', ')}`);
+  return issues.length > 0 ? issues.join('; ') : null;
+}
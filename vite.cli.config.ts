@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite'
+import { resolve } from 'path'
+
+// Node에서 실행하는 CLI 도구 빌드 (DOM/Cesium 없이 동작하는 모듈만 사용)
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: true,
+    outDir: 'dist/cli',
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        convertCsvToBinary: resolve(__dirname, 'src/cli/convertCsvToBinary.ts'),
+        preprocessRun: resolve(__dirname, 'src/cli/preprocessRun.ts'),
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js'
+      }
+    }
+  }
+})